@@ -0,0 +1,157 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import type { ChampionFull, FavoriteSkin, SkinInfo, SkinLine } from '../types';
+import { LOADING_SKIN_IMAGE_URL, isAbortError } from '../services/dataClient';
+import { IndexedSkin, toFavoriteSkin } from '../services/skinIndex';
+import { toLanguageTag } from '../services/i18n';
+import { MatchCriteria, Recommendations, SkinRecommender, buildCatalog, resolveRecommendations } from '../services/recommendations';
+import { RarityBadge } from './RarityBadge';
+import { useI18n } from '../hooks/useLocale';
+import { styles } from '../styles';
+
+const toFavorite = ({ skin, champion }: IndexedSkin) => toFavoriteSkin(skin, champion);
+
+// --- Ask View Component ---
+// Free-text skin recommendations; whatever the recommender answers is checked against local data.
+export const AskView: React.FC<{
+    recommender: SkinRecommender;
+    championDetailsCache: Map<string, ChampionFull>;
+    skinInfo: Map<number, SkinInfo>;
+    skinLines: SkinLine[] | null;
+    skinIndex: Map<string, IndexedSkin>;
+    detailsLoaded: boolean;
+    favoriteIds: Set<string>;
+    ownedIds: Set<string>;
+    listName: string;
+    onAddSkins: (skins: FavoriteSkin[]) => void;
+    onSelect: (favorite: FavoriteSkin) => void;
+}> = ({ recommender, championDetailsCache, skinInfo, skinLines, skinIndex, detailsLoaded, favoriteIds, ownedIds, listName, onAddSkins, onSelect }) => {
+    const [query, setQuery] = useState('');
+    const [result, setResult] = useState<Recommendations | null>(null);
+    const [error, setError] = useState<unknown>(null);
+    const [asking, setAsking] = useState(false);
+    const controllerRef = useRef<AbortController | null>(null);
+    const { uiLocale, t, formatNumber, formatRp, describeError } = useI18n();
+
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    const handleSubmit = useCallback((e: React.FormEvent) => {
+        e.preventDefault();
+        const trimmed = query.trim();
+        if (!trimmed) return;
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setAsking(true);
+        setError(null);
+        const catalog = buildCatalog(championDetailsCache, skinInfo, ownedIds, skinLines);
+        recommender.recommend(trimmed, catalog, { signal: controller.signal })
+            .then(response => {
+                if (!controller.signal.aborted) setResult(resolveRecommendations(response, skinIndex));
+            })
+            .catch(err => {
+                if (isAbortError(err) || controller.signal.aborted) return;
+                console.error('Recommendation request failed:', err);
+                setError(err);
+            })
+            .finally(() => {
+                if (controllerRef.current === controller) setAsking(false);
+            });
+    }, [query, recommender, championDetailsCache, skinInfo, ownedIds, skinLines, skinIndex]);
+
+    const describeCriteria = ({ words, maxPrice, unownedOnly }: MatchCriteria) => {
+        const parts = [
+            words.length > 0 && t('ask.criteria.matching', { words: words.join(' ') }),
+            maxPrice !== null && t('ask.criteria.maxPrice', { price: formatRp(maxPrice) }),
+            unownedOnly && t('ask.criteria.notOwned'),
+        ].filter((part): part is string => Boolean(part));
+        if (parts.length === 0) return t('ask.criteria.all');
+        const criteria = new Intl.ListFormat(toLanguageTag(uiLocale), { type: 'conjunction' }).format(parts);
+        return t('ask.criteria', { criteria });
+    };
+
+    const missing = result ? result.skins.filter(match => !favoriteIds.has(match.skin.id)).map(toFavorite) : [];
+
+    return (
+        <div style={styles.scrollArea}>
+            <form style={styles.filterBar} onSubmit={handleSubmit}>
+                <input
+                    type="text"
+                    placeholder={t('ask.placeholder')}
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    style={{ ...styles.searchInput, flex: 1 }}
+                    aria-label={t('ask.label')}
+                />
+                <button
+                    type="submit"
+                    style={styles.textButton}
+                    disabled={asking || !detailsLoaded || !query.trim()}
+                    title={detailsLoaded ? t('ask.submitHint', { name: recommender.name }) : t('app.needsAllData')}
+                >
+                    <i className="fas fa-magic"></i> {t(asking ? 'ask.asking' : 'ask.submit')}
+                </button>
+            </form>
+            <div style={{ padding: '0 20px 20px' }}>
+                {error != null && <p>{t('ask.error', { error: describeError(error) })}</p>}
+                {result && (
+                    <>
+                        <div style={styles.skinLineHeader}>
+                            <p style={{ flex: 1, opacity: 0.8 }}>{result.criteria ? describeCriteria(result.criteria) : result.summary}</p>
+                            <button
+                                style={styles.textButton}
+                                onClick={() => onAddSkins(missing)}
+                                disabled={missing.length === 0}
+                                title={t('lists.addTo', { name: listName })}
+                            >
+                                <i className="fas fa-heart"></i> {t('ask.addAll', { count: formatNumber(missing.length) })}
+                            </button>
+                        </div>
+                        {result.rejectedIds.length > 0 && (
+                            <p style={{ opacity: 0.6, fontSize: '0.85em' }}>
+                                {t('ask.rejected', { count: formatNumber(result.rejectedIds.length) })}
+                            </p>
+                        )}
+                        {result.skins.length === 0 && <p style={{ textAlign: 'center', opacity: 0.7 }}>{t('ask.noResults')}</p>}
+                        <div style={{ ...styles.skinResultsGrid, padding: 0 }}>
+                            {result.skins.map(match => {
+                                const favorite = toFavorite(match);
+                                const info = skinInfo.get(parseInt(favorite.id));
+                                const favorited = favoriteIds.has(favorite.id);
+                                return (
+                                    <div key={favorite.id} style={styles.skinResultItem}>
+                                        <button type="button" style={styles.skinResultCard} className="champion-card" onClick={() => onSelect(favorite)}>
+                                            <img
+                                                src={LOADING_SKIN_IMAGE_URL(favorite.championId, favorite.num)}
+                                                alt=""
+                                                loading="lazy"
+                                                style={styles.skinResultImage}
+                                            />
+                                            <span style={styles.championName}>
+                                                {ownedIds.has(favorite.id) && <i className="fas fa-check-circle" style={{ color: '#3fbf7f', marginRight: '4px' }} title={t('app.owned')}></i>}
+                                                {favorite.name}
+                                            </span>
+                                            <small style={{ opacity: 0.6 }}>{favorite.championName}</small>
+                                            <span style={{ marginTop: '4px' }}>
+                                                {info && info.price > 0 && <span style={{...styles.rpPrice, fontSize: '0.8em', padding: '2px 6px'}}>{formatRp(info.price)}</span>}
+                                                {info && <RarityBadge rarity={info.rarity} />}
+                                            </span>
+                                        </button>
+                                        <button
+                                            style={{ ...styles.favoriteButton, fontSize: '1rem', marginTop: '4px' }}
+                                            onClick={() => onAddSkins([favorite])}
+                                            disabled={favorited}
+                                            aria-label={t(favorited ? 'lists.favoriteIn' : 'lists.addTo', { name: listName })}
+                                            title={t(favorited ? 'lists.favoriteIn' : 'lists.addTo', { name: listName })}
+                                        >
+                                            <i className="fas fa-heart" style={{ color: favorited ? 'red' : '#ccc' }} aria-hidden="true"></i>
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,206 @@
+import React, { useMemo } from 'react';
+import type { FavoriteSkin, SkinInfo } from '../types';
+import { RpBundle, cheapestBundles, maxRpFor, planBudget } from '../services/budgetPlanner';
+import { toLanguageTag } from '../services/i18n';
+import { useI18n } from '../hooks/useLocale';
+import { useBudgetSettings } from '../hooks/useBudgetSettings';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { styles } from '../styles';
+
+/** Keeps the planner's tables to a reasonable size; no realistic budget comes close. */
+const MAX_AMOUNT = { rp: 1_000_000, money: 5_000 };
+
+/** The plan is worked out again once typing in the amount or balance pauses for this long. */
+const PLAN_DELAY_MS = 300;
+
+const parseAmount = (value: string, max: number) => {
+    const amount = parseFloat(value);
+    return Number.isFinite(amount) && amount > 0 ? Math.min(amount, max) : 0;
+};
+
+// --- Budget Planner Dialog Component ---
+// Suggests which favorites to buy within a budget in RP or real money, and which RP bundles
+// cover them. `favorites` are expected with names already localized.
+export const BudgetPlannerDialog: React.FC<{
+    favorites: FavoriteSkin[];
+    skinInfo: Map<number, SkinInfo>;
+    onClose: () => void;
+}> = ({ favorites, skinInfo, onClose }) => {
+    const { settings, updateSettings, resetBundles } = useBudgetSettings();
+    const { amount, unit, balance, goal, currency, bundles } = settings;
+    const focusTrap = useFocusTrap<HTMLDivElement>();
+    const { uiLocale, t, formatNumber, formatRp } = useI18n();
+    const money = useMemo(() => {
+        const format = new Intl.NumberFormat(toLanguageTag(uiLocale), { style: 'currency', currency });
+        return (value: number) => format.format(value);
+    }, [uiLocale, currency]);
+
+    const plannedAmount = useDebouncedValue(amount, PLAN_DELAY_MS);
+    const plannedBalance = useDebouncedValue(balance, PLAN_DELAY_MS);
+    // Right after switching units the settled amount may still be in the other unit, hence the cap
+    const budgetRp = useMemo(
+        () => unit === 'rp' ? plannedAmount : plannedBalance + maxRpFor(Math.min(plannedAmount, MAX_AMOUNT.money), bundles),
+        [unit, plannedAmount, plannedBalance, bundles],
+    );
+    const plan = useMemo(() => planBudget(favorites, skinInfo, budgetRp, goal), [favorites, skinInfo, budgetRp, goal]);
+    const purchase = useMemo(() => cheapestBundles(plan.total - plannedBalance, bundles), [plan.total, plannedBalance, bundles]);
+    const leftover = plannedBalance + (purchase?.rp ?? 0) - plan.total;
+
+    const updateBundle = (index: number, changes: Partial<RpBundle>) =>
+        updateSettings({ bundles: bundles.map((bundle, i) => i === index ? { ...bundle, ...changes } : bundle) });
+
+    return (
+        <div style={styles.modalOverlay} onClick={onClose}>
+            <div
+                ref={focusTrap.ref}
+                role="dialog"
+                aria-modal="true"
+                aria-label={t('budget.title')}
+                tabIndex={-1}
+                style={{ ...styles.modalContent, ...styles.dialogContent }}
+                onClick={(e) => e.stopPropagation()}
+                onKeyDown={(e) => {
+                    focusTrap.onKeyDown(e);
+                    if (e.key === 'Escape') onClose();
+                }}
+            >
+                <button style={styles.closeButton} onClick={onClose} aria-label={t('app.close')}>&times;</button>
+                <h3>{t('budget.title')}</h3>
+                <div style={styles.budgetInputs}>
+                    <label style={styles.dialogField}>
+                        {t('budget.amount')}
+                        <span style={{ display: 'flex', gap: '6px' }}>
+                            <input
+                                type="number"
+                                min={0}
+                                step={unit === 'rp' ? 5 : 0.01}
+                                value={amount || ''}
+                                onChange={(e) => updateSettings({ amount: parseAmount(e.target.value, MAX_AMOUNT[unit]) })}
+                                style={{ ...styles.listSelect, width: '110px' }}
+                            />
+                            <select
+                                value={unit}
+                                onChange={(e) => {
+                                    const next = e.target.value === 'money' ? 'money' : 'rp';
+                                    updateSettings({ unit: next, amount: Math.min(amount, MAX_AMOUNT[next]) });
+                                }}
+                                style={styles.listSelect}
+                                aria-label={t('budget.unit')}
+                            >
+                                <option value="rp">RP</option>
+                                <option value="money">{currency}</option>
+                            </select>
+                        </span>
+                    </label>
+                    <label style={styles.dialogField}>
+                        {t('budget.balance')}
+                        <input
+                            type="number"
+                            min={0}
+                            value={balance || ''}
+                            onChange={(e) => updateSettings({ balance: Math.floor(parseAmount(e.target.value, MAX_AMOUNT.rp)) })}
+                            style={{ ...styles.listSelect, width: '110px' }}
+                        />
+                    </label>
+                    <label style={styles.dialogField}>
+                        {t('budget.goal')}
+                        <select
+                            value={goal}
+                            onChange={(e) => updateSettings({ goal: e.target.value === 'rarity' ? 'rarity' : 'count' })}
+                            style={styles.listSelect}
+                        >
+                            <option value="count">{t('budget.goalCount')}</option>
+                            <option value="rarity">{t('budget.goalRarity')}</option>
+                        </select>
+                    </label>
+                </div>
+                {unit === 'money' && <p style={{ opacity: 0.7, margin: '0 0 10px' }}>{t('budget.buys', { amount: formatRp(budgetRp - plannedBalance) })}</p>}
+
+                {plan.picked.length > 0 ? (
+                    <>
+                        <p><strong>{t('budget.fits', { count: formatNumber(plan.picked.length), total: formatRp(plan.total) })}</strong></p>
+                        <ul style={{ ...styles.dialogList, fontFamily: 'inherit' }}>
+                            {plan.picked.map(fav => (
+                                <li key={fav.id} style={styles.budgetRow}>
+                                    <span>{fav.name === 'default' ? fav.championName : fav.name}</span>
+                                    <span>{formatRp(skinInfo.get(parseInt(fav.id))?.price ?? 0)}</span>
+                                </li>
+                            ))}
+                        </ul>
+                        {purchase && purchase.rp > 0 && (
+                            <p>
+                                {t('budget.buy')}{' '}
+                                {purchase.bundles.map(({ bundle, count }) => `${count} × ${formatRp(bundle.rp)}`).join(' + ')}
+                                {' '}= <strong>{money(purchase.price)}</strong>
+                            </p>
+                        )}
+                        {!purchase && <p style={styles.dialogWarning}>{t('budget.noBundles')}</p>}
+                        {purchase && <p>{t('budget.leftover', { amount: formatRp(leftover) })}</p>}
+                    </>
+                ) : (
+                    <p style={{ opacity: 0.7 }}>{budgetRp > 0 ? t('budget.nothingFits') : t('budget.enterAmount')}</p>
+                )}
+                {plan.skipped.length > 0 && plan.picked.length > 0 && (
+                    <p style={{ opacity: 0.7 }}>{t('budget.skipped', { count: formatNumber(plan.skipped.length) })}</p>
+                )}
+
+                <details>
+                    <summary style={{ cursor: 'pointer' }}>{t('budget.bundles')}</summary>
+                    <label style={{ ...styles.dialogField, marginTop: '10px' }}>
+                        {t('budget.currency')}
+                        <input
+                            type="text"
+                            value={currency}
+                            maxLength={3}
+                            onChange={(e) => {
+                                const code = e.target.value.toUpperCase();
+                                if (/^[A-Z]{3}$/.test(code)) updateSettings({ currency: code });
+                            }}
+                            style={{ ...styles.listSelect, width: '70px' }}
+                        />
+                    </label>
+                    {bundles.map((bundle, i) => (
+                        <div key={i} style={{ display: 'flex', gap: '6px', alignItems: 'center', marginBottom: '6px' }}>
+                            <input
+                                type="number"
+                                min={0}
+                                value={bundle.rp || ''}
+                                onChange={(e) => updateBundle(i, { rp: Math.floor(parseAmount(e.target.value, MAX_AMOUNT.rp)) })}
+                                style={{ ...styles.listSelect, width: '90px' }}
+                                aria-label={t('budget.bundleRp')}
+                            />
+                            RP
+                            <input
+                                type="number"
+                                min={0}
+                                step={0.01}
+                                value={bundle.price || ''}
+                                onChange={(e) => updateBundle(i, { price: parseAmount(e.target.value, MAX_AMOUNT.money) })}
+                                style={{ ...styles.listSelect, width: '90px' }}
+                                aria-label={t('budget.bundlePrice')}
+                            />
+                            {currency}
+                            <button
+                                style={styles.iconButton}
+                                onClick={() => updateSettings({ bundles: bundles.filter((_, j) => j !== i) })}
+                                title={t('budget.removeBundle')}
+                            >
+                                <i className="fas fa-trash-alt"></i>
+                            </button>
+                        </div>
+                    ))}
+                    <div style={{ display: 'flex', gap: '6px' }}>
+                        <button style={styles.textButton} onClick={() => updateSettings({ bundles: [...bundles, { rp: 0, price: 0 }] })}>
+                            <i className="fas fa-plus"></i> {t('budget.addBundle')}
+                        </button>
+                        <button style={styles.textButton} onClick={resetBundles}>{t('budget.resetBundles')}</button>
+                    </div>
+                </details>
+                <div style={styles.dialogActions}>
+                    <button style={styles.textButton} onClick={onClose}>{t('budget.close')}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
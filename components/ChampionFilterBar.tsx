@@ -0,0 +1,59 @@
+import React from 'react';
+import { CHAMPION_SORTS, ChampionFilters, ChampionSort, isChampionRole } from '../services/championFilters';
+import type { MessageKey } from '../services/i18n';
+import { useI18n } from '../hooks/useLocale';
+import { styles } from '../styles';
+
+const SORT_LABELS: Record<ChampionSort, MessageKey> = {
+    name: 'champions.sortName',
+    skins: 'champions.sortSkins',
+    favorites: 'champions.sortFavorites',
+};
+
+// --- Champion Filter Bar Component ---
+// Role chips and the sort order for the champion grid; the name search stays in the header.
+export const ChampionFilterBar: React.FC<{
+    tags: string[];
+    filters: ChampionFilters;
+    onToggleTag: (tag: string) => void;
+    onClearTags: () => void;
+    onSortChange: (sort: ChampionSort) => void;
+}> = ({ tags, filters, onToggleTag, onClearTags, onSortChange }) => {
+    const { t } = useI18n();
+    const roleLabel = (tag: string) => isChampionRole(tag) ? t(`role.${tag}`) : tag;
+
+    return (
+        <div style={styles.filterBar}>
+            <div role="group" aria-label={t('champions.roles')} style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+                <button
+                    style={{ ...styles.filterChip, ...(filters.tags.length === 0 ? styles.filterChipActive : {}) }}
+                    onClick={onClearTags}
+                    aria-pressed={filters.tags.length === 0}
+                >
+                    {t('champions.allRoles')}
+                </button>
+                {tags.map(tag => (
+                    <button
+                        key={tag}
+                        style={{ ...styles.filterChip, ...(filters.tags.includes(tag) ? styles.filterChipActive : {}) }}
+                        onClick={() => onToggleTag(tag)}
+                        aria-pressed={filters.tags.includes(tag)}
+                    >
+                        {roleLabel(tag)}
+                    </button>
+                ))}
+            </div>
+            <select
+                value={filters.sort}
+                onChange={(e) => onSortChange(e.target.value as ChampionSort)}
+                style={styles.listSelect}
+                title={t('champions.sortBy')}
+                aria-label={t('champions.sortBy')}
+            >
+                {CHAMPION_SORTS.map(sort => (
+                    <option key={sort} value={sort}>{t(SORT_LABELS[sort])}</option>
+                ))}
+            </select>
+        </div>
+    );
+};
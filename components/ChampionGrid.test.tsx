@@ -0,0 +1,58 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import type { Champion } from '../types';
+import { ChampionGrid } from './ChampionGrid';
+
+const champion = (id: string): Champion => ({ id, key: id, name: id, title: `the ${id}`, blurb: '', tags: [] });
+
+const CHAMPIONS = ['Ahri', 'Annie', 'Ashe', 'Braum'].map(champion);
+
+const renderGrid = (onOpen = vi.fn()) => {
+    render(<ChampionGrid champions={CHAMPIONS} championCompletion={new Map()} apiVersion="14.1.1" onOpen={onOpen} />);
+    return { onOpen, cards: screen.getAllByRole('button') };
+};
+
+describe('ChampionGrid', () => {
+    it('keeps only one card in the Tab order', () => {
+        const { cards } = renderGrid();
+        expect(cards.map(card => card.tabIndex)).toEqual([0, -1, -1, -1]);
+    });
+
+    it('moves focus between cards with the arrow keys, Home and End', async () => {
+        const user = userEvent.setup();
+        const { cards } = renderGrid();
+        await user.tab();
+        expect(document.activeElement).toBe(cards[0]);
+
+        await user.keyboard('{ArrowRight}');
+        expect(document.activeElement).toBe(cards[1]);
+        await user.keyboard('{ArrowRight}{ArrowRight}');
+        expect(document.activeElement).toBe(cards[3]);
+        await user.keyboard('{ArrowRight}');
+        expect(document.activeElement).toBe(cards[3]);
+        await user.keyboard('{ArrowLeft}');
+        expect(document.activeElement).toBe(cards[2]);
+        await user.keyboard('{Home}');
+        expect(document.activeElement).toBe(cards[0]);
+        await user.keyboard('{End}');
+        expect(document.activeElement).toBe(cards[3]);
+    });
+
+    it('makes the last focused card the one Tab returns to', async () => {
+        const user = userEvent.setup();
+        const { cards } = renderGrid();
+        await user.tab();
+        await user.keyboard('{ArrowRight}{ArrowRight}');
+        expect(cards.map(card => card.tabIndex)).toEqual([-1, -1, 0, -1]);
+    });
+
+    it('opens the focused champion with Enter', async () => {
+        const user = userEvent.setup();
+        const { onOpen } = renderGrid();
+        await user.tab();
+        await user.keyboard('{ArrowRight}{Enter}');
+        expect(onOpen).toHaveBeenCalledWith(CHAMPIONS[1]);
+    });
+});
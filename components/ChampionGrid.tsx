@@ -0,0 +1,75 @@
+import React from 'react';
+import type { Champion } from '../types';
+import { CHAMPION_ICON_URL } from '../services/dataClient';
+import { countRender } from '../services/perfMetrics';
+import { isChampionRole } from '../services/championFilters';
+import { useGridNavigation } from '../hooks/useGridNavigation';
+import { useVirtualGrid } from '../hooks/useVirtualGrid';
+import { useI18n } from '../hooks/useLocale';
+import { styles } from '../styles';
+
+/** Icon, name, title and one line of text, plus the grid gap. */
+const ESTIMATED_ROW_HEIGHT = 156;
+
+/** Stands in for the rows that aren't rendered; the grid gap after it makes up the rest. */
+const spacerStyle = (height: number, gap: number): React.CSSProperties => ({
+    gridColumn: '1 / -1',
+    height: `${Math.max(height - gap, 0)}px`,
+});
+
+// --- Champion Grid Component ---
+// Memoized and virtualized: it only re-renders when its own props change, and only the rows
+// near the visible area are in the DOM.
+const ChampionGridComponent: React.FC<{
+    champions: Champion[];
+    championCompletion: Map<string, { owned: number, total: number }>;
+    apiVersion: string;
+    onOpen: (champion: Champion) => void;
+}> = ({ champions, championCompletion, apiVersion, onOpen }) => {
+    countRender('ChampionGrid');
+    const { t } = useI18n();
+    const roleLabels = (champion: Champion) => champion.tags.map(tag => isChampionRole(tag) ? t(`role.${tag}`) : tag).join(', ');
+    const { containerRef, startIndex, endIndex, paddingTop, paddingBottom, gap, scrollToIndex } = useVirtualGrid(champions.length, {
+        estimatedRowHeight: ESTIMATED_ROW_HEIGHT,
+    });
+    const navigation = useGridNavigation(champions.length, scrollToIndex);
+
+    return (
+        <div
+            ref={containerRef}
+            style={styles.championGrid}
+            className="champion-grid"
+            role="group"
+            aria-label={t('title.champions')}
+            onKeyDown={navigation.onKeyDown}
+        >
+            {paddingTop > 0 && <div style={spacerStyle(paddingTop, gap)} aria-hidden="true" />}
+            {champions.slice(startIndex, endIndex).map((champion, offset) => {
+                const index = startIndex + offset;
+                const completion = championCompletion.get(champion.id);
+                return (
+                    <button
+                        key={champion.id}
+                        type="button"
+                        style={styles.championCard}
+                        className="champion-card"
+                        onClick={() => onOpen(champion)}
+                        title={roleLabels(champion) || undefined}
+                        data-virtual-item
+                        {...navigation.itemProps(index)}
+                    >
+                        <img src={CHAMPION_ICON_URL(apiVersion, champion.id)} alt="" style={styles.championImage} className="champion-image" />
+                        <span style={styles.championName}>{champion.name}</span>
+                        {champion.title && <small style={styles.championTitle}>{champion.title}</small>}
+                        {completion && (
+                            <small style={styles.championOwnedCount}>{t('app.championOwned', completion)}</small>
+                        )}
+                    </button>
+                );
+            })}
+            {paddingBottom > 0 && <div style={spacerStyle(paddingBottom, gap)} aria-hidden="true" />}
+        </div>
+    );
+};
+
+export const ChampionGrid = React.memo(ChampionGridComponent);
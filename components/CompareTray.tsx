@@ -0,0 +1,47 @@
+import React from 'react';
+import { IndexedSkin } from '../services/skinIndex';
+import { useI18n } from '../hooks/useLocale';
+import { styles } from '../styles';
+
+// --- Compare Tray Component ---
+// The skins picked so far, shown under the main panel until they're compared or cleared.
+export const CompareTray: React.FC<{
+    compareIds: string[];
+    skinIndex: Map<string, IndexedSkin>;
+    onRemove: (skinId: string) => void;
+    onCompare: () => void;
+    onClear: () => void;
+}> = ({ compareIds, skinIndex, onRemove, onCompare, onClear }) => {
+    const { t } = useI18n();
+    return (
+        <div style={styles.compareTray} role="region" aria-label={t('title.compare')}>
+            {compareIds.map(id => {
+                const match = skinIndex.get(id);
+                const name = !match ? id : match.skin.name === 'default' ? match.champion.name : match.skin.name;
+                return (
+                    <span key={id} style={styles.compareChip}>
+                        {name}
+                        <button
+                            style={{ ...styles.removeFavoriteButton, width: '18px', height: '18px', lineHeight: '16px', fontSize: '0.8rem' }}
+                            className="remove-favorite-button"
+                            onClick={() => onRemove(id)}
+                            aria-label={`${t('compare.remove')}: ${name}`}
+                            title={t('compare.remove')}
+                        >
+                            &times;
+                        </button>
+                    </span>
+                );
+            })}
+            <button
+                style={{ ...styles.textButton, marginLeft: 'auto' }}
+                onClick={onCompare}
+                disabled={compareIds.length < 2}
+                title={compareIds.length < 2 ? t('compare.pickMore') : undefined}
+            >
+                <i className="fas fa-columns"></i> {t('compare.open', { count: compareIds.length })}
+            </button>
+            <button style={styles.textButton} onClick={onClear}>{t('compare.clear')}</button>
+        </div>
+    );
+};
@@ -0,0 +1,85 @@
+import React from 'react';
+import type { SkinInfo } from '../types';
+import { SKIN_IMAGE_URL } from '../services/dataClient';
+import { isOnSale } from '../services/pricing';
+import { IndexedSkin } from '../services/skinIndex';
+import { useI18n } from '../hooks/useLocale';
+import { RarityBadge } from './RarityBadge';
+import { styles } from '../styles';
+
+// --- Compare View Component ---
+// Skins side by side, one column each, in the order of the link. Skins can come from different
+// champions, and chromas show with their own art and price.
+export const CompareView: React.FC<{
+    skinIds: string[];
+    skinIndex: Map<string, IndexedSkin>;
+    skinInfo: Map<number, SkinInfo>;
+    detailsLoaded: boolean;
+    ownedIds: Set<string>;
+    onRemove: (skinId: string) => void;
+    onBack: () => void;
+}> = ({ skinIds, skinIndex, skinInfo, detailsLoaded, ownedIds, onRemove, onBack }) => {
+    const { t, formatRp } = useI18n();
+    const skins = skinIds.flatMap(id => {
+        const match = skinIndex.get(id);
+        return match ? [match] : [];
+    });
+    const unresolved = skinIds.length - skins.length;
+
+    return (
+        <div style={styles.scrollArea}>
+            <div style={styles.filterBar}>
+                <button style={styles.textButton} onClick={onBack}>
+                    <i className="fas fa-arrow-left"></i> {t('notFound.back')}
+                </button>
+            </div>
+            {detailsLoaded && unresolved > 0 && <p style={{ padding: '0 20px', opacity: 0.7 }}>{t('compare.unresolved')}</p>}
+            {skins.length < 2 && (detailsLoaded || skins.length > 0) && (
+                <p style={{ padding: '0 20px', opacity: 0.7 }}>{t('compare.pickMore')}</p>
+            )}
+            <div style={{ ...styles.compareGrid, gridTemplateColumns: `repeat(${Math.max(skins.length, 1)}, minmax(200px, 1fr))` }}>
+                {skins.map(({ skin, champion, parentSkinId }) => {
+                    const info = skinInfo.get(parseInt(skin.id));
+                    const parent = parentSkinId ? skinIndex.get(parentSkinId) : undefined;
+                    const parentInfo = parentSkinId ? skinInfo.get(parseInt(parentSkinId)) : undefined;
+                    const chromaArt = parentInfo?.chromas?.find(chroma => String(chroma.id) === skin.id)?.imageUrl;
+                    const chromaCount = info?.chromas?.length ?? 0;
+                    const name = skin.name === 'default' ? champion.name : skin.name;
+                    return (
+                        <div key={skin.id} style={styles.compareColumn}>
+                            <img
+                                src={chromaArt ?? SKIN_IMAGE_URL(champion.id, skin.num)}
+                                alt={name}
+                                loading="lazy"
+                                style={chromaArt ? styles.compareChromaImage : styles.compareImage}
+                            />
+                            <h3 style={{ margin: '10px 0 2px' }}>
+                                {name}
+                                {ownedIds.has(skin.id) && <span style={styles.ownedBadge}>{t('app.owned')}</span>}
+                            </h3>
+                            <small style={{ opacity: 0.7 }}>{champion.name}</small>
+                            <div style={{ marginTop: '10px' }}>
+                                {isOnSale(info) && (
+                                    <>
+                                        <span style={styles.saleBadge}>{t('price.sale')}</span>
+                                        <s style={{ opacity: 0.6, marginRight: '6px' }}>{formatRp(info.fullPrice)}</s>
+                                    </>
+                                )}
+                                {info && info.price > 0 && <span style={styles.rpPrice}>{formatRp(info.price)}</span>}
+                                {info && <RarityBadge rarity={info.rarity} />}
+                            </div>
+                            <p style={{ opacity: 0.8, fontSize: '0.9em' }}>
+                                {parent
+                                    ? t('compare.chromaOf', { name: parent.skin.name === 'default' ? champion.name : parent.skin.name })
+                                    : chromaCount > 0 ? t('compare.chromas', { count: chromaCount }) : t('compare.noChromas')}
+                            </p>
+                            <button style={styles.textButton} onClick={() => onRemove(skin.id)}>
+                                <i className="fas fa-times"></i> {t('compare.remove')}
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
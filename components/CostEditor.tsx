@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import type { SkinCost } from '../types';
+import { SKIN_CURRENCIES, isSkinCurrency } from '../services/skinMetadata';
+import { useI18n } from '../hooks/useLocale';
+import { styles } from '../styles';
+
+// --- Cost Editor Component ---
+// Lets the user correct a skin's costs when the loaded data is missing or wrong. Saving with no
+// rows marks the skin as not for sale; resetting goes back to the loaded data.
+export const CostEditor: React.FC<{
+    costs: SkinCost[];
+    overridden: boolean;
+    onSave: (costs: SkinCost[] | null) => void;
+    onCancel: () => void;
+}> = ({ costs, overridden, onSave, onCancel }) => {
+    const [rows, setRows] = useState<{ currency: string, amount: string }[]>(
+        () => costs.map(cost => ({ currency: cost.currency, amount: String(cost.amount) }))
+    );
+    const { t } = useI18n();
+    const unused = SKIN_CURRENCIES.filter(currency => !rows.some(row => row.currency === currency));
+
+    const updateRow = (index: number, changes: Partial<{ currency: string, amount: string }>) =>
+        setRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave(rows.flatMap(({ currency, amount }) => {
+            const value = parseInt(amount);
+            return isSkinCurrency(currency) && value > 0 ? [{ currency, amount: value }] : [];
+        }));
+    };
+
+    return (
+        <form style={styles.costEditor} onSubmit={handleSubmit} aria-label={t('cost.edit')}>
+            {rows.map((row, i) => (
+                <div key={i} style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+                    <select
+                        value={row.currency}
+                        onChange={(e) => updateRow(i, { currency: e.target.value })}
+                        style={styles.listSelect}
+                    >
+                        {SKIN_CURRENCIES.filter(currency => currency === row.currency || unused.includes(currency)).map(currency => (
+                            <option key={currency} value={currency}>{t(`currency.${currency}`)}</option>
+                        ))}
+                    </select>
+                    <input
+                        type="number"
+                        min={1}
+                        value={row.amount}
+                        onChange={(e) => updateRow(i, { amount: e.target.value })}
+                        style={{ ...styles.listSelect, width: '90px' }}
+                        aria-label={t(`currency.${isSkinCurrency(row.currency) ? row.currency : 'rp'}`)}
+                    />
+                    <button type="button" style={styles.iconButton} onClick={() => setRows(prev => prev.filter((_, j) => j !== i))} title={t('cost.remove')}>
+                        <i className="fas fa-trash-alt"></i>
+                    </button>
+                </div>
+            ))}
+            <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', justifyContent: 'center' }}>
+                {unused.length > 0 && (
+                    <button type="button" style={styles.textButton} onClick={() => setRows(prev => [...prev, { currency: unused[0], amount: '' }])}>
+                        <i className="fas fa-plus"></i> {t('cost.add')}
+                    </button>
+                )}
+                {overridden && <button type="button" style={styles.textButton} onClick={() => onSave(null)}>{t('cost.reset')}</button>}
+                <button type="button" style={styles.textButton} onClick={onCancel}>{t('cost.cancel')}</button>
+                <button type="submit" style={styles.textButton}>{t('cost.save')}</button>
+            </div>
+        </form>
+    );
+};
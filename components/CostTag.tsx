@@ -0,0 +1,30 @@
+import React from 'react';
+import type { SkinCost, SkinCurrency } from '../types';
+import { useI18n } from '../hooks/useLocale';
+import { styles } from '../styles';
+
+const CURRENCY_COLORS: Record<SkinCurrency, { color: string, backgroundColor: string }> = {
+    rp: { color: '#cdbe93', backgroundColor: '#1e282d' },
+    orangeEssence: { color: '#f0a040', backgroundColor: '#2d2114' },
+    mythicEssence: { color: '#d08cf0', backgroundColor: '#261a2d' },
+    eventToken: { color: '#5fd0c0', backgroundColor: '#142a28' },
+};
+
+// --- Cost Tag Component ---
+// One price in one currency, colored by currency and named in full on hover.
+export const CostTag: React.FC<{ cost: SkinCost; compact?: boolean }> = ({ cost, compact = false }) => {
+    const { t, formatCost } = useI18n();
+    return (
+        <span
+            style={{
+                ...styles.rpPrice,
+                ...CURRENCY_COLORS[cost.currency],
+                ...(compact ? { fontSize: '0.8em', padding: '2px 6px' } : {}),
+                marginRight: '4px',
+            }}
+            title={t(`currency.${cost.currency}`)}
+        >
+            {formatCost(cost)}
+        </span>
+    );
+};
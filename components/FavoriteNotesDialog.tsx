@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import type { FavoritePriority, FavoriteSkin } from '../types';
+import { PRIORITIES, isFavoritePriority, parseTags } from '../services/favoriteOrganizer';
+import { useI18n } from '../hooks/useLocale';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { styles } from '../styles';
+
+// --- Favorite Notes Dialog Component ---
+// Edits one favorite's priority, note and tags. Tags are typed comma-separated; the ones already
+// used elsewhere in the list are offered as suggestions.
+export const FavoriteNotesDialog: React.FC<{
+    favorite: FavoriteSkin;
+    knownTags: string[];
+    onSave: (notes: Pick<FavoriteSkin, 'priority' | 'note' | 'tags'>) => void;
+    onCancel: () => void;
+}> = ({ favorite, knownTags, onSave, onCancel }) => {
+    const [priority, setPriority] = useState<FavoritePriority | ''>(favorite.priority ?? '');
+    const [note, setNote] = useState(favorite.note ?? '');
+    const [tagText, setTagText] = useState((favorite.tags ?? []).join(', '));
+    const focusTrap = useFocusTrap<HTMLFormElement>();
+    const { t } = useI18n();
+    const name = favorite.name === 'default' ? favorite.championName : favorite.name;
+    const tags = parseTags(tagText);
+    const suggestions = knownTags.filter(tag => !tags.some(used => used.toLowerCase() === tag.toLowerCase()));
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave({ priority: priority || undefined, note, tags });
+    };
+
+    return (
+        <div style={styles.modalOverlay} onClick={onCancel}>
+            <form
+                ref={focusTrap.ref}
+                role="dialog"
+                aria-modal="true"
+                aria-label={t('notes.title', { name })}
+                tabIndex={-1}
+                style={{ ...styles.modalContent, ...styles.dialogContent }}
+                onClick={(e) => e.stopPropagation()}
+                onKeyDown={(e) => {
+                    focusTrap.onKeyDown(e);
+                    if (e.key === 'Escape') onCancel();
+                }}
+                onSubmit={handleSubmit}
+            >
+                <button type="button" style={styles.closeButton} onClick={onCancel} aria-label={t('app.close')}>&times;</button>
+                <h3>{t('notes.title', { name })}</h3>
+                <label style={styles.dialogField}>
+                    {t('notes.priority')}
+                    <select
+                        value={priority}
+                        onChange={(e) => setPriority(isFavoritePriority(e.target.value) ? e.target.value : '')}
+                        style={styles.listSelect}
+                    >
+                        <option value="">{t('priority.none')}</option>
+                        {PRIORITIES.map(value => <option key={value} value={value}>{t(`priority.${value}`)}</option>)}
+                    </select>
+                </label>
+                <label style={styles.dialogField}>
+                    {t('notes.note')}
+                    <textarea value={note} onChange={(e) => setNote(e.target.value)} rows={3} style={styles.dialogTextarea} />
+                </label>
+                <label style={styles.dialogField}>
+                    {t('notes.tags')}
+                    <input type="text" value={tagText} onChange={(e) => setTagText(e.target.value)} style={styles.searchInput} />
+                </label>
+                {suggestions.length > 0 && (
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+                        {suggestions.map(tag => (
+                            <button
+                                key={tag}
+                                type="button"
+                                style={styles.filterChip}
+                                onClick={() => setTagText([...tags, tag].join(', '))}
+                            >
+                                + {tag}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                <div style={styles.dialogActions}>
+                    <button type="button" style={styles.textButton} onClick={onCancel}>{t('notes.cancel')}</button>
+                    <button type="submit" style={styles.textButton}>{t('notes.save')}</button>
+                </div>
+            </form>
+        </div>
+    );
+};
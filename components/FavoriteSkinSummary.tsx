@@ -0,0 +1,65 @@
+import React from 'react';
+import type { FavoritePriority, FavoriteSkin, SkinInfo } from '../types';
+import { isOnSale, isTargetReached } from '../services/pricing';
+import { RarityBadge } from './RarityBadge';
+import { CostTag } from './CostTag';
+import { useI18n } from '../hooks/useLocale';
+import { styles } from '../styles';
+
+const PRIORITY_COLORS: Record<FavoritePriority, string> = {
+    high: '#e05252',
+    medium: '#f0c040',
+    low: '#50617b',
+};
+
+// --- Favorite Skin Summary Component ---
+export const FavoriteSkinSummary: React.FC<{
+    favorite: FavoriteSkin;
+    info?: SkinInfo;
+    /** The price on the user's last visit, when it differs from the current one. */
+    previousPrice?: number;
+    targetPrice?: number;
+}> = ({ favorite, info, previousPrice, targetPrice }) => {
+    const { t, formatRp } = useI18n();
+    return (
+        <div style={styles.favoriteItemInfo}>
+            <span>
+                {favorite.name === 'default' ? favorite.championName : favorite.name}
+                {favorite.priority && (
+                    <span style={{ ...styles.priorityBadge, backgroundColor: PRIORITY_COLORS[favorite.priority] }}>{t(`priority.${favorite.priority}`)}</span>
+                )}
+                {favorite.note && <i className="fas fa-sticky-note" style={{ marginLeft: '6px', fontSize: '0.8em', opacity: 0.7 }} title={favorite.note}></i>}
+            </span>
+            <small>{favorite.championName}{favorite.parentSkinId && ` \u00b7 ${t('favorites.chroma')}`}</small>
+            <div style={{marginTop: '4px'}}>
+                {isOnSale(info) && (
+                    <>
+                        <span style={styles.saleBadge}>{t('price.sale')}</span>
+                        <s style={{ opacity: 0.6, fontSize: '0.8em', marginRight: '4px' }}>{formatRp(info.fullPrice)}</s>
+                    </>
+                )}
+                {info?.costs.map(cost => <CostTag key={cost.currency} cost={cost} compact />)}
+                {info && previousPrice !== undefined && previousPrice !== info.price && (
+                    <i
+                        className={`fas fa-arrow-${info.price < previousPrice ? 'down' : 'up'}`}
+                        style={{ color: info.price < previousPrice ? '#3fbf7f' : '#e05252', marginLeft: '4px', fontSize: '0.8em' }}
+                        title={t('price.changed', { price: formatRp(previousPrice) })}
+                    ></i>
+                )}
+                {info && <RarityBadge rarity={info.rarity} />}
+                {info?.isLegacy && <span style={styles.skinFlag}>{t('skin.legacy')}</span>}
+                {info?.isLimited && <span style={styles.skinFlag}>{t('skin.limited')}</span>}
+                {info?.firstSeenVersion && <span style={styles.skinFlag}>{t('skin.firstSeen', { version: info.firstSeenVersion })}</span>}
+                {favorite.tags?.map(tag => <span key={tag} style={styles.favoriteTag}>{tag}</span>)}
+                {targetPrice !== undefined && (
+                    <small
+                        style={{ ...styles.targetPrice, ...(isTargetReached(info, targetPrice) ? styles.targetPriceReached : {}) }}
+                        title={t('price.target')}
+                    >
+                        <i className="fas fa-bullseye"></i> {formatRp(targetPrice)}
+                    </small>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,540 @@
+import React, { useState, useCallback, useMemo, useRef } from 'react';
+import type { ChampionFull, FavoriteSkin, SkinInfo } from '../types';
+import type { WishlistsApi } from '../hooks/useWishlists';
+import {
+    FavoritesImportError,
+    FavoritesImportResult,
+    downloadTextFile,
+    exportFavoritesCsv,
+    exportFavoritesJson,
+    parseFavoritesImport,
+} from '../services/favoritesTransfer';
+import { buildShareUrl } from '../services/shareLink';
+import { isTargetReached, totalFullRpFor, totalsByCurrency } from '../services/pricing';
+import { IndexedSkin, localizeFavorite } from '../services/skinIndex';
+import {
+    DEFAULT_FAVORITE_VIEW,
+    FavoriteSort,
+    FavoriteView,
+    PRIORITIES,
+    SubtotalGrouping,
+    collectTags,
+    isFavoritePriority,
+    isManualOrder,
+    organizeFavorites,
+    parseFavoriteRarity,
+    subtotalsBy,
+} from '../services/favoriteOrganizer';
+import { SKIN_RARITIES } from '../services/skinMetadata';
+import { countRender } from '../services/perfMetrics';
+import { useI18n } from '../hooks/useLocale';
+import { useVirtualGrid } from '../hooks/useVirtualGrid';
+import { MAX_COMPARED_SKINS } from '../hooks/useChampionRoute';
+import { FavoriteSkinSummary } from './FavoriteSkinSummary';
+import { ImportDialog } from './ImportDialog';
+import { FavoriteNotesDialog } from './FavoriteNotesDialog';
+import { BudgetPlannerDialog } from './BudgetPlannerDialog';
+import { styles } from '../styles';
+
+/** Lists up to this long render in full; longer ones only render the rows in view. */
+const VIRTUALIZE_AFTER = 100;
+const ESTIMATED_ROW_HEIGHT = 58;
+const DRAG_TYPE = 'application/x-favorite-skin';
+const SORTS: FavoriteSort[] = ['manual', 'champion', 'price', 'rarity', 'priority'];
+
+interface FavoriteRow {
+    favorite: FavoriteSkin;
+    /** The same skin with names in the current language, for display. */
+    localized: FavoriteSkin;
+    info?: SkinInfo;
+    previousPrice?: number;
+    targetPrice?: number;
+}
+
+const FavoriteListItem = React.memo<{
+    row: FavoriteRow;
+    /** Position in the list's own order. */
+    index: number;
+    /** Only set in manual order, when rows can be dragged or moved with Alt+Up/Down. */
+    onMove?: (skinId: string, toIndex: number) => void;
+    /** Set by the panel to the row that was just moved from the keyboard, so it can take focus back. */
+    focusAfterMove: React.MutableRefObject<string | null>;
+    onEdit: (favorite: FavoriteSkin) => void;
+    onHover: (favorite: FavoriteSkin | null) => void;
+    onSetTarget: (favorite: FavoriteSkin) => void;
+    onMarkOwned: (favorite: FavoriteSkin) => void;
+    onRemove: (favorite: FavoriteSkin) => void;
+    compared: boolean;
+    /** False once the comparison is full and this skin isn't in it. */
+    canCompare: boolean;
+    onToggleCompare: (skinId: string) => void;
+}>(({ row, index, onMove, focusAfterMove, onEdit, onHover, onSetTarget, onMarkOwned, onRemove, compared, canCompare, onToggleCompare }) => {
+    const { t } = useI18n();
+    const { favorite, localized } = row;
+
+    // Moving a focused element in the DOM blurs it, so the moved row takes focus back once it
+    // renders. `index` is a dependency so the ref is re-attached after every move.
+    const restoreFocus = useCallback((el: HTMLLIElement | null) => {
+        if (el && focusAfterMove.current === favorite.id) {
+            focusAfterMove.current = null;
+            el.focus();
+        }
+    }, [focusAfterMove, favorite.id, index]);
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLLIElement>) => {
+        if (!onMove || !e.altKey || e.target !== e.currentTarget) return;
+        if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+        e.preventDefault();
+        focusAfterMove.current = favorite.id;
+        onMove(favorite.id, index + (e.key === 'ArrowUp' ? -1 : 1));
+    };
+
+    return (
+        <li
+            ref={restoreFocus}
+            data-virtual-item
+            onMouseEnter={() => onHover(favorite)}
+            onMouseLeave={() => onHover(null)}
+            tabIndex={onMove ? 0 : undefined}
+            draggable={!!onMove}
+            title={onMove ? t('favorites.reorderHint') : undefined}
+            onKeyDown={handleKeyDown}
+            onDragStart={onMove ? (e) => {
+                e.dataTransfer.setData(DRAG_TYPE, favorite.id);
+                e.dataTransfer.effectAllowed = 'move';
+            } : undefined}
+            onDragOver={onMove ? (e) => {
+                if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+                e.preventDefault();
+                e.dataTransfer.dropEffect = 'move';
+            } : undefined}
+            onDrop={onMove ? (e) => {
+                const skinId = e.dataTransfer.getData(DRAG_TYPE);
+                if (!skinId) return;
+                e.preventDefault();
+                onMove(skinId, index);
+            } : undefined}
+        >
+            <FavoriteSkinSummary
+                favorite={localized}
+                info={row.info}
+                previousPrice={row.previousPrice}
+                targetPrice={row.targetPrice}
+            />
+            <button
+                style={{ ...styles.removeFavoriteButton, marginLeft: 'auto', marginRight: '6px' }}
+                className="remove-favorite-button"
+                onClick={() => onEdit(localized)}
+                title={t('favorites.edit')}
+            >
+                <i className="fas fa-tag" style={{ fontSize: '0.7em' }}></i>
+            </button>
+            <button
+                style={{ ...styles.removeFavoriteButton, marginRight: '6px' }}
+                className="remove-favorite-button"
+                onClick={() => onSetTarget(localized)}
+                title={t('price.target')}
+            >
+                <i className="fas fa-bullseye" style={{ fontSize: '0.7em' }}></i>
+            </button>
+            <button
+                style={{ ...styles.removeFavoriteButton, marginRight: '6px', ...(compared ? { opacity: 1, color: '#f0c040', borderColor: '#f0c040' } : {}) }}
+                className="remove-favorite-button"
+                onClick={() => onToggleCompare(favorite.id)}
+                disabled={!canCompare}
+                title={compared ? t('compare.remove') : t('compare.add')}
+                aria-pressed={compared}
+            >
+                <i className="fas fa-columns" style={{ fontSize: '0.7em' }}></i>
+            </button>
+            <button
+                style={{ ...styles.removeFavoriteButton, marginRight: '6px' }}
+                className="remove-favorite-button"
+                onClick={() => onMarkOwned(favorite)}
+                title={t('favorites.markOwned')}
+            >
+                <i className="fas fa-check" style={{ fontSize: '0.7em' }}></i>
+            </button>
+            <button
+                style={styles.removeFavoriteButton}
+                className="remove-favorite-button"
+                onClick={() => onRemove(favorite)}
+                title={t('lists.removeSkin')}
+                aria-label={t('lists.removeSkin')}
+            >
+                &times;
+            </button>
+        </li>
+    );
+});
+
+// --- Favorites Panel Component ---
+export const FavoritesPanel: React.FC<{
+    wishlists: WishlistsApi;
+    listTotals: Map<string, number>;
+    skinInfo: Map<number, SkinInfo>;
+    championDetailsCache: Map<string, ChampionFull>;
+    skinIndex: Map<string, IndexedSkin>;
+    detailsLoaded: boolean;
+    /** Prices from the last snapshot taken on an earlier day, to flag changes since then. */
+    previousPrices: Map<number, number> | null;
+    priceTargets: Map<string, number>;
+    onSetTarget: (skinId: string, price: number | null) => void;
+    onHover: (favorite: FavoriteSkin | null) => void;
+    onMarkOwned: (favorite: FavoriteSkin) => void;
+    compareIds: string[];
+    onToggleCompare: (skinId: string) => void;
+}> = ({ wishlists, listTotals, skinInfo, championDetailsCache, skinIndex, detailsLoaded, previousPrices, priceTargets, onSetTarget, onHover, onMarkOwned, compareIds, onToggleCompare }) => {
+    const { lists, activeList, setActiveList, createList, renameList, deleteList, toggleSkin, addSkins, moveSkin, annotateSkin } = wishlists;
+    const favorites = activeList.skins;
+    const fullTotalRp = totalFullRpFor(favorites, skinInfo);
+    const currencyTotals = useMemo(() => totalsByCurrency(favorites, skinInfo), [favorites, skinInfo]);
+    const [importResult, setImportResult] = useState<FavoritesImportResult | null>(null);
+    const [shareCopied, setShareCopied] = useState(false);
+    const [view, setView] = useState<FavoriteView>(DEFAULT_FAVORITE_VIEW);
+    const [showToolbar, setShowToolbar] = useState(false);
+    const [grouping, setGrouping] = useState<SubtotalGrouping>('none');
+    const [editing, setEditing] = useState<FavoriteSkin | null>(null);
+    const [planningBudget, setPlanningBudget] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const focusAfterMove = useRef<string | null>(null);
+    const { t, formatRp, formatCost, describeError } = useI18n();
+    countRender('FavoritesPanel');
+
+    // Alerts cover every list, not just the one on screen
+    const reachedTargets = useMemo(() => {
+        const reached = new Map<string, FavoriteSkin>();
+        for (const list of lists) {
+            for (const fav of list.skins) {
+                if (isTargetReached(skinInfo.get(parseInt(fav.id)), priceTargets.get(fav.id))) reached.set(fav.id, fav);
+            }
+        }
+        return Array.from(reached.values());
+    }, [lists, skinInfo, priceTargets]);
+
+    const handleSetTarget = useCallback((favorite: FavoriteSkin) => {
+        const input = window.prompt(t('price.setTarget', { name: favorite.name }), String(priceTargets.get(favorite.id) ?? ''));
+        if (input === null) return;
+        const price = parseInt(input.replace(/\D/g, ''));
+        onSetTarget(favorite.id, Number.isFinite(price) && price > 0 ? price : null);
+    }, [t, priceTargets, onSetTarget]);
+
+    const handleRemove = useCallback((favorite: FavoriteSkin) => {
+        toggleSkin(activeList.id, favorite, { id: favorite.championId, name: favorite.championName }, favorite.parentSkinId);
+    }, [toggleSkin, activeList.id]);
+
+    const manualOrder = isManualOrder(view);
+    const knownTags = useMemo(() => collectTags(favorites), [favorites]);
+    const positions = useMemo(() => new Map(favorites.map((fav, i) => [fav.id, i])), [favorites]);
+    const subtotals = useMemo(
+        () => grouping === 'none' ? [] : subtotalsBy(favorites, skinInfo, grouping),
+        [favorites, skinInfo, grouping]
+    );
+
+    // Rows only change when their own data does, so the memoized items skip most re-renders.
+    // Names are matched in the current language, so the filter runs on the localized favorites.
+    const favoriteRows = useMemo(() => {
+        const localized = new Map<string, FavoriteSkin>(favorites.map(fav => [fav.id, localizeFavorite(fav, skinIndex)]));
+        return organizeFavorites(Array.from(localized.values()), skinInfo, view).map(({ id }) => {
+            const fav = favorites[positions.get(id)!];
+            return {
+                favorite: fav,
+                localized: localized.get(id)!,
+                info: skinInfo.get(parseInt(id)),
+                previousPrice: previousPrices?.get(parseInt(id)),
+                targetPrice: priceTargets.get(id),
+            };
+        });
+    }, [favorites, positions, skinIndex, skinInfo, view, previousPrices, priceTargets]);
+
+    const localizedFavorites = useMemo(() => favorites.map(fav => localizeFavorite(fav, skinIndex)), [favorites, skinIndex]);
+
+    const handleMove = useCallback((skinId: string, toIndex: number) => {
+        moveSkin(activeList.id, skinId, toIndex);
+    }, [moveSkin, activeList.id]);
+
+    const handleSaveNotes = useCallback((notes: Pick<FavoriteSkin, 'priority' | 'note' | 'tags'>) => {
+        if (editing) annotateSkin(activeList.id, editing.id, notes);
+        setEditing(null);
+    }, [editing, annotateSkin, activeList.id]);
+
+    const updateView = useCallback((changes: Partial<FavoriteView>) => setView(current => ({ ...current, ...changes })), []);
+
+    const listWindow = useVirtualGrid(favoriteRows.length, {
+        estimatedRowHeight: ESTIMATED_ROW_HEIGHT,
+        enabled: favoriteRows.length > VIRTUALIZE_AFTER,
+    });
+
+    const handleCreateList = useCallback(() => {
+        const name = window.prompt(t('lists.newPrompt'))?.trim();
+        if (name) createList(name);
+    }, [t, createList]);
+
+    const handleRenameList = useCallback(() => {
+        const name = window.prompt(t('lists.renamePrompt'), activeList.name)?.trim();
+        if (name) renameList(activeList.id, name);
+    }, [t, activeList, renameList]);
+
+    const handleDeleteList = useCallback(() => {
+        if (window.confirm(t('lists.deleteConfirm', { name: activeList.name }))) deleteList(activeList.id);
+    }, [t, activeList, deleteList]);
+
+    const handleExport = useCallback((format: 'json' | 'csv') => {
+        const baseName = activeList.name.replace(/[^\w-]+/g, '_') || 'favorites';
+        if (format === 'json') {
+            downloadTextFile(`${baseName}.json`, exportFavoritesJson(activeList.name, favorites, skinInfo), 'application/json');
+        } else {
+            downloadTextFile(`${baseName}.csv`, exportFavoritesCsv(favorites, skinInfo), 'text/csv');
+        }
+    }, [activeList, favorites, skinInfo]);
+
+    const handleImportFile = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow re-selecting the same file
+        if (!file) return;
+        file.text()
+            .then(text => setImportResult(parseFavoritesImport(text, championDetailsCache, skinInfo)))
+            .catch(error => {
+                if (!(error instanceof FavoritesImportError)) console.error('Import failed:', error);
+                window.alert(t('lists.importFailed', { file: file.name, error: describeError(error) }));
+            });
+    }, [t, describeError, championDetailsCache, skinInfo]);
+
+    const handleImport = useCallback((mode: 'merge' | 'replace') => {
+        if (importResult) addSkins(activeList.id, importResult.skins, mode);
+        setImportResult(null);
+    }, [importResult, activeList, addSkins]);
+
+    const handleShare = useCallback(() => {
+        const url = buildShareUrl(activeList.name, favorites.map(fav => fav.id));
+        if (!navigator.clipboard) {
+            window.prompt(t('lists.sharePrompt'), url);
+            return;
+        }
+        navigator.clipboard.writeText(url)
+            .then(() => {
+                setShareCopied(true);
+                setTimeout(() => setShareCopied(false), 2000);
+            })
+            .catch(() => window.prompt(t('lists.sharePrompt'), url));
+    }, [t, activeList, favorites]);
+
+    return (
+        <>
+            <h2>{t('favorites.title')}</h2>
+            <div style={styles.wishlistControls}>
+                <select
+                    value={activeList.id}
+                    onChange={(e) => setActiveList(e.target.value)}
+                    style={{ ...styles.listSelect, flex: 1 }}
+                    title={t('lists.current')}
+                >
+                    {lists.map(list => (
+                        <option key={list.id} value={list.id}>
+                            {list.name} ({formatRp(listTotals.get(list.id) ?? 0)})
+                        </option>
+                    ))}
+                </select>
+                <button style={styles.iconButton} onClick={handleCreateList} title={t('lists.new')}>
+                    <i className="fas fa-plus"></i>
+                </button>
+                <button style={styles.iconButton} onClick={handleRenameList} title={t('lists.rename')}>
+                    <i className="fas fa-pen"></i>
+                </button>
+                <button style={styles.iconButton} onClick={handleDeleteList} title={t('lists.delete')} disabled={lists.length <= 1}>
+                    <i className="fas fa-trash-alt"></i>
+                </button>
+            </div>
+            <div style={styles.favoritesActions}>
+                <button style={styles.textButton} onClick={() => handleExport('json')} disabled={favorites.length === 0} title={t('lists.exportJson')}>
+                    <i className="fas fa-file-code"></i> JSON
+                </button>
+                <button style={styles.textButton} onClick={() => handleExport('csv')} disabled={favorites.length === 0} title={t('lists.exportCsv')}>
+                    <i className="fas fa-file-csv"></i> CSV
+                </button>
+                <button
+                    style={styles.textButton}
+                    onClick={() => importInputRef.current?.click()}
+                    disabled={!detailsLoaded}
+                    title={t(detailsLoaded ? 'lists.importHint' : 'app.needsAllData')}
+                >
+                    <i className="fas fa-file-import"></i> {t('lists.import')}
+                </button>
+                <input ref={importInputRef} type="file" accept=".json,.csv,application/json,text/csv" onChange={handleImportFile} hidden />
+                <button style={styles.textButton} onClick={handleShare} disabled={favorites.length === 0} title={t('lists.shareHint')}>
+                    <i className="fas fa-share-alt"></i> {t(shareCopied ? 'lists.copied' : 'lists.share')}
+                </button>
+                <button style={styles.textButton} onClick={() => setPlanningBudget(true)} disabled={favorites.length === 0} title={t('budget.open')}>
+                    <i className="fas fa-piggy-bank"></i>
+                </button>
+                <button
+                    style={{ ...styles.textButton, ...(showToolbar || !manualOrder ? { borderColor: '#f0c040' } : {}) }}
+                    onClick={() => setShowToolbar(shown => !shown)}
+                    aria-expanded={showToolbar}
+                    title={t('favorites.sort')}
+                >
+                    <i className="fas fa-filter"></i>
+                </button>
+            </div>
+            {showToolbar && (
+                <div style={styles.favoritesToolbar}>
+                    <input
+                        type="search"
+                        value={view.query}
+                        onChange={(e) => updateView({ query: e.target.value })}
+                        placeholder={t('favorites.filter')}
+                        aria-label={t('favorites.filter')}
+                        style={{ ...styles.searchInput, flexBasis: '100%' }}
+                    />
+                    <select
+                        value={view.sort}
+                        onChange={(e) => updateView({ sort: SORTS.find(sort => sort === e.target.value) ?? 'manual' })}
+                        style={styles.listSelect}
+                        aria-label={t('favorites.sort')}
+                    >
+                        {SORTS.map(sort => <option key={sort} value={sort}>{t(`sort.${sort}`)}</option>)}
+                    </select>
+                    <select
+                        value={view.priority}
+                        onChange={(e) => updateView({ priority: isFavoritePriority(e.target.value) ? e.target.value : 'any' })}
+                        style={styles.listSelect}
+                        aria-label={t('notes.priority')}
+                    >
+                        <option value="any">{t('favorites.anyPriority')}</option>
+                        {PRIORITIES.map(priority => <option key={priority} value={priority}>{t(`priority.${priority}`)}</option>)}
+                    </select>
+                    <select
+                        value={view.rarity}
+                        onChange={(e) => updateView({ rarity: parseFavoriteRarity(e.target.value) })}
+                        style={styles.listSelect}
+                        aria-label={t('sort.rarity')}
+                    >
+                        <option value="any">{t('favorites.anyRarity')}</option>
+                        {SKIN_RARITIES.map(rarity => <option key={rarity} value={rarity}>{t(`rarity.${rarity}`)}</option>)}
+                    </select>
+                    {knownTags.length > 0 && (
+                        <select
+                            value={view.tag ?? ''}
+                            onChange={(e) => updateView({ tag: e.target.value || null })}
+                            style={styles.listSelect}
+                            aria-label={t('notes.tags')}
+                        >
+                            <option value="">{t('favorites.anyTag')}</option>
+                            {knownTags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+                        </select>
+                    )}
+                    <input
+                        type="number"
+                        min={0}
+                        step={10}
+                        value={view.maxPrice ?? ''}
+                        onChange={(e) => {
+                            const price = parseInt(e.target.value);
+                            updateView({ maxPrice: Number.isFinite(price) && price >= 0 ? price : null });
+                        }}
+                        placeholder={t('favorites.maxPrice')}
+                        aria-label={t('favorites.maxPrice')}
+                        style={{ ...styles.listSelect, width: '90px' }}
+                    />
+                    <select
+                        value={grouping}
+                        onChange={(e) => setGrouping(e.target.value === 'tag' || e.target.value === 'priority' ? e.target.value : 'none')}
+                        style={styles.listSelect}
+                        aria-label={t('favorites.subtotals')}
+                    >
+                        <option value="none">{t('subtotal.none')}</option>
+                        <option value="tag">{t('subtotal.tag')}</option>
+                        <option value="priority">{t('subtotal.priority')}</option>
+                    </select>
+                </div>
+            )}
+            {reachedTargets.length > 0 && (
+                <div style={styles.priceAlertBanner} role="status">
+                    <i className="fas fa-bullseye"></i> {t('favorites.targetReached')}{' '}
+                    {reachedTargets.map(fav => {
+                        const localized = localizeFavorite(fav, skinIndex);
+                        return localized.name === 'default' ? localized.championName : localized.name;
+                    }).join(', ')}
+                </div>
+            )}
+            <div ref={listWindow.containerRef} style={styles.favoritesList} className="favorites-list">
+                {favoriteRows.length > 0 ? (
+                    <ul style={{ paddingTop: listWindow.paddingTop, paddingBottom: listWindow.paddingBottom }}>
+                        {favoriteRows.slice(listWindow.startIndex, listWindow.endIndex).map(row => (
+                            <FavoriteListItem
+                                key={row.favorite.id}
+                                row={row}
+                                index={positions.get(row.favorite.id) ?? 0}
+                                onMove={manualOrder ? handleMove : undefined}
+                                focusAfterMove={focusAfterMove}
+                                onEdit={setEditing}
+                                onHover={onHover}
+                                onSetTarget={handleSetTarget}
+                                onMarkOwned={onMarkOwned}
+                                onRemove={handleRemove}
+                                compared={compareIds.includes(row.favorite.id)}
+                                canCompare={compareIds.includes(row.favorite.id) || compareIds.length < MAX_COMPARED_SKINS}
+                                onToggleCompare={onToggleCompare}
+                            />
+                        ))}
+                    </ul>
+                ) : (
+                    <p style={{textAlign: 'center', opacity: 0.7}}>{t(favorites.length > 0 ? 'favorites.noMatches' : 'favorites.empty')}</p>
+                )}
+            </div>
+            {subtotals.length > 0 && (
+                <div style={{ backgroundColor: '#0a101b', borderTop: '2px solid #242a30', paddingTop: '8px' }} aria-label={t('favorites.subtotals')}>
+                    {subtotals.map(({ key, total, count }) => (
+                        <div key={key ?? ''} style={styles.subtotalRow}>
+                            <span>
+                                {key === null
+                                    ? t(grouping === 'tag' ? 'favorites.untagged' : 'favorites.noPriority')
+                                    : grouping === 'priority' && isFavoritePriority(key) ? t(`priority.${key}`) : key}
+                                {' '}<small style={{ opacity: 0.6 }}>({count})</small>
+                            </span>
+                            <span>{formatRp(total)}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <div style={styles.totalRpContainer}>
+                <strong>{t('favorites.totalCost')}</strong>
+                <span style={{ textAlign: 'right' }}>
+                    {currencyTotals.length === 0 && formatRp(0)}
+                    {currencyTotals.map(total => (
+                        <span key={total.currency} style={{ display: 'block' }}>
+                            {formatCost(total)}
+                            {total.currency === 'rp' && fullTotalRp > total.amount && (
+                                <small style={{ opacity: 0.6, marginLeft: '6px' }}>({t('favorites.fullPriceTotal', { total: formatRp(fullTotalRp) })})</small>
+                            )}
+                        </span>
+                    ))}
+                </span>
+            </div>
+
+            {importResult && (
+                <ImportDialog
+                    result={importResult}
+                    listName={activeList.name}
+                    onImport={handleImport}
+                    onCancel={() => setImportResult(null)}
+                />
+            )}
+            {planningBudget && (
+                <BudgetPlannerDialog
+                    favorites={localizedFavorites}
+                    skinInfo={skinInfo}
+                    onClose={() => setPlanningBudget(false)}
+                />
+            )}
+            {editing && (
+                <FavoriteNotesDialog
+                    favorite={editing}
+                    knownTags={knownTags}
+                    onSave={handleSaveNotes}
+                    onCancel={() => setEditing(null)}
+                />
+            )}
+        </>
+    );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import type { FavoritesImportResult } from '../services/favoritesTransfer';
+import { useI18n } from '../hooks/useLocale';
+import { styles } from '../styles';
+
+// --- Import Dialog Component ---
+export const ImportDialog: React.FC<{
+    result: FavoritesImportResult;
+    listName: string;
+    onImport: (mode: 'merge' | 'replace') => void;
+    onCancel: () => void;
+}> = ({ result, listName, onImport, onCancel }) => {
+    const { skins, unknown } = result;
+    const { t, formatNumber } = useI18n();
+
+    return (
+        <div style={styles.modalOverlay} onClick={onCancel}>
+            <div style={{ ...styles.modalContent, ...styles.dialogContent }} onClick={(e) => e.stopPropagation()}>
+                <button style={styles.closeButton} onClick={onCancel} aria-label={t('app.close')}>&times;</button>
+                <h3>{t('import.title', { name: listName })}</h3>
+                <p>{t('import.found', { count: formatNumber(skins.length) })}</p>
+                {unknown.length > 0 && (
+                    <div style={styles.dialogWarning}>
+                        <p>{t('import.unknown', { count: formatNumber(unknown.length) })}</p>
+                        <ul style={styles.dialogList}>
+                            {unknown.map(id => <li key={id}>{id}</li>)}
+                        </ul>
+                    </div>
+                )}
+                <div style={styles.dialogActions}>
+                    <button style={styles.textButton} onClick={onCancel}>{t('import.cancel')}</button>
+                    <button style={styles.textButton} onClick={() => onImport('replace')} disabled={skins.length === 0}>{t('import.replace')}</button>
+                    <button style={styles.textButton} onClick={() => onImport('merge')} disabled={skins.length === 0}>{t('import.merge')}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
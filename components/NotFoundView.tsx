@@ -0,0 +1,15 @@
+import React from 'react';
+import { useI18n } from '../hooks/useLocale';
+import { styles } from '../styles';
+
+// --- Not Found View Component ---
+export const NotFoundView: React.FC<{ onBack: () => void }> = ({ onBack }) => {
+    const { t } = useI18n();
+    return (
+        <div style={{ ...styles.scrollArea, textAlign: 'center', padding: '40px 20px' }}>
+            <h3>{t('notFound.title')}</h3>
+            <p style={{ opacity: 0.7 }}>{t('notFound.body')}</p>
+            <button style={styles.textButton} onClick={onBack}>{t('notFound.back')}</button>
+        </div>
+    );
+};
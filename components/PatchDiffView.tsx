@@ -0,0 +1,102 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { ChampionFull } from '../types';
+import { LOADING_SKIN_IMAGE_URL, isAbortError } from '../services/dataClient';
+import { CatalogDiff, catalogIds, diffCatalogs, loadVersionManifest } from '../services/patchDiff';
+import { useI18n } from '../hooks/useLocale';
+import { styles } from '../styles';
+
+// --- Patch Diff View Component ---
+export const PatchDiffView: React.FC<{
+    versions: string[];
+    initialFrom: string;
+    initialTo: string;
+    favoriteChampionIds: Set<string>;
+    onSelectSkin: (champion: ChampionFull, skinNum: number) => void;
+}> = ({ versions, initialFrom, initialTo, favoriteChampionIds, onSelectSkin }) => {
+    const [from, setFrom] = useState(initialFrom);
+    const [to, setTo] = useState(initialTo);
+    const [diff, setDiff] = useState<CatalogDiff | null>(null);
+    const [error, setError] = useState<unknown>(null);
+    const [attempt, setAttempt] = useState(0);
+    const { locale, t, formatNumber, describeError } = useI18n();
+
+    useEffect(() => {
+        const controller = new AbortController();
+        setDiff(null);
+        setError(null);
+        Promise.all([
+            loadVersionManifest(from, locale, { signal: controller.signal }),
+            loadVersionManifest(to, locale, { signal: controller.signal }),
+        ])
+            .then(([fromChampions, toChampions]) => {
+                if (!controller.signal.aborted) setDiff(diffCatalogs(catalogIds(fromChampions), toChampions));
+            })
+            .catch(err => {
+                if (!isAbortError(err)) setError(err);
+            });
+        return () => controller.abort();
+    }, [from, to, locale, attempt]);
+
+    // Skins for champions already on a wishlist come first.
+    const newSkins = useMemo(() => {
+        if (!diff) return [];
+        return [...diff.newSkins].sort((a, b) =>
+            Number(favoriteChampionIds.has(b.champion.id)) - Number(favoriteChampionIds.has(a.champion.id)));
+    }, [diff, favoriteChampionIds]);
+
+    return (
+        <div style={styles.scrollArea}>
+            <div style={styles.filterBar}>
+                <label style={styles.filterLabel}>
+                    {t('patches.from')}
+                    <select value={from} onChange={(e) => setFrom(e.target.value)} style={styles.listSelect}>
+                        {versions.map(version => <option key={version} value={version}>{version}</option>)}
+                    </select>
+                </label>
+                <label style={styles.filterLabel}>
+                    {t('patches.to')}
+                    <select value={to} onChange={(e) => setTo(e.target.value)} style={styles.listSelect}>
+                        {versions.map(version => <option key={version} value={version}>{version}</option>)}
+                    </select>
+                </label>
+            </div>
+            {error != null ? (
+                <div style={{ textAlign: 'center', padding: '20px' }}>
+                    <p>{t('patches.loadError', { error: describeError(error) })}</p>
+                    <button style={styles.textButton} onClick={() => setAttempt(prev => prev + 1)}>{t('app.retry')}</button>
+                </div>
+            ) : !diff ? (
+                <p style={{ textAlign: 'center', opacity: 0.7 }}>{t('patches.comparing', { from, to })}</p>
+            ) : (
+                <div style={{ padding: '0 20px 20px' }}>
+                    <h3>{t('patches.newChampions', { count: formatNumber(diff.newChampions.length) })}</h3>
+                    {diff.newChampions.length === 0
+                        ? <p style={{ opacity: 0.7 }}>{t('patches.noChampions')}</p>
+                        : <p>{diff.newChampions.map(champion => champion.name).join(', ')}</p>}
+                    <h3>{t('patches.newSkins', { count: formatNumber(newSkins.length) })}</h3>
+                    {newSkins.length === 0 && <p style={{ opacity: 0.7 }}>{t('patches.noSkins')}</p>}
+                    <div style={{ ...styles.skinResultsGrid, padding: 0 }}>
+                        {newSkins.map(({ champion, skin }) => {
+                            const onWishlist = favoriteChampionIds.has(champion.id);
+                            return (
+                                <button key={skin.id} type="button" style={styles.skinResultCard} className="champion-card" onClick={() => onSelectSkin(champion, skin.num)}>
+                                    <img
+                                        src={LOADING_SKIN_IMAGE_URL(champion.id, skin.num)}
+                                        alt=""
+                                        loading="lazy"
+                                        style={{ ...styles.skinResultImage, ...(onWishlist ? styles.highlightedSkinImage : {}) }}
+                                    />
+                                    <span style={styles.championName}>
+                                        {onWishlist && <i className="fas fa-star" style={{ color: '#f0c040', marginRight: '4px' }} title={t('patches.onWishlist')}></i>}
+                                        {skin.name}
+                                    </span>
+                                    <small style={{ opacity: 0.6 }}>{champion.name}</small>
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
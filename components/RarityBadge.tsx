@@ -0,0 +1,34 @@
+import React from 'react';
+import type { SkinRarity } from '../types';
+import { useI18n } from '../hooks/useLocale';
+
+const RARITY_COLORS: Record<SkinRarity, string> = {
+    none: '#50617b',
+    epic: '#8b48d2',
+    legendary: '#e69427',
+    ultimate: '#f28a30',
+    mythic: '#c46cde',
+    transcendent: '#5fb0e8',
+    exalted: '#e0c060',
+};
+
+// --- Rarity Badge Component ---
+export const RarityBadge: React.FC<{ rarity: SkinRarity }> = ({ rarity }) => {
+    const { t } = useI18n();
+    if (rarity === 'none') return null;
+
+    const style: React.CSSProperties = {
+        backgroundColor: RARITY_COLORS[rarity],
+        color: 'white',
+        padding: '2px 8px',
+        borderRadius: '10px',
+        fontSize: '0.75em',
+        fontWeight: 'bold',
+        marginLeft: '8px',
+        textTransform: 'uppercase',
+        display: 'inline-block',
+        verticalAlign: 'middle',
+    };
+
+    return <span style={style}>{t(`rarity.${rarity}`)}</span>;
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import type { FavoriteSkin, SkinInfo } from '../types';
+import { FavoriteSkinSummary } from './FavoriteSkinSummary';
+import { totalRpFor } from '../services/pricing';
+import { useI18n } from '../hooks/useLocale';
+import { styles } from '../styles';
+
+// --- Shared List Panel Component ---
+// Read-only view of a wishlist opened from a share link.
+export const SharedListPanel: React.FC<{
+    name: string;
+    skins: FavoriteSkin[];
+    unresolved: string[];
+    error: unknown;
+    resolving: boolean;
+    skinInfo: Map<number, SkinInfo>;
+    onHover: (favorite: FavoriteSkin | null) => void;
+    onCopy: () => void;
+    onClose: () => void;
+}> = ({ name, skins, unresolved, error, resolving, skinInfo, onHover, onCopy, onClose }) => {
+    const totalRp = totalRpFor(skins, skinInfo);
+    const { t, formatNumber, formatRp, describeError } = useI18n();
+
+    return (
+        <>
+            <h2>{t('shared.title', { name: name || t('app.sharedList') })}</h2>
+            <div style={styles.favoritesActions}>
+                <button style={styles.textButton} onClick={onCopy} disabled={resolving || skins.length === 0} title={t('shared.copyHint')}>
+                    <i className="fas fa-copy"></i> {t('shared.copy')}
+                </button>
+                <button style={styles.textButton} onClick={onClose} title={t('shared.closeHint')}>
+                    <i className="fas fa-times"></i> {t('app.close')}
+                </button>
+            </div>
+            <div style={styles.favoritesList} className="favorites-list">
+                {error != null ? (
+                    <p style={{ textAlign: 'center', opacity: 0.7, padding: '0 15px' }}>{t('shared.error', { error: describeError(error) })}</p>
+                ) : resolving ? (
+                    <p style={{ textAlign: 'center', opacity: 0.7 }}>{t('shared.loading')}</p>
+                ) : (
+                    <>
+                        <ul>
+                            {skins.map(fav => (
+                                <li key={fav.id} onMouseEnter={() => onHover(fav)} onMouseLeave={() => onHover(null)}>
+                                    <FavoriteSkinSummary favorite={fav} info={skinInfo.get(parseInt(fav.id))} />
+                                </li>
+                            ))}
+                        </ul>
+                        {unresolved.length > 0 && (
+                            <div style={{ ...styles.dialogWarning, margin: '10px 15px' }}>
+                                <p style={{ marginTop: 0 }}>{t('shared.unresolved', { count: formatNumber(unresolved.length) })}</p>
+                                <ul style={styles.dialogList}>
+                                    {unresolved.map(id => <li key={id}>{id}</li>)}
+                                </ul>
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+            <div style={styles.totalRpContainer}>
+                <strong>{t('favorites.totalCost')}</strong>
+                <span>{formatRp(totalRp)}</span>
+            </div>
+        </>
+    );
+};
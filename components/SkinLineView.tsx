@@ -0,0 +1,120 @@
+import React, { useState, useMemo } from 'react';
+import type { ChampionFull, FavoriteSkin, SkinInfo, SkinLine } from '../types';
+import { LOADING_SKIN_IMAGE_URL } from '../services/dataClient';
+import { buildSkinLineEntries } from '../services/skinLines';
+import { RarityBadge } from './RarityBadge';
+import { useI18n } from '../hooks/useLocale';
+import { styles } from '../styles';
+
+// --- Skin Line View Component ---
+export const SkinLineView: React.FC<{
+    skinLines: SkinLine[] | null;
+    error: unknown;
+    onRetry: () => void;
+    championDetailsCache: Map<string, ChampionFull>;
+    skinInfo: Map<number, SkinInfo>;
+    favoriteIds: Set<string>;
+    ownedIds: Set<string>;
+    listName: string;
+    onAddSkins: (skins: FavoriteSkin[]) => void;
+    onSelect: (favorite: FavoriteSkin) => void;
+}> = ({ skinLines, error, onRetry, championDetailsCache, skinInfo, favoriteIds, ownedIds, listName, onAddSkins, onSelect }) => {
+    const [query, setQuery] = useState('');
+    const [expandedLineId, setExpandedLineId] = useState<number | null>(null);
+    const { t, formatNumber, formatRp, describeError } = useI18n();
+
+    const entries = useMemo(
+        () => skinLines ? buildSkinLineEntries(skinLines, championDetailsCache, skinInfo, favoriteIds, ownedIds) : [],
+        [skinLines, championDetailsCache, skinInfo, favoriteIds, ownedIds]
+    );
+    const visibleEntries = useMemo(
+        () => entries.filter(entry => entry.line.name.toLowerCase().includes(query.trim().toLowerCase())),
+        [entries, query]
+    );
+
+    if (error != null) {
+        return (
+            <div style={{ ...styles.scrollArea, textAlign: 'center', padding: '20px' }}>
+                <p>{t('lines.loadError', { error: describeError(error) })}</p>
+                <button style={styles.textButton} onClick={onRetry}>{t('app.retry')}</button>
+            </div>
+        );
+    }
+
+    if (!skinLines) {
+        return <p style={{ textAlign: 'center', opacity: 0.7 }}>{t('lines.loading')}</p>;
+    }
+
+    return (
+        <div style={styles.scrollArea}>
+            <div style={styles.filterBar}>
+                <input
+                    type="text"
+                    placeholder={t('lines.search')}
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    style={styles.searchInput}
+                />
+            </div>
+            <div style={{ padding: '10px 20px 20px' }}>
+                {visibleEntries.map(({ line, members, favoritedCount, ownedCount, missingCost }) => {
+                    const expanded = expandedLineId === line.id;
+                    const missing = members.filter(m => !m.favorited && !m.owned).map(m => m.favorite);
+                    return (
+                        <div key={line.id} style={styles.skinLineRow}>
+                            <div style={styles.skinLineHeader}>
+                                <button style={styles.skinLineToggle} onClick={() => setExpandedLineId(expanded ? null : line.id)}>
+                                    <i className={`fas fa-chevron-${expanded ? 'down' : 'right'}`} style={{ width: '16px' }}></i>
+                                    <strong>{line.name}</strong>
+                                </button>
+                                <small style={{ opacity: 0.7 }}>
+                                    {t('lines.favorited', { favorited: formatNumber(favoritedCount), total: formatNumber(members.length) })}
+                                    {ownedCount > 0 && `, ${t('lines.owned', { count: formatNumber(ownedCount) })}`}
+                                </small>
+                                {missingCost > 0 && (
+                                    <span style={{...styles.rpPrice, fontSize: '0.8em', padding: '2px 6px'}} title={t('lines.toCompleteHint')}>
+                                        {t('lines.toComplete', { amount: formatRp(missingCost) })}
+                                    </span>
+                                )}
+                                <button
+                                    style={styles.textButton}
+                                    onClick={() => onAddSkins(missing)}
+                                    disabled={missing.length === 0}
+                                    title={t('lists.addTo', { name: listName })}
+                                >
+                                    <i className="fas fa-heart"></i> {missing.length === members.length
+                                        ? t('lines.addAll')
+                                        : t('lines.addRemaining', { count: formatNumber(missing.length) })}
+                                </button>
+                            </div>
+                            {expanded && (
+                                <div style={{ ...styles.skinResultsGrid, gridTemplateColumns: 'repeat(auto-fill, minmax(110px, 1fr))', padding: '10px 0' }}>
+                                    {members.map(({ favorite, info, favorited, owned }) => (
+                                        <button key={favorite.id} type="button" style={styles.skinResultCard} className="champion-card" onClick={() => onSelect(favorite)}>
+                                            <img
+                                                src={LOADING_SKIN_IMAGE_URL(favorite.championId, favorite.num)}
+                                                alt=""
+                                                loading="lazy"
+                                                style={{ ...styles.skinResultImage, opacity: favorited || owned ? 1 : 0.6 }}
+                                            />
+                                            <span style={{ ...styles.championName, fontSize: '0.8em' }}>
+                                                {owned && <i className="fas fa-check-circle" style={{ color: '#3fbf7f', marginRight: '4px' }} title={t('app.owned')}></i>}
+                                                {favorited && <i className="fas fa-heart" style={{ color: 'red', marginRight: '4px' }}></i>}
+                                                {favorite.name}
+                                            </span>
+                                            <span style={{ marginTop: '4px' }}>
+                                                {info.price > 0 && <span style={{...styles.rpPrice, fontSize: '0.75em', padding: '2px 6px'}}>{formatRp(info.price)}</span>}
+                                                <RarityBadge rarity={info.rarity} />
+                                            </span>
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+                {visibleEntries.length === 0 && <p style={{ textAlign: 'center', opacity: 0.7 }}>{t('lines.none')}</p>}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import type { Champion, ChampionFull, SkinInfo, Wishlist } from '../types';
+import { imageLoader } from '../services/imageLoader';
+import { SkinModal } from './SkinModal';
+
+const CHAMPION: Champion = {
+    id: 'Ahri',
+    key: '103',
+    name: 'Ahri',
+    title: 'the Nine-Tailed Fox',
+    blurb: 'A fox.',
+    tags: ['Mage'],
+    info: { attack: 3, defense: 4, magic: 8, difficulty: 5 },
+};
+
+const DETAILS: ChampionFull = {
+    id: 'Ahri',
+    key: '103',
+    name: 'Ahri',
+    tags: ['Mage'],
+    skins: [
+        { id: '103000', num: 0, name: 'default', chromas: false },
+        { id: '103001', num: 1, name: 'Dynasty Ahri', chromas: false },
+        { id: '103002', num: 2, name: 'Midnight Ahri', chromas: false },
+    ],
+};
+
+const WISHLIST: Wishlist = { id: 'list', name: 'Wishlist', skins: [] };
+
+const PRICED: SkinInfo = { price: 1350, costs: [{ currency: 'rp', amount: 1350 }], rarity: 'epic', isBase: false, isLegacy: false, isLimited: false };
+
+/** Follows `onSkinChange` the way the route does, so the carousel can move. */
+const Harness: React.FC<{ onClose?: () => void, wishlists?: Wishlist[] }> = ({ onClose = () => {}, wishlists = [WISHLIST] }) => {
+    const [skinNum, setSkinNum] = useState(0);
+    return (
+        <SkinModal
+            champion={CHAMPION}
+            skinNum={skinNum}
+            onSkinChange={setSkinNum}
+            onClose={onClose}
+            wishlists={wishlists}
+            activeListId="list"
+            onToggleFavorite={() => {}}
+            owned={new Set()}
+            onToggleOwned={() => {}}
+            compareIds={[]}
+            onToggleCompare={() => {}}
+            championDetailsCache={new Map([[DETAILS.id, DETAILS]])}
+            skinInfo={new Map([[103000, PRICED]])}
+            onSetCostOverride={() => {}}
+            apiVersion="14.1.1"
+        />
+    );
+};
+
+const liveRegion = () => document.querySelector('[aria-live="polite"]')!;
+
+describe('SkinModal', () => {
+    it('is a labelled modal dialog that takes focus when it opens', () => {
+        render(<Harness />);
+        const dialog = screen.getByRole('dialog', { name: 'Ahri skins' });
+        expect(dialog.getAttribute('aria-modal')).toBe('true');
+        expect(document.activeElement).toBe(dialog);
+    });
+
+    it('shows the champion ratings in the header', () => {
+        render(<Harness />);
+        const ratings = screen.getByRole('list', { name: 'Ratings' });
+        const meters = Array.from(ratings.querySelectorAll('meter'));
+        expect(meters.map(meter => [meter.getAttribute('aria-label'), meter.value])).toEqual([
+            ['Attack', 3],
+            ['Defense', 4],
+            ['Magic', 8],
+            ['Difficulty', 5],
+        ]);
+    });
+
+    it('moves through the skins with the arrow keys, wrapping around', async () => {
+        const user = userEvent.setup();
+        render(<Harness />);
+        expect(screen.getByRole('heading', { level: 3 }).textContent).toBe('Ahri');
+
+        await user.keyboard('{ArrowRight}');
+        expect(screen.getByRole('heading', { level: 3 }).textContent).toBe('Dynasty Ahri');
+        await user.keyboard('{ArrowLeft}{ArrowLeft}');
+        expect(screen.getByRole('heading', { level: 3 }).textContent).toBe('Midnight Ahri');
+    });
+
+    it('leaves the arrow keys to the wishlist select while it has focus', async () => {
+        const user = userEvent.setup();
+        render(<Harness wishlists={[WISHLIST, { id: 'other', name: 'Other', skins: [] }]} />);
+        screen.getByRole('combobox', { name: 'Wishlist to add this skin to' }).focus();
+        await user.keyboard('{ArrowRight}');
+        expect(screen.getByRole('heading', { level: 3 }).textContent).toBe('Ahri');
+    });
+
+    it('leaves the arrow keys to the cost editor while it has focus', async () => {
+        const user = userEvent.setup();
+        render(<Harness />);
+        await user.click(screen.getByRole('button', { name: 'Correct the cost' }));
+        await user.click(screen.getByRole('spinbutton'));
+        await user.keyboard('{ArrowRight}');
+        expect(screen.getByRole('heading', { level: 3 }).textContent).toBe('Ahri');
+    });
+
+    it('cancels only the cost editor on Escape while it is open', async () => {
+        const user = userEvent.setup();
+        const onClose = vi.fn();
+        render(<Harness onClose={onClose} />);
+        await user.click(screen.getByRole('button', { name: 'Correct the cost' }));
+        await user.click(screen.getByRole('spinbutton'));
+
+        await user.keyboard('{Escape}');
+        expect(screen.queryByRole('form')).toBeNull();
+        expect(onClose).not.toHaveBeenCalled();
+        expect(document.activeElement).toBe(screen.getByRole('dialog'));
+
+        await user.keyboard('{Escape}');
+        expect(onClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('closes on Escape', async () => {
+        const user = userEvent.setup();
+        const onClose = vi.fn();
+        render(<Harness onClose={onClose} />);
+        await user.keyboard('{Escape}');
+        expect(onClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('announces the current skin in a live region', async () => {
+        const user = userEvent.setup();
+        render(<Harness />);
+        expect(liveRegion().getAttribute('aria-atomic')).toBe('true');
+        expect(liveRegion().textContent).toBe('Ahri, skin 1 of 3');
+
+        await user.click(screen.getByRole('button', { name: 'Next skin' }));
+        expect(liveRegion().textContent).toBe('Dynasty Ahri, skin 2 of 3');
+    });
+
+    it('keeps Tab and Shift+Tab inside the dialog', async () => {
+        const user = userEvent.setup();
+        render(<Harness />);
+        const dialog = screen.getByRole('dialog');
+        const focusable = Array.from(dialog.querySelectorAll<HTMLElement>('button:not([disabled]), select'));
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+
+        last.focus();
+        await user.tab();
+        expect(document.activeElement).toBe(first);
+        await user.tab({ shift: true });
+        expect(document.activeElement).toBe(last);
+    });
+
+    it('preloads again only when the skins to preload change', async () => {
+        const user = userEvent.setup();
+        const load = vi.spyOn(imageLoader, 'load').mockResolvedValue();
+        const { rerender } = render(<Harness />);
+        const preloaded = load.mock.calls.map(([url]) => url);
+        expect(preloaded).toHaveLength(3);
+
+        // A new skinInfo map with the same skins, as after a price update
+        rerender(<Harness />);
+        expect(load).toHaveBeenCalledTimes(3);
+
+        await user.keyboard('{ArrowRight}');
+        expect(load.mock.calls.length).toBeGreaterThan(3);
+        load.mockRestore();
+    });
+
+    it('hands focus back to the element that opened it once it closes', () => {
+        const opener = document.createElement('button');
+        document.body.appendChild(opener);
+        opener.focus();
+        const { unmount } = render(<Harness />);
+        expect(document.activeElement).not.toBe(opener);
+        unmount();
+        expect(document.activeElement).toBe(opener);
+        opener.remove();
+    });
+});
@@ -0,0 +1,367 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { Champion, ChampionFull, ChampionRatings, Skin, SkinCost, SkinInfo, Wishlist } from '../types';
+import { SKIN_IMAGE_URL, fetchChampionDetail, isAbortError } from '../services/dataClient';
+import { chromaAsSkin } from '../services/skinIndex';
+import { isOnSale } from '../services/pricing';
+import { ImageLoadError, imageLoader } from '../services/imageLoader';
+import { useI18n } from '../hooks/useLocale';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { MAX_COMPARED_SKINS } from '../hooks/useChampionRoute';
+import { RarityBadge } from './RarityBadge';
+import { CostTag } from './CostTag';
+import { CostEditor } from './CostEditor';
+import { styles } from '../styles';
+
+/** How many skins on each side of the current one to preload. */
+const PRELOAD_RADIUS = 3;
+
+const RATINGS: (keyof ChampionRatings)[] = ['attack', 'defense', 'magic', 'difficulty'];
+
+/** The current index first, then its neighbors alternating outwards, wrapping around. */
+const neighborOrder = (index: number, count: number, radius: number): number[] => {
+    const order = [index];
+    for (let offset = 1; offset <= radius; offset++) {
+        order.push((index + offset) % count, (index - offset + count) % count);
+    }
+    return Array.from(new Set(order));
+};
+
+const swatchBackground = (colors: string[]) => {
+    if (colors.length >= 2) return `linear-gradient(135deg, ${colors[0]} 50%, ${colors[1]} 50%)`;
+    return colors[0] ?? '#50617b';
+};
+
+// --- Skin Modal Component ---
+export const SkinModal: React.FC<{
+    champion: Champion;
+    /** The skin to show; the carousel reports moves through `onSkinChange` so the route can follow. */
+    skinNum: number;
+    onSkinChange: (skinNum: number) => void;
+    onClose: () => void;
+    wishlists: Wishlist[];
+    activeListId: string;
+    onToggleFavorite: (listId: string, skin: Skin, championInfo: { id: string, name: string }, parentSkinId?: string) => void;
+    owned: Set<string>;
+    onToggleOwned: (skinId: string) => void;
+    /** Skins picked for side-by-side comparison. */
+    compareIds: string[];
+    onToggleCompare: (skinId: string) => void;
+    championDetailsCache: Map<string, ChampionFull>;
+    skinInfo: Map<number, SkinInfo>;
+    /** Replaces a skin's loaded costs, or restores them when `costs` is null. */
+    onSetCostOverride: (skinId: string, costs: SkinCost[] | null) => void;
+    apiVersion: string;
+}> = ({ champion, skinNum, onSkinChange, onClose, wishlists, activeListId, onToggleFavorite, owned, onToggleOwned, compareIds, onToggleCompare, championDetailsCache, skinInfo, onSetCostOverride, apiVersion }) => {
+    const [championDetails, setChampionDetails] = useState<ChampionFull | null>(null);
+    const [currentSkinIndex, setCurrentSkinIndex] = useState(0);
+    const [targetListId, setTargetListId] = useState(activeListId);
+    const [selectedChromaId, setSelectedChromaId] = useState<number | null>(null);
+    const [splashStatus, setSplashStatus] = useState<Map<string, 'loaded' | 'error'>>(new Map());
+    const [detailsError, setDetailsError] = useState<unknown>(null);
+    const [detailsAttempt, setDetailsAttempt] = useState(0);
+    const [editingCostOf, setEditingCostOf] = useState<string | null>(null);
+    const { locale, t, formatNumber, formatRp, describeError } = useI18n();
+    const focusTrap = useFocusTrap<HTMLDivElement>();
+
+    useEffect(() => {
+        const details = championDetailsCache.get(champion.id);
+        if (details) {
+            setChampionDetails(details);
+            return;
+        }
+        // This case should be rare with pre-caching, but is a good fallback.
+        const controller = new AbortController();
+        setDetailsError(null);
+        fetchChampionDetail(apiVersion, champion.id, locale, { signal: controller.signal })
+            .then(setChampionDetails)
+            .catch(error => {
+                if (!isAbortError(error)) setDetailsError(error);
+            });
+        return () => controller.abort();
+    }, [champion.id, championDetailsCache, apiVersion, locale, detailsAttempt]);
+
+    useEffect(() => {
+        if (!championDetails) return;
+        const index = championDetails.skins.findIndex(skin => skin.num === skinNum);
+        if (index > -1) {
+            setCurrentSkinIndex(index);
+            setSelectedChromaId(null);
+        }
+    }, [championDetails, skinNum]);
+
+    // The cost editor belongs to the skin or chroma it was opened for
+    useEffect(() => setEditingCostOf(null), [currentSkinIndex, selectedChromaId]);
+
+    // The art on screen first, then the skins either side of it for a smoother carousel
+    const preloadUrls = useMemo(() => {
+        if (!championDetails) return [];
+        const { skins } = championDetails;
+        const current = skins[currentSkinIndex];
+        const chromaUrl = selectedChromaId === null
+            ? undefined
+            : skinInfo.get(parseInt(current.id))?.chromas?.find(chroma => chroma.id === selectedChromaId)?.imageUrl;
+        const urls = neighborOrder(currentSkinIndex, skins.length, PRELOAD_RADIUS).map(index => SKIN_IMAGE_URL(champion.id, skins[index].num));
+        if (chromaUrl) urls.unshift(chromaUrl);
+        return urls;
+    }, [champion.id, championDetails, currentSkinIndex, selectedChromaId, skinInfo]);
+    // skinInfo is replaced whenever a price changes, so compare the URLs rather than the array
+    const preloadKey = preloadUrls.join('\n');
+
+    useEffect(() => {
+        if (!preloadKey) return;
+        // All ahead of the favorites preload. Moving the carousel cancels whatever hasn't started
+        // and queues again from the new skin.
+        const controller = new AbortController();
+        for (const url of preloadKey.split('\n')) {
+            imageLoader.load(url, { signal: controller.signal, priority: true })
+                .then(() => setSplashStatus(prev => new Map(prev).set(url, 'loaded')))
+                .catch(error => {
+                    if (error instanceof ImageLoadError) setSplashStatus(prev => new Map(prev).set(url, 'error'));
+                });
+        }
+        return () => controller.abort();
+    }, [preloadKey]);
+
+    // Each move becomes a history entry; the effect above then moves the carousel to the new skin.
+    const showSkinAt = (index: number) => {
+        if (!championDetails) return;
+        const { skins } = championDetails;
+        onSkinChange(skins[(index + skins.length) % skins.length].num);
+    };
+
+    const handlePrev = () => showSkinAt(currentSkinIndex - 1);
+
+    const handleNext = () => showSkinAt(currentSkinIndex + 1);
+
+    // The editor's fields take focus with them when it closes, so it goes back to the dialog
+    const closeCostEditor = () => {
+        setEditingCostOf(null);
+        focusTrap.ref.current?.focus();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        focusTrap.onKeyDown(e);
+        if (e.key === 'Escape') {
+            e.stopPropagation();
+            // With the cost editor open, Escape only cancels the edit
+            if (editingCostOf !== null) closeCostEditor();
+            else onClose();
+            return;
+        }
+        // Arrow keys still belong to form fields, such as the wishlist select and the cost editor, while they have focus
+        const target = e.target as HTMLElement;
+        if (!championDetails || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName) || target.closest('form')) return;
+        if (e.key === 'ArrowLeft') handlePrev();
+        if (e.key === 'ArrowRight') handleNext();
+    };
+
+    const dialogLabel = t('modal.skins', { name: champion.name });
+    const ratings = champion.info;
+
+    // The dialog element stays mounted across loading, error and loaded states so focus isn't lost
+    const renderDialog = (content: React.ReactNode, label: string) => (
+        <div style={styles.modalOverlay} onClick={onClose}>
+            <div
+                ref={focusTrap.ref}
+                role="dialog"
+                aria-modal="true"
+                aria-label={label}
+                tabIndex={-1}
+                style={styles.modalContent}
+                onClick={(e) => e.stopPropagation()}
+                onKeyDown={handleKeyDown}
+            >
+                <button style={styles.closeButton} onClick={onClose} aria-label={t('app.close')}>&times;</button>
+                <header style={styles.championHeader}>
+                    <h2 style={styles.championHeaderTitle}>
+                        {champion.name}
+                        {champion.title && <small style={{ fontWeight: 'normal', opacity: 0.7 }}>, {champion.title}</small>}
+                    </h2>
+                    {champion.blurb && <p style={styles.championBlurb}>{champion.blurb}</p>}
+                    {ratings && (
+                        <ul style={styles.championRatings} aria-label={t('rating.label')}>
+                            {RATINGS.map(rating => (
+                                <li key={rating} style={styles.championRating}>
+                                    {t(`rating.${rating}`)}
+                                    <meter
+                                        min={0}
+                                        max={10}
+                                        value={ratings[rating]}
+                                        style={styles.championRatingMeter}
+                                        title={t('rating.value', { value: formatNumber(ratings[rating]) })}
+                                        aria-label={t(`rating.${rating}`)}
+                                    />
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </header>
+                {content}
+            </div>
+        </div>
+    );
+
+    if (detailsError != null) {
+        return renderDialog(
+            <>
+                <p>{t('modal.loadError', { name: champion.name })}</p>
+                <p style={{ opacity: 0.7 }}>{describeError(detailsError)}</p>
+                <button style={styles.textButton} onClick={() => setDetailsAttempt(prev => prev + 1)}>{t('app.retry')}</button>
+            </>,
+            dialogLabel
+        );
+    }
+
+    if (!championDetails) {
+        return renderDialog(<p role="status">{t('modal.loading')}</p>, dialogLabel);
+    }
+
+    const currentSkin = championDetails.skins[currentSkinIndex];
+    const targetList = wishlists.find(list => list.id === targetListId) ?? wishlists[0];
+    const chromas = skinInfo.get(parseInt(currentSkin.id))?.chromas ?? [];
+    const selectedChroma = chromas.find(chroma => chroma.id === selectedChromaId) ?? null;
+    // With a chroma selected, pricing and the heart apply to the chroma rather than its skin.
+    const displayedSkin = selectedChroma ? chromaAsSkin(selectedChroma, currentSkin) : currentSkin;
+    const isFavorite = targetList.skins.some(fav => fav.id === displayedSkin.id);
+    const isOwned = owned.has(displayedSkin.id);
+    const isCompared = compareIds.includes(displayedSkin.id);
+    const compareFull = !isCompared && compareIds.length >= MAX_COMPARED_SKINS;
+    const skinDetails = skinInfo.get(parseInt(displayedSkin.id));
+    const skinName = displayedSkin.name === 'default' ? champion.name : displayedSkin.name;
+    const splashUrl = selectedChroma ? selectedChroma.imageUrl : SKIN_IMAGE_URL(champion.id, currentSkin.num);
+    const splashState = splashStatus.get(splashUrl);
+
+    return renderDialog(
+        <>
+            <div style={styles.carouselContainer} role="group" aria-roledescription="carousel" aria-label={dialogLabel}>
+                {!splashState && <div style={{color: 'white', fontSize: '1.2em'}}>{t('modal.loadingArt')}</div>}
+                {splashState === 'error' && (
+                    <div style={{ color: '#c4b998', opacity: 0.7 }} role="img" aria-label={skinName}>
+                        <i className="fas fa-image" style={{ fontSize: '3em', display: 'block', marginBottom: '10px' }}></i>
+                        {t('modal.splashUnavailable')}
+                    </div>
+                )}
+                {/* Only rendered once the loader has the image, so the browser doesn't fetch it outside the queue */}
+                {splashState === 'loaded' && <img style={styles.carouselImage} src={splashUrl} alt={skinName} />}
+                <button style={{...styles.carouselButton, ...styles.carouselButtonPrev}} onClick={handlePrev} aria-label={t('modal.previous')}>&#10094;</button>
+                <button style={{...styles.carouselButton, ...styles.carouselButtonNext}} onClick={handleNext} aria-label={t('modal.next')}>&#10095;</button>
+            </div>
+            <div style={styles.visuallyHidden} aria-live="polite" aria-atomic="true">
+                {t(selectedChroma ? 'modal.positionChroma' : 'modal.position', {
+                    name: skinName,
+                    index: formatNumber(currentSkinIndex + 1),
+                    total: formatNumber(championDetails.skins.length),
+                })}
+            </div>
+            <div style={styles.skinInfo}>
+                <h3>
+                    {skinName}
+                    {isOwned && <span style={styles.ownedBadge}>{t('app.owned')}</span>}
+                </h3>
+                {chromas.length > 0 && (
+                    <div style={styles.chromaRow}>
+                        <button
+                            style={{ ...styles.chromaBaseButton, ...(selectedChroma ? {} : styles.chromaSwatchActive) }}
+                            onClick={() => setSelectedChromaId(null)}
+                            title={t('modal.baseHint')}
+                            aria-pressed={!selectedChroma}
+                        >
+                            {t('modal.base')}
+                        </button>
+                        {chromas.map(chroma => (
+                            <button
+                                key={chroma.id}
+                                style={{
+                                    ...styles.chromaSwatch,
+                                    background: swatchBackground(chroma.colors),
+                                    ...(chroma.id === selectedChromaId ? styles.chromaSwatchActive : {}),
+                                }}
+                                onClick={() => setSelectedChromaId(chroma.id)}
+                                title={chroma.name}
+                                aria-label={chroma.name}
+                                aria-pressed={chroma.id === selectedChromaId}
+                            />
+                        ))}
+                    </div>
+                )}
+                 <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', marginTop: '10px' }}>
+                    {isOnSale(skinDetails) && (
+                        <>
+                            <span style={styles.saleBadge}>{t('price.sale')}</span>
+                            <s style={{ opacity: 0.6, marginRight: '6px' }}>{formatRp(skinDetails.fullPrice)}</s>
+                        </>
+                    )}
+                    {skinDetails?.costs.map(cost => <CostTag key={cost.currency} cost={cost} />)}
+                    {skinDetails?.costOverridden && (
+                        <i className="fas fa-user-edit" style={{ opacity: 0.6, fontSize: '0.8em' }} title={t('cost.overridden')}></i>
+                    )}
+                    {skinDetails && editingCostOf !== displayedSkin.id && (
+                        <button
+                            style={{ ...styles.iconButton, padding: '2px 6px' }}
+                            onClick={() => setEditingCostOf(displayedSkin.id)}
+                            title={t('cost.edit')}
+                            aria-label={t('cost.edit')}
+                        >
+                            <i className="fas fa-pen" style={{ fontSize: '0.7em' }}></i>
+                        </button>
+                    )}
+                    {skinDetails && <RarityBadge rarity={skinDetails.rarity} />}
+                    {wishlists.length > 1 && (
+                        <select
+                            value={targetList.id}
+                            onChange={(e) => setTargetListId(e.target.value)}
+                            style={{ ...styles.listSelect, marginLeft: '15px' }}
+                            title={t('modal.targetList')}
+                        >
+                            {wishlists.map(list => (
+                                <option key={list.id} value={list.id}>
+                                    {list.skins.some(fav => fav.id === displayedSkin.id) ? '\u2665 ' : ''}{list.name}
+                                </option>
+                            ))}
+                        </select>
+                    )}
+                    <button
+                        onClick={() => onToggleFavorite(targetList.id, displayedSkin, championDetails, selectedChroma ? currentSkin.id : undefined)}
+                        style={styles.favoriteButton}
+                        aria-label={t('lists.favoriteIn', { name: targetList.name })}
+                        aria-pressed={isFavorite}
+                    >
+                        <i className={`fas fa-heart`} style={{ color: isFavorite ? 'red' : '#ccc' }} aria-hidden="true"></i>
+                    </button>
+                    <button
+                        onClick={() => onToggleOwned(displayedSkin.id)}
+                        style={styles.favoriteButton}
+                        title={t(isOwned ? 'modal.markNotOwned' : 'modal.markOwned')}
+                        aria-label={t('app.owned')}
+                        aria-pressed={isOwned}
+                    >
+                        <i className="fas fa-check-circle" style={{ color: isOwned ? '#3fbf7f' : '#ccc' }} aria-hidden="true"></i>
+                    </button>
+                    <button
+                        onClick={() => onToggleCompare(displayedSkin.id)}
+                        style={styles.favoriteButton}
+                        disabled={compareFull}
+                        title={compareFull ? t('compare.full', { max: MAX_COMPARED_SKINS }) : isCompared ? t('compare.remove') : t('compare.add')}
+                        aria-label={t('compare.add')}
+                        aria-pressed={isCompared}
+                    >
+                        <i className="fas fa-columns" style={{ color: isCompared ? '#f0c040' : '#ccc' }} aria-hidden="true"></i>
+                    </button>
+                </div>
+                {skinDetails && editingCostOf === displayedSkin.id && (
+                    <CostEditor
+                        key={displayedSkin.id}
+                        costs={skinDetails.costs}
+                        overridden={!!skinDetails.costOverridden}
+                        onSave={(costs) => {
+                            onSetCostOverride(displayedSkin.id, costs);
+                            closeCostEditor();
+                        }}
+                        onCancel={closeCostEditor}
+                    />
+                )}
+            </div>
+        </>,
+        dialogLabel
+    );
+};
@@ -0,0 +1,162 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { ChampionFull, SkinInfo, SkinRarity } from '../types';
+import { LOADING_SKIN_IMAGE_URL } from '../services/dataClient';
+import { AvailabilityFilter, FavoritedFilter, SkinFilters, SkinSearchResult, SkinSort, collectRarities, searchSkins } from '../services/skinSearch';
+import { RarityBadge } from './RarityBadge';
+import { useI18n } from '../hooks/useLocale';
+import { styles } from '../styles';
+
+const PAGE_SIZE = 120;
+
+const parsePriceInput = (value: string): number | null => {
+    const price = parseInt(value);
+    return Number.isFinite(price) && price >= 0 ? price : null;
+};
+
+// --- Skin Search View Component ---
+export const SkinSearchView: React.FC<{
+    championDetailsCache: Map<string, ChampionFull>;
+    skinInfo: Map<number, SkinInfo>;
+    favoriteIds: Set<string>;
+    ownedIds: Set<string>;
+    filters: SkinFilters;
+    onFiltersChange: (changes: Partial<SkinFilters>) => void;
+    onSelect: (result: SkinSearchResult) => void;
+}> = ({ championDetailsCache, skinInfo, favoriteIds, ownedIds, filters, onFiltersChange, onSelect }) => {
+    const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+    const { t, formatNumber, formatRp } = useI18n();
+
+    const results = useMemo(
+        () => searchSkins(championDetailsCache, skinInfo, favoriteIds, filters),
+        [championDetailsCache, skinInfo, favoriteIds, filters]
+    );
+    const rarities = useMemo(() => collectRarities(skinInfo), [skinInfo]);
+
+    useEffect(() => {
+        setVisibleCount(PAGE_SIZE);
+    }, [filters]);
+
+    const toggleRarity = (rarity: SkinRarity) => {
+        const selected = filters.rarities.includes(rarity)
+            ? filters.rarities.filter(r => r !== rarity)
+            : [...filters.rarities, rarity];
+        onFiltersChange({ rarities: selected });
+    };
+
+    return (
+        <div style={styles.scrollArea}>
+            <div style={styles.filterBar}>
+                <input
+                    type="text"
+                    placeholder={t('search.skins')}
+                    value={filters.query}
+                    onChange={(e) => onFiltersChange({ query: e.target.value })}
+                    style={styles.searchInput}
+                />
+                <label style={styles.filterLabel}>
+                    RP
+                    <input
+                        type="number"
+                        min={0}
+                        placeholder={t('search.minPrice')}
+                        value={filters.minPrice ?? ''}
+                        onChange={(e) => onFiltersChange({ minPrice: parsePriceInput(e.target.value) })}
+                        style={styles.priceInput}
+                    />
+                    &ndash;
+                    <input
+                        type="number"
+                        min={0}
+                        placeholder={t('search.maxPrice')}
+                        value={filters.maxPrice ?? ''}
+                        onChange={(e) => onFiltersChange({ maxPrice: parsePriceInput(e.target.value) })}
+                        style={styles.priceInput}
+                    />
+                </label>
+                <label style={styles.filterLabel}>
+                    <input
+                        type="checkbox"
+                        checked={filters.hasChromas}
+                        onChange={(e) => onFiltersChange({ hasChromas: e.target.checked })}
+                    />
+                    {t('search.hasChromas')}
+                </label>
+                <select
+                    value={filters.favorited}
+                    onChange={(e) => onFiltersChange({ favorited: e.target.value as FavoritedFilter })}
+                    style={styles.listSelect}
+                    title={t('search.favorited')}
+                >
+                    <option value="any">{t('search.favoritedAny')}</option>
+                    <option value="yes">{t('search.favorited')}</option>
+                    <option value="no">{t('search.favoritedNo')}</option>
+                </select>
+                <select
+                    value={filters.availability}
+                    onChange={(e) => onFiltersChange({ availability: e.target.value as AvailabilityFilter })}
+                    style={styles.listSelect}
+                    title={t('search.availability')}
+                >
+                    <option value="any">{t('search.availabilityAny')}</option>
+                    <option value="store">{t('search.inStore')}</option>
+                    <option value="legacy">{t('skin.legacy')}</option>
+                    <option value="limited">{t('skin.limited')}</option>
+                </select>
+                <select
+                    value={filters.sort}
+                    onChange={(e) => onFiltersChange({ sort: e.target.value as SkinSort })}
+                    style={styles.listSelect}
+                    title={t('search.sortBy')}
+                >
+                    <option value="name">{t('search.sortName')}</option>
+                    <option value="champion">{t('search.sortChampion')}</option>
+                    <option value="price-asc">{t('search.sortPriceAsc')}</option>
+                    <option value="price-desc">{t('search.sortPriceDesc')}</option>
+                </select>
+            </div>
+            {rarities.length > 0 && (
+                <div style={styles.filterBar}>
+                    {rarities.map(rarity => (
+                        <button
+                            key={rarity}
+                            style={{ ...styles.filterChip, ...(filters.rarities.includes(rarity) ? styles.filterChipActive : {}) }}
+                            onClick={() => toggleRarity(rarity)}
+                        >
+                            {t(`rarity.${rarity}`)}
+                        </button>
+                    ))}
+                </div>
+            )}
+            <div style={styles.skinResultsGrid}>
+                {results.slice(0, visibleCount).map(result => (
+                    <button key={result.skin.id} type="button" style={styles.skinResultCard} className="champion-card" onClick={() => onSelect(result)}>
+                        <img
+                            src={LOADING_SKIN_IMAGE_URL(result.champion.id, result.skin.num)}
+                            alt=""
+                            loading="lazy"
+                            style={styles.skinResultImage}
+                        />
+                        <span style={styles.championName}>
+                            {ownedIds.has(result.skin.id) && <i className="fas fa-check-circle" style={{ color: '#3fbf7f', marginRight: '4px' }} title={t('app.owned')}></i>}
+                            {favoriteIds.has(result.skin.id) && <i className="fas fa-heart" style={{ color: 'red', marginRight: '4px' }}></i>}
+                            {result.skin.name}
+                        </span>
+                        <small style={{ opacity: 0.6 }}>{result.champion.name}</small>
+                        <span style={{ marginTop: '4px' }}>
+                            {result.info && result.info.price > 0 && <span style={{...styles.rpPrice, fontSize: '0.8em', padding: '2px 6px'}}>{formatRp(result.info.price)}</span>}
+                            {result.info && <RarityBadge rarity={result.info.rarity} />}
+                        </span>
+                    </button>
+                ))}
+            </div>
+            {results.length === 0 && <p style={{ textAlign: 'center', opacity: 0.7 }}>{t('search.noResults')}</p>}
+            {results.length > visibleCount && (
+                <div style={{ textAlign: 'center', padding: '0 0 20px' }}>
+                    <button style={styles.textButton} onClick={() => setVisibleCount(prev => prev + PAGE_SIZE)}>
+                        {t('search.showMore', { count: formatNumber(results.length - visibleCount) })}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+import { BudgetGoal, DEFAULT_BUNDLES, DEFAULT_CURRENCY, RpBundle } from '../services/budgetPlanner';
+
+const BUDGET_SETTINGS_KEY = 'budgetPlanner';
+
+export interface BudgetSettings {
+    amount: number;
+    /** Whether `amount` is RP or real currency. */
+    unit: 'rp' | 'money';
+    /** RP already on the account. */
+    balance: number;
+    goal: BudgetGoal;
+    currency: string;
+    bundles: RpBundle[];
+}
+
+const DEFAULT_SETTINGS: BudgetSettings = { amount: 0, unit: 'rp', balance: 0, goal: 'count', currency: DEFAULT_CURRENCY, bundles: DEFAULT_BUNDLES };
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const loadBudgetSettings = (): BudgetSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(BUDGET_SETTINGS_KEY) ?? 'null');
+        if (typeof saved !== 'object' || saved === null) return DEFAULT_SETTINGS;
+        const bundles = Array.isArray(saved.bundles)
+            ? saved.bundles.filter((bundle: RpBundle) => isCount(bundle?.rp) && isCount(bundle.price))
+            : DEFAULT_BUNDLES;
+        return {
+            amount: isCount(saved.amount) ? saved.amount : 0,
+            unit: saved.unit === 'money' ? 'money' : 'rp',
+            balance: isCount(saved.balance) ? saved.balance : 0,
+            goal: saved.goal === 'rarity' ? 'rarity' : 'count',
+            currency: typeof saved.currency === 'string' && /^[A-Z]{3}$/.test(saved.currency) ? saved.currency : DEFAULT_CURRENCY,
+            bundles,
+        };
+    } catch (e) {
+        return DEFAULT_SETTINGS;
+    }
+};
+
+// --- Budget Settings Hook ---
+export const useBudgetSettings = () => {
+    const [settings, setSettings] = useState<BudgetSettings>(loadBudgetSettings);
+
+    useEffect(() => {
+        localStorage.setItem(BUDGET_SETTINGS_KEY, JSON.stringify(settings));
+    }, [settings]);
+
+    const updateSettings = useCallback((changes: Partial<BudgetSettings>) => {
+        setSettings(prev => ({ ...prev, ...changes }));
+    }, []);
+
+    const resetBundles = useCallback(() => {
+        setSettings(prev => ({ ...prev, currency: DEFAULT_CURRENCY, bundles: DEFAULT_BUNDLES }));
+    }, []);
+
+    return { settings, updateSettings, resetBundles };
+};
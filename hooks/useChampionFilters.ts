@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CHAMPION_SORTS, ChampionFilters, ChampionSort, DEFAULT_CHAMPION_FILTERS } from '../services/championFilters';
+
+const CHAMPION_FILTERS_KEY = 'championFilters';
+
+const loadChampionFilters = (): ChampionFilters => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(CHAMPION_FILTERS_KEY) ?? 'null');
+        if (typeof saved !== 'object' || saved === null) return DEFAULT_CHAMPION_FILTERS;
+        return {
+            tags: Array.isArray(saved.tags) ? saved.tags.filter((tag: unknown): tag is string => typeof tag === 'string') : [],
+            sort: CHAMPION_SORTS.includes(saved.sort) ? saved.sort as ChampionSort : DEFAULT_CHAMPION_FILTERS.sort,
+        };
+    } catch (e) {
+        return DEFAULT_CHAMPION_FILTERS;
+    }
+};
+
+// --- Champion Filters Hook ---
+// The role chips and sort order picked for the champion grid, kept across visits.
+export const useChampionFilters = () => {
+    const [filters, setFilters] = useState<ChampionFilters>(loadChampionFilters);
+
+    useEffect(() => {
+        localStorage.setItem(CHAMPION_FILTERS_KEY, JSON.stringify(filters));
+    }, [filters]);
+
+    const toggleTag = useCallback((tag: string) => {
+        setFilters(prev => ({
+            ...prev,
+            tags: prev.tags.includes(tag) ? prev.tags.filter(t => t !== tag) : [...prev.tags, tag],
+        }));
+    }, []);
+
+    const clearTags = useCallback(() => setFilters(prev => ({ ...prev, tags: [] })), []);
+
+    const setSort = useCallback((sort: ChampionSort) => setFilters(prev => ({ ...prev, sort })), []);
+
+    return { filters, toggleTag, clearTags, setSort };
+};
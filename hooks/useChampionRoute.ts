@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback } from 'react';
+
+// --- Routes ---
+// `/` is the browse views, `/champion/:id` opens a champion's skins and `/champion/:id/skin/:num`
+// opens them at one skin. `/compare/:ids` puts up to four skins side by side, by comma-separated
+// skin id. The query string and hash belong to other state and are kept as-is.
+export type Route =
+    | { name: 'home' }
+    | { name: 'champion', championId: string, skinNum: number }
+    | { name: 'compare', skinIds: string[] }
+    | { name: 'notFound' };
+
+const CHAMPION_PATH = /^\/champion\/([^/]+)(?:\/skin\/(\d+))?\/?$/;
+const COMPARE_PATH = /^\/compare\/(\d+(?:,\d+)*)\/?$/;
+
+export const MAX_COMPARED_SKINS = 4;
+
+export const parseRoute = (pathname: string): Route => {
+    if (pathname === '/' || pathname === '/index.html') return { name: 'home' };
+    const compareMatch = COMPARE_PATH.exec(pathname);
+    if (compareMatch) {
+        const skinIds = Array.from(new Set(compareMatch[1].split(','))).slice(0, MAX_COMPARED_SKINS);
+        return { name: 'compare', skinIds };
+    }
+    const match = CHAMPION_PATH.exec(pathname);
+    if (!match) return { name: 'notFound' };
+    return { name: 'champion', championId: decodeURIComponent(match[1]), skinNum: match[2] ? parseInt(match[2], 10) : 0 };
+};
+
+export const routePath = (route: Route): string => {
+    if (route.name === 'compare') return route.skinIds.length > 0 ? `/compare/${route.skinIds.join(',')}` : '/';
+    if (route.name !== 'champion') return '/';
+    const championPath = `/champion/${encodeURIComponent(route.championId)}`;
+    return route.skinNum === 0 ? championPath : `${championPath}/skin/${route.skinNum}`;
+};
+
+// --- Champion Route Hook ---
+export const useChampionRoute = () => {
+    const [route, setRoute] = useState<Route>(() => parseRoute(window.location.pathname));
+
+    useEffect(() => {
+        const handlePopState = () => setRoute(parseRoute(window.location.pathname));
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
+    }, []);
+
+    const navigate = useCallback((next: Route) => {
+        const path = routePath(next);
+        if (path !== window.location.pathname) {
+            window.history.pushState(null, '', `${path}${window.location.search}${window.location.hash}`);
+        }
+        setRoute(next);
+    }, []);
+
+    return { route, navigate };
+};
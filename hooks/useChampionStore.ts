@@ -0,0 +1,11 @@
+import { useState, useSyncExternalStore } from 'react';
+import type { ChampionFull } from '../types';
+import { ChampionStore, createChampionStore } from '../services/championStore';
+
+// --- Champion Store Hook ---
+/** Creates a store for the component's lifetime and subscribes to what it has published. */
+export const useChampionStore = (): [Map<string, ChampionFull>, ChampionStore] => {
+    const [store] = useState(() => createChampionStore());
+    const details = useSyncExternalStore(store.subscribe, store.getSnapshot);
+    return [details, store];
+};
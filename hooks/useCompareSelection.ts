@@ -0,0 +1,36 @@
+import { useState, useEffect, useCallback } from 'react';
+import { MAX_COMPARED_SKINS } from './useChampionRoute';
+
+const COMPARE_SKINS_KEY = 'compareSkins';
+
+const loadCompareSelection = (): string[] => {
+    try {
+        const saved = localStorage.getItem(COMPARE_SKINS_KEY);
+        const initial = saved ? JSON.parse(saved) : [];
+        return Array.isArray(initial) ? initial.filter((id): id is string => typeof id === 'string').slice(0, MAX_COMPARED_SKINS) : [];
+    } catch (e) {
+        return [];
+    }
+};
+
+// --- Compare Selection Hook ---
+// The skins picked for comparison, in the order they were picked. Adding is ignored once
+// MAX_COMPARED_SKINS are picked.
+export const useCompareSelection = () => {
+    const [compareIds, setCompareIds] = useState<string[]>(loadCompareSelection);
+
+    useEffect(() => {
+        localStorage.setItem(COMPARE_SKINS_KEY, JSON.stringify(compareIds));
+    }, [compareIds]);
+
+    const toggleCompare = useCallback((skinId: string) => {
+        setCompareIds(prev => {
+            if (prev.includes(skinId)) return prev.filter(id => id !== skinId);
+            return prev.length < MAX_COMPARED_SKINS ? [...prev, skinId] : prev;
+        });
+    }, []);
+
+    const clearCompare = useCallback(() => setCompareIds([]), []);
+
+    return { compareIds, toggleCompare, clearCompare };
+};
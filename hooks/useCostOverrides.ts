@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { SkinCost } from '../types';
+import { isSkinCurrency } from '../services/skinMetadata';
+
+const COST_OVERRIDES_KEY = 'costOverrides';
+
+const isSkinCost = (value: unknown): value is SkinCost => {
+    const cost = value as SkinCost;
+    return typeof cost === 'object' && cost !== null && isSkinCurrency(cost.currency) && typeof cost.amount === 'number' && cost.amount > 0;
+};
+
+const loadCostOverrides = (): Map<string, SkinCost[]> => {
+    try {
+        const saved = localStorage.getItem(COST_OVERRIDES_KEY);
+        const initial = saved ? JSON.parse(saved) : {};
+        if (typeof initial !== 'object' || initial === null || Array.isArray(initial)) return new Map();
+        return new Map(Object.entries(initial).flatMap(([skinId, costs]): [string, SkinCost[]][] =>
+            Array.isArray(costs) && costs.every(isSkinCost) ? [[skinId, costs]] : []));
+    } catch (e) {
+        return new Map();
+    }
+};
+
+// --- Cost Overrides Hook ---
+// Costs the user has entered for skins whose data is missing or wrong, keyed by skin id.
+export const useCostOverrides = () => {
+    const [overrides, setOverrides] = useState<Map<string, SkinCost[]>>(loadCostOverrides);
+
+    useEffect(() => {
+        localStorage.setItem(COST_OVERRIDES_KEY, JSON.stringify(Object.fromEntries(overrides)));
+    }, [overrides]);
+
+    /** Sets the costs for a skin, or goes back to the loaded data when `costs` is null. */
+    const setOverride = useCallback((skinId: string, costs: SkinCost[] | null) => {
+        setOverrides(prev => {
+            const next = new Map(prev);
+            if (costs === null) next.delete(skinId);
+            else next.set(skinId, costs);
+            return next;
+        });
+    }, []);
+
+    return { overrides, setOverride };
+};
@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react';
+
+// --- Debounced Value Hook ---
+// Follows `value` once it has stopped changing for `delayMs`, for work too slow to redo on every keystroke.
+export const useDebouncedValue = <T,>(value: T, delayMs: number): T => {
+    const [settled, setSettled] = useState(value);
+
+    useEffect(() => {
+        const timer = setTimeout(() => setSettled(value), delayMs);
+        return () => clearTimeout(timer);
+    }, [value, delayMs]);
+
+    return settled;
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import type { Wishlist } from '../types';
+import { SyncAdapter, SyncError } from '../services/favoritesSync';
+import { useFavoritesSync } from './useFavoritesSync';
+
+const LISTS: Wishlist[] = [{ id: 'list', name: 'Wishlist', skins: [] }];
+
+const failingAdapter = (error: unknown): SyncAdapter => ({
+    name: 'test',
+    pull: () => Promise.reject(error),
+    push: () => Promise.reject(error),
+});
+
+describe('useFavoritesSync', () => {
+    it('reports sync errors from the adapter', async () => {
+        const failure = new SyncError('Server said no.', 'http', 500);
+        const { result } = renderHook(() => useFavoritesSync(failingAdapter(failure), 'merge', LISTS, () => {}));
+        await waitFor(() => expect(result.current.status).toBe('error'));
+        expect(result.current.error).toBe(failure);
+    });
+
+    it('reports and logs unexpected errors instead of leaving the status at syncing', async () => {
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const failure = new TypeError('adapter.pull is broken');
+        const { result } = renderHook(() => useFavoritesSync(failingAdapter(failure), 'merge', LISTS, () => {}));
+        await waitFor(() => expect(result.current.status).toBe('error'));
+        expect(result.current.error).toBe(failure);
+        expect(consoleError).toHaveBeenCalledWith('Favorites sync failed:', failure);
+        consoleError.mockRestore();
+    });
+});
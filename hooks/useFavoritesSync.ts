@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Wishlist } from '../types';
+import { SyncAdapter, SyncError, SyncStrategy, hasPendingChanges, recordLocalChange, synchronize } from '../services/favoritesSync';
+
+/** Local changes are pushed once they've settled for this long. */
+const PUSH_DELAY_MS = 1000;
+
+export type SyncStatus = 'off' | 'syncing' | 'synced' | 'pending' | 'error';
+
+// --- Favorites Sync Hook ---
+// Keeps the lists in step with a sync adapter: pulls on start, when the tab is shown again and
+// when the connection comes back, and pushes local changes shortly after they're made.
+export const useFavoritesSync = (
+    adapter: SyncAdapter | null,
+    strategy: SyncStrategy,
+    lists: Wishlist[],
+    replaceLists: (lists: Wishlist[]) => void,
+) => {
+    const [status, setStatus] = useState<SyncStatus>(adapter ? 'syncing' : 'off');
+    const [error, setError] = useState<unknown>(null);
+    const listsRef = useRef(lists);
+    const loadedLists = useRef(lists);
+    const running = useRef(false);
+    const runAgain = useRef(false);
+
+    useEffect(() => {
+        listsRef.current = lists;
+    }, [lists]);
+
+    const syncNow = useCallback(async () => {
+        if (!adapter) return;
+        if (running.current) {
+            runAgain.current = true;
+            return;
+        }
+        running.current = true;
+        setStatus('syncing');
+        try {
+            do {
+                runAgain.current = false;
+                const local = listsRef.current;
+                const resolved = await synchronize(adapter, strategy, local);
+                // Lists edited during the round trip go out on the next pass instead of being overwritten
+                if (listsRef.current !== local) runAgain.current = true;
+                else if (resolved !== local) replaceLists(resolved);
+            } while (runAgain.current);
+            setStatus('synced');
+            setError(null);
+        } catch (e) {
+            if (e instanceof SyncError) {
+                // Offline changes stay queued and go out when the connection returns
+                setStatus(e.offline ? 'pending' : 'error');
+                setError(e.offline ? null : e);
+                return;
+            }
+            // Callers don't await this, so anything unexpected would otherwise go unreported
+            console.error('Favorites sync failed:', e);
+            setStatus('error');
+            setError(e);
+        } finally {
+            running.current = false;
+        }
+    }, [adapter, strategy, replaceLists]);
+
+    useEffect(() => {
+        if (!adapter) return;
+        const handleOnline = () => {
+            if (hasPendingChanges(adapter)) syncNow();
+        };
+        const handleVisibility = () => {
+            if (document.visibilityState === 'visible') syncNow();
+        };
+        window.addEventListener('online', handleOnline);
+        document.addEventListener('visibilitychange', handleVisibility);
+        syncNow();
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            document.removeEventListener('visibilitychange', handleVisibility);
+        };
+    }, [adapter, syncNow]);
+
+    // The lists loaded at start aren't a change; anything after that, from this tab or another, is
+    useEffect(() => {
+        if (!adapter || lists === loadedLists.current) return;
+        if (!recordLocalChange(adapter, lists)) {
+            // Undone back to what was last synced, so there's nothing left to push
+            setStatus(current => current === 'pending' ? 'synced' : current);
+            return;
+        }
+        setStatus(current => current === 'syncing' ? current : 'pending');
+        const timer = setTimeout(syncNow, PUSH_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [adapter, lists, syncNow]);
+
+    return { status, error, syncNow };
+};
@@ -0,0 +1,36 @@
+import React, { useRef, useEffect, useCallback } from 'react';
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// --- Focus Trap Hook ---
+// Moves focus into a dialog when it opens, keeps Tab cycling inside it, and hands focus
+// back to whatever had it (e.g. the card that opened the dialog) once it closes.
+export const useFocusTrap = <T extends HTMLElement>() => {
+    const ref = useRef<T>(null);
+
+    useEffect(() => {
+        const previouslyFocused = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+        ref.current?.focus();
+        return () => previouslyFocused?.focus();
+    }, []);
+
+    const onKeyDown = useCallback((e: React.KeyboardEvent) => {
+        if (e.key !== 'Tab' || !ref.current) return;
+        const focusable = Array.from<HTMLElement>(ref.current.querySelectorAll<HTMLElement>(FOCUSABLE));
+        if (focusable.length === 0) {
+            e.preventDefault();
+            return;
+        }
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        if (e.shiftKey && (document.activeElement === first || document.activeElement === ref.current)) {
+            e.preventDefault();
+            last.focus();
+        } else if (!e.shiftKey && document.activeElement === last) {
+            e.preventDefault();
+            first.focus();
+        }
+    }, []);
+
+    return { ref, onKeyDown };
+};
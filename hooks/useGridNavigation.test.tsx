@@ -0,0 +1,87 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { useGridNavigation } from './useGridNavigation';
+
+const NAMES = ['Ahri', 'Annie', 'Ashe', 'Braum', 'Caitlyn', 'Darius'];
+
+/** Lays the cards out in rows of `columns`, since jsdom has no layout of its own. */
+const Grid: React.FC<{ columns: number, onOpen: (name: string) => void }> = ({ columns, onOpen }) => {
+    const navigation = useGridNavigation(NAMES.length);
+    return (
+        <div
+            role="group"
+            aria-label="Champions"
+            onKeyDown={navigation.onKeyDown}
+            ref={element => element?.querySelectorAll('button').forEach((card, index) => {
+                Object.defineProperty(card, 'offsetTop', { configurable: true, value: Math.floor(index / columns) * 100 });
+            })}
+        >
+            {NAMES.map((name, index) => (
+                <button key={name} type="button" onClick={() => onOpen(name)} {...navigation.itemProps(index)}>
+                    {name}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+const renderGrid = (columns = 3) => {
+    const onOpen = vi.fn();
+    render(<Grid columns={columns} onOpen={onOpen} />);
+    return { onOpen, cards: screen.getAllByRole('button') };
+};
+
+describe('useGridNavigation', () => {
+    it('keeps only one card in the Tab order', () => {
+        const { cards } = renderGrid();
+        expect(cards.map(card => card.tabIndex)).toEqual([0, -1, -1, -1, -1, -1]);
+    });
+
+    it('moves focus with the arrow keys, Home and End, stopping at the edges', async () => {
+        const user = userEvent.setup();
+        const { cards } = renderGrid();
+        await user.tab();
+        expect(document.activeElement).toBe(cards[0]);
+
+        await user.keyboard('{ArrowRight}');
+        expect(document.activeElement).toBe(cards[1]);
+        await user.keyboard('{ArrowDown}');
+        expect(document.activeElement).toBe(cards[4]);
+        await user.keyboard('{ArrowDown}');
+        expect(document.activeElement).toBe(cards[4]);
+        await user.keyboard('{ArrowUp}{ArrowLeft}');
+        expect(document.activeElement).toBe(cards[0]);
+        await user.keyboard('{ArrowLeft}');
+        expect(document.activeElement).toBe(cards[0]);
+        await user.keyboard('{End}');
+        expect(document.activeElement).toBe(cards[5]);
+        await user.keyboard('{Home}');
+        expect(document.activeElement).toBe(cards[0]);
+    });
+
+    it('reads the number of columns from the layout', async () => {
+        const user = userEvent.setup();
+        const { cards } = renderGrid(2);
+        await user.tab();
+        await user.keyboard('{ArrowDown}');
+        expect(document.activeElement).toBe(cards[2]);
+    });
+
+    it('makes the last focused card the one Tab returns to', async () => {
+        const user = userEvent.setup();
+        const { cards } = renderGrid();
+        await user.tab();
+        await user.keyboard('{ArrowRight}{ArrowRight}');
+        expect(cards.map(card => card.tabIndex)).toEqual([-1, -1, 0, -1, -1, -1]);
+    });
+
+    it('opens the focused card with Enter', async () => {
+        const user = userEvent.setup();
+        const { onOpen } = renderGrid();
+        await user.tab();
+        await user.keyboard('{ArrowRight}{Enter}');
+        expect(onOpen).toHaveBeenCalledWith('Annie');
+    });
+});
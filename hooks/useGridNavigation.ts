@@ -0,0 +1,55 @@
+import React, { useState, useCallback, useRef } from 'react';
+
+// --- Grid Navigation Hook ---
+// Roving focus for a grid of cards: only one card is in the Tab order, and the arrow keys,
+// Home and End move between cards. Columns are read from the rendered layout, so the grid
+// can keep reflowing with the window width. Cards carry their index, so a virtualized grid
+// works too: moving to a card that isn't rendered scrolls to it and focuses it once it mounts.
+export const useGridNavigation = (itemCount: number, scrollToIndex?: (index: number) => void) => {
+    const [activeIndex, setActiveIndex] = useState(0);
+    const pendingFocusRef = useRef<number | null>(null);
+    const tabbableIndex = Math.min(activeIndex, Math.max(itemCount - 1, 0));
+
+    const onKeyDown = useCallback((e: React.KeyboardEvent<HTMLElement>) => {
+        const items = Array.from<HTMLElement>(e.currentTarget.querySelectorAll<HTMLElement>('[data-grid-item]'));
+        const focused = items.find(item => item === document.activeElement);
+        if (!focused) return;
+        const index = Number(focused.dataset.gridIndex);
+        const columns = Math.max(items.filter(item => item.offsetTop === items[0].offsetTop).length, 1);
+        let next: number;
+        switch (e.key) {
+            case 'ArrowLeft': next = index - 1; break;
+            case 'ArrowRight': next = index + 1; break;
+            case 'ArrowUp': next = index - columns; break;
+            case 'ArrowDown': next = index + columns; break;
+            case 'Home': next = 0; break;
+            case 'End': next = itemCount - 1; break;
+            default: return;
+        }
+        e.preventDefault();
+        if (next < 0 || next >= itemCount) return;
+        setActiveIndex(next);
+        const target = items.find(item => Number(item.dataset.gridIndex) === next);
+        if (target) {
+            target.focus();
+        } else {
+            pendingFocusRef.current = next;
+            scrollToIndex?.(next);
+        }
+    }, [itemCount, scrollToIndex]);
+
+    const itemProps = useCallback((index: number) => ({
+        'data-grid-item': true,
+        'data-grid-index': index,
+        tabIndex: index === tabbableIndex ? 0 : -1,
+        onFocus: () => setActiveIndex(index),
+        ref: (element: HTMLElement | null) => {
+            if (element && pendingFocusRef.current === index) {
+                pendingFocusRef.current = null;
+                element.focus();
+            }
+        },
+    }), [tabbableIndex]);
+
+    return { onKeyDown, itemProps };
+};
@@ -0,0 +1,29 @@
+import { createContext, useContext, useState, useEffect, useMemo } from 'react';
+import { DEFAULT_LOCALE, I18n, Locale, createI18n, isLocale, toLanguageTag } from '../services/i18n';
+
+const LOCALE_KEY = 'locale';
+
+const loadLocale = (): Locale => {
+    const saved = localStorage.getItem(LOCALE_KEY);
+    return isLocale(saved) ? saved : DEFAULT_LOCALE;
+};
+
+// --- Locale Hook ---
+export const useLocale = () => {
+    const [locale, setLocale] = useState<Locale>(loadLocale);
+
+    const i18n = useMemo(() => createI18n(locale), [locale]);
+
+    useEffect(() => {
+        localStorage.setItem(LOCALE_KEY, locale);
+        document.documentElement.lang = toLanguageTag(i18n.uiLocale);
+    }, [locale, i18n]);
+
+    return { locale, setLocale, i18n };
+};
+
+// --- I18n Context ---
+// Provided once by App so components can translate without threading the locale through props.
+export const I18nContext = createContext<I18n>(createI18n(DEFAULT_LOCALE));
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,18 @@
+import { useState, useEffect } from 'react';
+
+// --- Online Status Hook ---
+export const useOnlineStatus = () => {
+    const [online, setOnline] = useState(() => navigator.onLine);
+
+    useEffect(() => {
+        const update = () => setOnline(navigator.onLine);
+        window.addEventListener('online', update);
+        window.addEventListener('offline', update);
+        return () => {
+            window.removeEventListener('online', update);
+            window.removeEventListener('offline', update);
+        };
+    }, []);
+
+    return online;
+};
@@ -0,0 +1,33 @@
+import { useState, useEffect, useCallback } from 'react';
+
+const OWNED_SKINS_KEY = 'ownedSkins';
+
+const loadOwnedSkins = (): Set<string> => {
+    try {
+        const saved = localStorage.getItem(OWNED_SKINS_KEY);
+        const initial = saved ? JSON.parse(saved) : [];
+        return new Set(Array.isArray(initial) ? initial.filter((id): id is string => typeof id === 'string') : []);
+    } catch (e) {
+        return new Set();
+    }
+};
+
+// --- Owned Skins Hook ---
+export const useOwnedSkins = () => {
+    const [owned, setOwned] = useState<Set<string>>(loadOwnedSkins);
+
+    useEffect(() => {
+        localStorage.setItem(OWNED_SKINS_KEY, JSON.stringify(Array.from(owned)));
+    }, [owned]);
+
+    const toggleOwned = useCallback((skinId: string) => {
+        setOwned(prev => {
+            const next = new Set(prev);
+            if (next.has(skinId)) next.delete(skinId);
+            else next.add(skinId);
+            return next;
+        });
+    }, []);
+
+    return { owned, toggleOwned };
+};
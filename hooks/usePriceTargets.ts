@@ -0,0 +1,36 @@
+import { useState, useEffect, useCallback } from 'react';
+
+const PRICE_TARGETS_KEY = 'priceTargets';
+
+const loadPriceTargets = (): Map<string, number> => {
+    try {
+        const saved = localStorage.getItem(PRICE_TARGETS_KEY);
+        const initial = saved ? JSON.parse(saved) : {};
+        if (typeof initial !== 'object' || initial === null || Array.isArray(initial)) return new Map();
+        return new Map(Object.entries(initial).filter((entry): entry is [string, number] => typeof entry[1] === 'number'));
+    } catch (e) {
+        return new Map();
+    }
+};
+
+// --- Price Targets Hook ---
+// The RP price at which the user wants to be told a favorite is worth buying, keyed by skin id.
+export const usePriceTargets = () => {
+    const [targets, setTargets] = useState<Map<string, number>>(loadPriceTargets);
+
+    useEffect(() => {
+        localStorage.setItem(PRICE_TARGETS_KEY, JSON.stringify(Object.fromEntries(targets)));
+    }, [targets]);
+
+    /** Sets the target for a skin, or clears it when `price` is null. */
+    const setTarget = useCallback((skinId: string, price: number | null) => {
+        setTargets(prev => {
+            const next = new Map(prev);
+            if (price === null) next.delete(skinId);
+            else next.set(skinId, price);
+            return next;
+        });
+    }, []);
+
+    return { targets, setTarget };
+};
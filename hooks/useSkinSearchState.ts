@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import { DEFAULT_SKIN_FILTERS, SkinFilters, filtersFromParams, writeFiltersToParams } from '../services/skinSearch';
+
+export type BrowseView = 'champions' | 'skins' | 'lines' | 'patches' | 'ask';
+
+const VIEWS: BrowseView[] = ['champions', 'skins', 'lines', 'patches', 'ask'];
+
+interface SkinSearchState {
+    view: BrowseView;
+    filters: SkinFilters;
+}
+
+const readState = (): SkinSearchState => {
+    const params = new URLSearchParams(window.location.search);
+    const view = params.get('view') as BrowseView;
+    return {
+        view: VIEWS.includes(view) ? view : 'champions',
+        filters: filtersFromParams(params),
+    };
+};
+
+// --- Skin Search State Hook ---
+// Keeps the browse view and skin filters in the query string so a filtered view can be bookmarked.
+export const useSkinSearchState = () => {
+    const [state, setState] = useState<SkinSearchState>(readState);
+
+    useEffect(() => {
+        const params = new URLSearchParams(window.location.search);
+        params.delete('view');
+        writeFiltersToParams(DEFAULT_SKIN_FILTERS, params); // Defaults are omitted, so this clears every filter key
+        if (state.view !== 'champions') params.set('view', state.view);
+        if (state.view === 'skins') writeFiltersToParams(state.filters, params);
+        const search = params.toString();
+        const url = `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`;
+        if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+            window.history.replaceState(window.history.state, '', url);
+        }
+    }, [state]);
+
+    useEffect(() => {
+        const handlePopState = () => setState(readState());
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
+    }, []);
+
+    const setView = useCallback((view: BrowseView) => setState(prev => ({ ...prev, view })), []);
+
+    const updateFilters = useCallback((changes: Partial<SkinFilters>) => {
+        setState(prev => ({ ...prev, filters: { ...prev.filters, ...changes } }));
+    }, []);
+
+    return { view: state.view, filters: state.filters, setView, updateFilters };
+};
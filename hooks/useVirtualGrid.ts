@@ -0,0 +1,109 @@
+import { useState, useRef, useCallback, useEffect, useLayoutEffect } from 'react';
+
+// --- Virtual Grid Hook ---
+// Renders only the rows of a grid (or a one-column list) near the visible area; callers fill the
+// rest with `paddingTop`/`paddingBottom`. The column count and row height are measured from the
+// rendered items (marked with `data-virtual-item`), so the CSS layout stays in charge. Works
+// whether the container scrolls itself or scrolls with the page, as it does on narrow screens.
+
+interface GridLayout {
+    columns: number;
+    /** Distance from one row to the next, gap included. */
+    rowHeight: number;
+    gap: number;
+}
+
+interface RowRange {
+    startRow: number;
+    endRow: number;
+}
+
+export const useVirtualGrid = (itemCount: number, { estimatedRowHeight, overscanRows = 2, enabled = true }: {
+    estimatedRowHeight: number;
+    overscanRows?: number;
+    /** Off renders every item, for lists too short to be worth virtualizing. */
+    enabled?: boolean;
+}) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [layout, setLayout] = useState<GridLayout>({ columns: 1, rowHeight: estimatedRowHeight, gap: 0 });
+    const [range, setRange] = useState<RowRange>({ startRow: 0, endRow: 10 });
+
+    const measure = useCallback(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const items = Array.from<HTMLElement>(container.querySelectorAll<HTMLElement>('[data-virtual-item]'));
+        if (items.length === 0) return;
+        const firstTop = items[0].offsetTop;
+        const columns = Math.max(items.filter(item => item.offsetTop === firstTop).length, 1);
+        const nextRow = items[columns];
+        setLayout(prev => {
+            const rowHeight = nextRow ? nextRow.offsetTop - firstTop : prev.rowHeight;
+            const gap = nextRow ? Math.max(rowHeight - items[0].offsetHeight, 0) : prev.gap;
+            if (prev.columns === columns && prev.rowHeight === rowHeight && prev.gap === gap) return prev;
+            return { columns, rowHeight: rowHeight > 0 ? rowHeight : prev.rowHeight, gap };
+        });
+    }, []);
+
+    const updateRange = useCallback(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const rect = container.getBoundingClientRect();
+        const visibleTop = container.scrollTop + Math.max(0, -rect.top);
+        const visibleHeight = Math.max(0, Math.min(rect.bottom, window.innerHeight) - Math.max(rect.top, 0));
+        const startRow = Math.max(0, Math.floor(visibleTop / layout.rowHeight) - overscanRows);
+        const endRow = Math.ceil((visibleTop + visibleHeight) / layout.rowHeight) + overscanRows;
+        setRange(prev => prev.startRow === startRow && prev.endRow === endRow ? prev : { startRow, endRow });
+    }, [layout.rowHeight, overscanRows]);
+
+    // Every render can change which items are on screen, so re-measure before the browser paints
+    useLayoutEffect(() => {
+        if (enabled) measure();
+    });
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!enabled || !container) return;
+        updateRange();
+        const handleResize = () => {
+            measure();
+            updateRange();
+        };
+        const observer = new ResizeObserver(handleResize);
+        observer.observe(container);
+        container.addEventListener('scroll', updateRange, { passive: true });
+        window.addEventListener('scroll', updateRange, { passive: true });
+        return () => {
+            observer.disconnect();
+            container.removeEventListener('scroll', updateRange);
+            window.removeEventListener('scroll', updateRange);
+        };
+    }, [enabled, measure, updateRange]);
+
+    /** Scrolls the row holding `index` to the top, so it gets rendered. */
+    const scrollToIndex = useCallback((index: number) => {
+        const container = containerRef.current;
+        if (!container) return;
+        const rowTop = Math.floor(index / layout.columns) * layout.rowHeight;
+        if (container.scrollHeight > container.clientHeight) {
+            container.scrollTop = rowTop;
+        } else {
+            window.scrollTo({ top: window.scrollY + container.getBoundingClientRect().top + rowTop });
+        }
+    }, [layout]);
+
+    const { columns, rowHeight, gap } = layout;
+    const rowCount = Math.ceil(itemCount / columns);
+    const startRow = enabled ? Math.min(range.startRow, rowCount) : 0;
+    const endRow = enabled ? Math.min(range.endRow, rowCount) : rowCount;
+
+    return {
+        containerRef,
+        startIndex: startRow * columns,
+        endIndex: Math.min(endRow * columns, itemCount),
+        paddingTop: startRow * rowHeight,
+        paddingBottom: (rowCount - endRow) * rowHeight,
+        gap,
+        scrollToIndex,
+    };
+};
+
@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { FavoriteSkin, Skin, Wishlist } from '../types';
+import { WishlistState, createWishlistId, loadWishlists, saveWishlists, subscribeToWishlists } from '../services/wishlistStorage';
+import { toFavoriteSkin } from '../services/skinIndex';
+
+const updateList = (state: WishlistState, listId: string, update: (list: Wishlist) => Wishlist): WishlistState => ({
+    ...state,
+    lists: state.lists.map(list => list.id === listId ? update(list) : list),
+});
+
+// --- Wishlists Hook ---
+export const useWishlists = () => {
+    const [state, setState] = useState<WishlistState>(loadWishlists);
+    // Lists that just arrived from another tab. Saving them again would only bounce them back.
+    const fromOtherTab = useRef<Wishlist[] | null>(null);
+    const previousLists = useRef<Wishlist[] | null>(null);
+
+    useEffect(() => {
+        const arrived = state.lists === fromOtherTab.current && state.lists !== previousLists.current;
+        previousLists.current = state.lists;
+        if (!arrived) saveWishlists(state);
+    }, [state]);
+
+    // Each tab keeps its own list selection unless that list was deleted elsewhere
+    useEffect(() => subscribeToWishlists(saved => {
+        fromOtherTab.current = saved.lists;
+        setState(prev => ({
+            lists: saved.lists,
+            activeId: saved.lists.some(list => list.id === prev.activeId) ? prev.activeId : saved.activeId,
+        }));
+    }), []);
+
+    const activeList = useMemo(
+        () => state.lists.find(list => list.id === state.activeId) ?? state.lists[0],
+        [state]
+    );
+
+    const setActiveList = useCallback((listId: string) => {
+        setState(prev => prev.lists.some(list => list.id === listId) ? { ...prev, activeId: listId } : prev);
+    }, []);
+
+    const createList = useCallback((name: string) => {
+        const id = createWishlistId();
+        setState(prev => ({ lists: [...prev.lists, { id, name, skins: [] }], activeId: id }));
+        return id;
+    }, []);
+
+    const renameList = useCallback((listId: string, name: string) => {
+        setState(prev => updateList(prev, listId, list => ({ ...list, name })));
+    }, []);
+
+    /** Deletes a list. The last remaining list can't be deleted. */
+    const deleteList = useCallback((listId: string) => {
+        setState(prev => {
+            if (prev.lists.length <= 1) return prev;
+            const lists = prev.lists.filter(list => list.id !== listId);
+            const activeId = prev.activeId === listId ? lists[0].id : prev.activeId;
+            return { lists, activeId };
+        });
+    }, []);
+
+    const toggleSkin = useCallback((listId: string, skin: Skin, championInfo: { id: string, name: string }, parentSkinId?: string) => {
+        setState(prev => updateList(prev, listId, list => {
+            const existingIndex = list.skins.findIndex(fav => fav.id === skin.id);
+            if (existingIndex > -1) {
+                return { ...list, skins: list.skins.filter((_, index) => index !== existingIndex) };
+            }
+            return { ...list, skins: [...list.skins, toFavoriteSkin(skin, championInfo, parentSkinId)] };
+        }));
+    }, []);
+
+    /** Adds skins to a list, either after the existing ones (skipping duplicates) or in place of them. */
+    const addSkins = useCallback((listId: string, skins: FavoriteSkin[], mode: 'merge' | 'replace' = 'merge') => {
+        setState(prev => updateList(prev, listId, list => {
+            const base = mode === 'replace' ? [] : list.skins;
+            const seen = new Set(base.map(fav => fav.id));
+            const added = skins.filter(fav => {
+                if (seen.has(fav.id)) return false;
+                seen.add(fav.id);
+                return true;
+            });
+            return { ...list, skins: [...base, ...added] };
+        }));
+    }, []);
+
+    /** Moves a skin to `toIndex` within its list, shifting the skins in between. */
+    const moveSkin = useCallback((listId: string, skinId: string, toIndex: number) => {
+        setState(prev => updateList(prev, listId, list => {
+            const fromIndex = list.skins.findIndex(fav => fav.id === skinId);
+            const target = Math.max(0, Math.min(toIndex, list.skins.length - 1));
+            if (fromIndex === -1 || fromIndex === target) return list;
+            const skins = [...list.skins];
+            const [moved] = skins.splice(fromIndex, 1);
+            skins.splice(target, 0, moved);
+            return { ...list, skins };
+        }));
+    }, []);
+
+    /** Sets a skin's priority, note and tags; `undefined` or empty values clear them. */
+    const annotateSkin = useCallback((listId: string, skinId: string, notes: Pick<FavoriteSkin, 'priority' | 'note' | 'tags'>) => {
+        setState(prev => updateList(prev, listId, list => ({
+            ...list,
+            skins: list.skins.map(fav => {
+                if (fav.id !== skinId) return fav;
+                const { priority, note, tags, ...skin } = fav;
+                return {
+                    ...skin,
+                    ...(notes.priority && { priority: notes.priority }),
+                    ...(notes.note?.trim() && { note: notes.note.trim() }),
+                    ...(notes.tags?.length && { tags: notes.tags }),
+                };
+            }),
+        })));
+    }, []);
+
+    /** Swaps in lists from elsewhere (a sync server), keeping the selection if that list still exists. */
+    const replaceLists = useCallback((lists: Wishlist[]) => {
+        if (lists.length === 0) return;
+        setState(prev => ({
+            lists,
+            activeId: lists.some(list => list.id === prev.activeId) ? prev.activeId : lists[0].id,
+        }));
+    }, []);
+
+    const removeSkinFromAllLists = useCallback((skinId: string) => {
+        setState(prev => ({
+            ...prev,
+            lists: prev.lists.map(list => list.skins.some(fav => fav.id === skinId)
+                ? { ...list, skins: list.skins.filter(fav => fav.id !== skinId) }
+                : list),
+        }));
+    }, []);
+
+    return {
+        lists: state.lists,
+        activeList,
+        setActiveList,
+        createList,
+        renameList,
+        deleteList,
+        toggleSkin,
+        addSkins,
+        moveSkin,
+        annotateSkin,
+        replaceLists,
+        removeSkinFromAllLists,
+    };
+};
+
+export type WishlistsApi = ReturnType<typeof useWishlists>;
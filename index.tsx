@@ -1,578 +1,743 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { createRoot } from 'react-dom/client';
-
-// --- Type Definitions ---
-interface Champion {
-    id: string;
-    key: string;
-    name: string;
-    title: string;
-    blurb: string;
-}
-
-interface Skin {
-    id: string;
-    num: number;
+import type { Champion, FavoriteSkin, Skin, SkinInfo, SkinLine } from './types';
+import {
+    CENTERED_SKIN_IMAGE_URL,
+    SKIN_IMAGE_URL,
+    fetchChampionDetail,
+    fetchChampionSummary,
+    fetchSkinInfo,
+    fetchSkinLines,
+    fetchVersions,
+    isAbortError,
+    isReleaseVersion,
+} from './services/dataClient';
+import {
+    cacheVersion,
+    clearCache,
+    loadCachedChampionData,
+    loadCachedSkinInfo,
+    loadCachedSkinLines,
+    loadPriceSnapshotBefore,
+    pruneCache,
+    saveChampionDetails,
+    saveChampionSummary,
+    savePriceSnapshot,
+    saveSkinInfo,
+    saveSkinLines,
+} from './services/dataCache';
+import { useWishlists } from './hooks/useWishlists';
+import { useOwnedSkins } from './hooks/useOwnedSkins';
+import { usePriceTargets } from './hooks/usePriceTargets';
+import { useCostOverrides } from './hooks/useCostOverrides';
+import { useSkinSearchState } from './hooks/useSkinSearchState';
+import { useChampionRoute } from './hooks/useChampionRoute';
+import { useChampionStore } from './hooks/useChampionStore';
+import { useChampionFilters } from './hooks/useChampionFilters';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { useCompareSelection } from './hooks/useCompareSelection';
+import { SyncStatus, useFavoritesSync } from './hooks/useFavoritesSync';
+import { I18nContext, useLocale } from './hooks/useLocale';
+import { LOCALES, hasCatalog, isLocale } from './services/i18n';
+import { applyCostOverrides, snapshotDate, totalRpFor } from './services/pricing';
+import { annotateFirstSeen } from './services/skinMetadata';
+import { imageLoader } from './services/imageLoader';
+import { pruneOfflineData, registerServiceWorker, syncCachedArt } from './services/offlineCache';
+import { countRender, logPerfReport, markOnce } from './services/perfMetrics';
+import { ShareLinkError, decodeShareHash, isShareHash } from './services/shareLink';
+import { buildSkinIndex, toFavoriteSkin } from './services/skinIndex';
+import { collectChampionTags, countFavoritesByChampion, filterChampions } from './services/championFilters';
+import { LastSeenCatalog, diffCatalogs, loadLastSeenCatalog, saveLastSeenCatalog } from './services/patchDiff';
+import { SkinModal } from './components/SkinModal';
+import { FavoritesPanel } from './components/FavoritesPanel';
+import { SharedListPanel } from './components/SharedListPanel';
+import { SkinSearchView } from './components/SkinSearchView';
+import { SkinLineView } from './components/SkinLineView';
+import { PatchDiffView } from './components/PatchDiffView';
+import { NotFoundView } from './components/NotFoundView';
+import { ChampionGrid } from './components/ChampionGrid';
+import { ChampionFilterBar } from './components/ChampionFilterBar';
+import { CompareView } from './components/CompareView';
+import { CompareTray } from './components/CompareTray';
+import { AskView } from './components/AskView';
+import { createRecommender } from './services/recommendations';
+import { SYNC_STRATEGY, createSyncAdapter } from './services/favoritesSync';
+import { styles } from './styles';
+
+interface SharedView {
     name: string;
-    chromas: boolean;
+    ids: string[];
+    error: ShareLinkError | null;
 }
 
-interface ChampionFull {
-    id: string;
-    key: string;
-    name: string;
-    skins: Skin[];
-}
-
-interface FavoriteSkin extends Skin {
-    championId: string;
-    championName: string;
-}
-
-interface SkinInfo {
-    price: number;
-    rarity: string;
-}
-
-// --- API URLs ---
-const VERSIONS_URL = 'https://ddragon.leagueoflegends.com/api/versions.json';
-const DDRAGON_BASE_URL = (version: string) => `https://ddragon.leagueoflegends.com/cdn/${version}`;
-const CHAMPION_SUMMARY_URL = (version: string) => `${DDRAGON_BASE_URL(version)}/data/en_US/champion.json`;
-const CHAMPION_DETAIL_URL = (version: string, championId: string) => `${DDRAGON_BASE_URL(version)}/data/en_US/champion/${championId}.json`;
-const SKIN_IMAGE_URL = (championId: string, skinNum: number) => `https://ddragon.leagueoflegends.com/cdn/img/champion/splash/${championId}_${skinNum}.jpg`;
-const CENTERED_SKIN_IMAGE_URL = (championId: string, skinNum: number) => `https://ddragon.leagueoflegends.com/cdn/img/champion/centered/${championId}_${skinNum}.jpg`;
-const CHAMPION_ICON_URL = (version: string, championId: string) => `${DDRAGON_BASE_URL(version)}/img/champion/${championId}.png`;
-const SKIN_PRICE_URL = 'https://raw.communitydragon.org/latest/plugins/rcp-be-lol-game-data/global/default/v1/skins.json';
-
-
-// --- Rarity Badge Component ---
-const RarityBadge: React.FC<{ rarity: string }> = ({ rarity }) => {
-    if (!rarity || rarity === 'None') return null;
-
-    const rarityColors: { [key: string]: string } = {
-        'Mythic': '#c46cde',
-        'Ultimate': '#f28a30',
-        'Legendary': '#e69427',
-        'Epic': '#8b48d2',
-        'Default': '#50617b',
-    };
-
-    const style: React.CSSProperties = {
-        backgroundColor: rarityColors[rarity] || '#50617b',
-        color: 'white',
-        padding: '2px 8px',
-        borderRadius: '10px',
-        fontSize: '0.75em',
-        fontWeight: 'bold',
-        marginLeft: '8px',
-        textTransform: 'uppercase',
-        display: 'inline-block',
-        verticalAlign: 'middle',
-    };
-
-    return <span style={style}>{rarity}</span>;
-};
-
-
-// --- Skin Modal Component ---
-const SkinModal: React.FC<{
-    champion: Champion;
-    onClose: () => void;
-    favorites: FavoriteSkin[];
-    onToggleFavorite: (skin: Skin, championInfo: { id: string, name: string }) => void;
-    championDetailsCache: Map<string, ChampionFull>;
-    skinInfo: Map<number, SkinInfo>;
-    apiVersion: string;
-}> = ({ champion, onClose, favorites, onToggleFavorite, championDetailsCache, skinInfo, apiVersion }) => {
-    const [championDetails, setChampionDetails] = useState<ChampionFull | null>(null);
-    const [currentSkinIndex, setCurrentSkinIndex] = useState(0);
-    const [imagesLoading, setImagesLoading] = useState(true);
-
-    useEffect(() => {
-        const details = championDetailsCache.get(champion.id);
-        if (details) {
-            setChampionDetails(details);
-            // Preload all skin images for a smoother carousel experience
-            Promise.all(details.skins.map(skin => {
-                return new Promise((resolve, reject) => {
-                    const img = new Image();
-                    img.src = SKIN_IMAGE_URL(champion.id, skin.num);
-                    img.onload = resolve;
-                    img.onerror = reject;
-                });
-            })).then(() => setImagesLoading(false));
-        } else {
-             // This case should be rare with pre-caching, but is a good fallback.
-            fetch(CHAMPION_DETAIL_URL(apiVersion, champion.id))
-                .then(res => res.json())
-                .then(data => {
-                    const fetchedDetails = data.data[champion.id];
-                    setChampionDetails(fetchedDetails);
-                });
-        }
-    }, [champion.id, championDetailsCache, apiVersion]);
-
-    const handlePrev = () => {
-        if (!championDetails) return;
-        setCurrentSkinIndex((prev) => (prev - 1 + championDetails.skins.length) % championDetails.skins.length);
-    };
-
-    const handleNext = () => {
-        if (!championDetails) return;
-        setCurrentSkinIndex((prev) => (prev + 1) % championDetails.skins.length);
-    };
-
-    if (!championDetails) {
-        return (
-            <div style={styles.modalOverlay}>
-                <div style={styles.modalContent}>Loading skins...</div>
-            </div>
-        );
+const readSharedView = (): SharedView | null => {
+    if (!isShareHash(window.location.hash)) return null;
+    try {
+        return { ...decodeShareHash(window.location.hash), error: null };
+    } catch (error) {
+        if (!(error instanceof ShareLinkError)) throw error;
+        return { name: '', ids: [], error };
     }
+};
 
-    const currentSkin = championDetails.skins[currentSkinIndex];
-    const isFavorite = favorites.some(fav => fav.id === currentSkin.id);
-    const skinDetails = skinInfo.get(parseInt(currentSkin.id));
-
-    return (
-        <div style={styles.modalOverlay} onClick={onClose}>
-            <div style={styles.modalContent} onClick={(e) => e.stopPropagation()}>
-                <button style={styles.closeButton} onClick={onClose}>&times;</button>
-                <div style={styles.carouselContainer}>
-                    {imagesLoading && <div style={{color: 'white', fontSize: '1.2em'}}>Loading skin art...</div>}
-                    <img
-                        style={{...styles.carouselImage, visibility: imagesLoading ? 'hidden' : 'visible'}}
-                        src={SKIN_IMAGE_URL(champion.id, currentSkin.num)}
-                        alt={currentSkin.name}
-                    />
-                    <button style={{...styles.carouselButton, ...styles.carouselButtonPrev}} onClick={handlePrev}>&#10094;</button>
-                    <button style={{...styles.carouselButton, ...styles.carouselButtonNext}} onClick={handleNext}>&#10095;</button>
-                </div>
-                <div style={styles.skinInfo}>
-                    <h3>{currentSkin.name === 'default' ? champion.name : currentSkin.name}</h3>
-                     <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', marginTop: '10px' }}>
-                        {skinDetails && skinDetails.price > 0 && (
-                            <span style={styles.rpPrice}>{skinDetails.price} RP</span>
-                        )}
-                        {skinDetails && <RarityBadge rarity={skinDetails.rarity} />}
-                        <button onClick={() => onToggleFavorite(currentSkin, championDetails)} style={styles.favoriteButton}>
-                            <i className={`fas fa-heart`} style={{ color: isFavorite ? 'red' : '#ccc' }}></i>
-                        </button>
-                    </div>
-                </div>
-            </div>
-        </div>
-    );
+const SYNC_ICONS: Record<SyncStatus, string> = {
+    off: '',
+    syncing: 'fa-sync-alt fa-spin',
+    synced: 'fa-cloud',
+    pending: 'fa-cloud-upload-alt',
+    error: 'fa-exclamation-triangle',
 };
 
 
 // --- Main App Component ---
 const App = () => {
+    countRender('App');
     const [latestVersion, setLatestVersion] = useState<string | null>(null);
+    const [versions, setVersions] = useState<string[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [champions, setChampions] = useState<Champion[]>([]);
-    const [favorites, setFavorites] = useState<FavoriteSkin[]>(() => {
-        try {
-            const saved = localStorage.getItem('favoriteSkins');
-            const initial = saved ? JSON.parse(saved) : [];
-            return Array.isArray(initial) ? initial : [];
-        } catch (e) {
-            return [];
-        }
-    });
-    const [selectedChampion, setSelectedChampion] = useState<Champion | null>(null);
+    const wishlists = useWishlists();
+    const { lists, activeList, createList, toggleSkin, addSkins, replaceLists, removeSkinFromAllLists } = wishlists;
+    const syncAdapter = useMemo(createSyncAdapter, []);
+    const favoritesSync = useFavoritesSync(syncAdapter, SYNC_STRATEGY, lists, replaceLists);
+    const favorites = activeList.skins;
+    const { owned, toggleOwned } = useOwnedSkins();
+    const { targets: priceTargets, setTarget: setPriceTarget } = usePriceTargets();
+    const { overrides: costOverrides, setOverride: setCostOverride } = useCostOverrides();
+    const { compareIds, toggleCompare, clearCompare } = useCompareSelection();
+    const { locale, setLocale, i18n } = useLocale();
+    const { t, formatNumber, formatRp, describeError } = i18n;
+    const { route, navigate } = useChampionRoute();
+    const recommender = useMemo(createRecommender, []);
+    const online = useOnlineStatus();
     const [searchTerm, setSearchTerm] = useState('');
-    const [championDetailsCache, setChampionDetailsCache] = useState<Map<string, ChampionFull>>(new Map());
-    const [skinInfo, setSkinInfo] = useState<Map<number, SkinInfo>>(new Map());
+    const [championDetailsCache, championStore] = useChampionStore();
+    const { filters: championFilters, toggleTag, clearTags, setSort: setChampionSort } = useChampionFilters();
+    const [loadedSkinInfo, setSkinInfo] = useState<Map<number, SkinInfo>>(new Map());
+    const skinInfo = useMemo(() => applyCostOverrides(loadedSkinInfo, costOverrides), [loadedSkinInfo, costOverrides]);
     const [hoveredFavorite, setHoveredFavorite] = useState<FavoriteSkin | null>(null);
+    const [loadError, setLoadError] = useState<unknown>(null);
+    const [loadAttempt, setLoadAttempt] = useState(0);
+    const [priceError, setPriceError] = useState<unknown>(null);
+    const [priceAttempt, setPriceAttempt] = useState(0);
+    const [previousPrices, setPreviousPrices] = useState<Map<number, number> | null>(null);
+    const [skinLines, setSkinLines] = useState<SkinLine[] | null>(null);
+    const [skinLinesError, setSkinLinesError] = useState<unknown>(null);
+    const [skinLinesAttempt, setSkinLinesAttempt] = useState(0);
+    const [sharedView, setSharedView] = useState<SharedView | null>(readSharedView);
+    const [lastSeen, setLastSeen] = useState<LastSeenCatalog | null>(loadLastSeenCatalog);
+    const [patchRange, setPatchRange] = useState<{ from: string, to: string } | null>(null);
+    const { view, filters, setView, updateFilters } = useSkinSearchState();
 
 
     useEffect(() => {
         // First, fetch the latest version
-        fetch(VERSIONS_URL)
-            .then(res => res.json())
+        const controller = new AbortController();
+        fetchVersions({ signal: controller.signal })
             .then(versions => {
                 setLatestVersion(versions[0]); // The first one is the latest
+                setVersions(versions.filter(isReleaseVersion));
             })
             .catch(error => {
+                if (isAbortError(error)) return;
                 console.error("Failed to fetch API versions:", error);
+                setLoadError(error);
                 setIsLoading(false); // Stop loading on error
             });
-        
-        // Fetch skin prices, which is version-independent
-        fetch(SKIN_PRICE_URL)
-            .then(res => {
-                if (!res.ok) throw new Error(`Failed to fetch skin prices with status: ${res.status}`);
-                return res.json();
+        return () => controller.abort();
+    }, [loadAttempt]);
+
+    useEffect(() => {
+        // Skin prices are version-independent, but are cached alongside the current version
+        if (!latestVersion) return;
+
+        const controller = new AbortController();
+        const dataVersion = cacheVersion(latestVersion, locale);
+        setPriceError(null);
+        loadCachedSkinInfo(dataVersion).then(cached => {
+            if (cached && !controller.signal.aborted) setSkinInfo(prev => prev.size > 0 ? prev : annotateFirstSeen(latestVersion, cached));
+        });
+        fetchSkinInfo(locale, { signal: controller.signal })
+            .then(info => {
+                setSkinInfo(annotateFirstSeen(latestVersion, info));
+                saveSkinInfo(dataVersion, info);
+                // Compare against an earlier day, so changes stay flagged for the rest of today
+                const today = snapshotDate();
+                loadPriceSnapshotBefore(today).then(snapshot => {
+                    if (!controller.signal.aborted) setPreviousPrices(snapshot?.prices ?? null);
+                });
+                savePriceSnapshot(today, info);
             })
-            .then(data => {
-                const infoMap = new Map<number, SkinInfo>();
-                for (const skinId in data) {
-                    const skinData = data[skinId];
-                    if (skinData.cost && (skinData.cost !== -1 || skinData.saleCost !== -1)) {
-                        infoMap.set(parseInt(skinId), {
-                            price: skinData.cost === -1 ? skinData.saleCost : skinData.cost,
-                            rarity: skinData.rarityGem || 'None'
-                        });
-                    }
-                }
-                setSkinInfo(infoMap);
+            .catch(error => {
+                if (isAbortError(error)) return;
+                console.error("Failed to fetch skin prices:", error);
+                setPriceError(error);
+            });
+        return () => controller.abort();
+    }, [latestVersion, locale, priceAttempt]);
+
+    useEffect(() => {
+        // Skin lines are only needed by the skin line and ask views, so they're loaded on first use
+        if (!latestVersion || (view !== 'lines' && view !== 'ask') || skinLines) return;
+
+        const controller = new AbortController();
+        const dataVersion = cacheVersion(latestVersion, locale);
+        setSkinLinesError(null);
+        loadCachedSkinLines(dataVersion)
+            .then(cached => cached ?? fetchSkinLines(locale, { signal: controller.signal }).then(lines => {
+                saveSkinLines(dataVersion, lines);
+                return lines;
+            }))
+            .then(lines => {
+                if (!controller.signal.aborted) setSkinLines(lines);
             })
-            .catch(error => console.error("Failed to fetch skin prices:", error));
-    }, []);
+            .catch(error => {
+                if (isAbortError(error)) return;
+                console.error("Failed to fetch skin lines:", error);
+                setSkinLinesError(error);
+            });
+        return () => controller.abort();
+    }, [latestVersion, locale, view, skinLines, skinLinesAttempt]);
 
     useEffect(() => {
-        // Once we have the latest version, fetch all champion data
+        // Once we have the latest version, load champion data from cache and fetch whatever is missing
         if (!latestVersion) return;
 
-        fetch(CHAMPION_SUMMARY_URL(latestVersion))
-            .then(res => res.json())
-            .then(data => {
-                const championList: Champion[] = Object.values(data.data);
+        const controller = new AbortController();
+        const { signal } = controller;
+        const dataVersion = cacheVersion(latestVersion, locale);
+        loadCachedChampionData(dataVersion)
+            .then(async cached => {
+                if (signal.aborted) return;
+                if (cached.details.size > 0) championStore.replace(cached.details);
+
+                let championList = cached.champions;
+                if (!championList) {
+                    championList = await fetchChampionSummary(latestVersion, locale, { signal });
+                    saveChampionSummary(dataVersion, championList);
+                }
                 setChampions(championList);
                 setIsLoading(false); // Data is ready, stop loading
-                
-                // Pre-cache details in the background
-                championList.forEach(champ => {
-                    fetch(CHAMPION_DETAIL_URL(latestVersion, champ.id))
-                        .then(res => res.json())
-                        .then(detailData => {
-                            setChampionDetailsCache(prevCache => {
-                                const newCache = new Map(prevCache);
-                                newCache.set(champ.id, detailData.data[champ.id]);
-                                return newCache;
-                            });
-                        });
-                });
+
+                // Pre-cache missing details in the background. Failures are left for SkinModal to retry on demand.
+                const missing = championList.filter(champ => !cached.details.has(champ.id));
+                await Promise.all(missing.map(champ =>
+                    fetchChampionDetail(latestVersion, champ.id, locale, { signal })
+                        .then(details => {
+                            // Batched by the store, so the app re-renders a few times rather than once per champion
+                            championStore.add(details);
+                            return saveChampionDetails(dataVersion, [details]);
+                        })
+                        .catch(error => {
+                            if (!isAbortError(error)) console.warn(`Failed to pre-cache ${champ.id}:`, error);
+                        })
+                ));
+                if (signal.aborted) return;
+                championStore.flush();
+                await pruneCache(dataVersion);
+            })
+            .catch(error => {
+                if (isAbortError(error)) return;
+                console.error("Failed to fetch champion list:", error);
+                setLoadError(error);
+                setIsLoading(false);
             });
-    }, [latestVersion]);
+        return () => controller.abort();
+    }, [latestVersion, locale, loadAttempt, championStore]);
+
+    const handleRetryLoad = useCallback(() => {
+        setLoadError(null);
+        setIsLoading(true);
+        setLoadAttempt(prev => prev + 1);
+    }, []);
+
+    const handleLocaleChange = useCallback((value: string) => {
+        if (!isLocale(value)) return;
+        // Drop data in the old language; the loaders refill it from cache or the network
+        championStore.replace(new Map());
+        setSkinLines(null);
+        setLocale(value);
+    }, [setLocale, championStore]);
+
+    const handleClearCache = useCallback(() => {
+        clearCache().then(() => {
+            championStore.replace(new Map());
+            setSkinInfo(new Map());
+            setSkinLines(null);
+            setPriceAttempt(prev => prev + 1);
+            handleRetryLoad();
+        });
+    }, [handleRetryLoad, championStore]);
 
     useEffect(() => {
-        localStorage.setItem('favoriteSkins', JSON.stringify(favorites));
         // Preload images for favorited skins for instant hover effect
-        favorites.forEach(fav => {
-            const img = new Image();
-            img.src = CENTERED_SKIN_IMAGE_URL(fav.championId, fav.num);
-        });
+        const controller = new AbortController();
+        for (const fav of favorites) {
+            imageLoader.load(CENTERED_SKIN_IMAGE_URL(fav.championId, fav.num), { signal: controller.signal }).catch(() => {
+                // A missing preview only means no art on hover
+            });
+        }
+        return () => controller.abort();
     }, [favorites]);
 
-    const handleToggleFavorite = useCallback((skin: Skin, championInfo: {id: string, name: string}) => {
-        setFavorites(prev => {
-            const existingIndex = prev.findIndex(fav => fav.id === skin.id);
-            if (existingIndex > -1) {
-                return prev.filter((_, index) => index !== existingIndex);
-            } else {
-                return [...prev, { ...skin, championId: championInfo.id, championName: championInfo.name }];
-            }
-        });
+    useEffect(() => {
+        // Keep art for every favorited skin available offline, the current list's first
+        const ordered = [activeList, ...lists.filter(list => list.id !== activeList.id)].flatMap(list => list.skins);
+        const urls = new Set(ordered.flatMap(fav => [
+            SKIN_IMAGE_URL(fav.championId, fav.num),
+            CENTERED_SKIN_IMAGE_URL(fav.championId, fav.num),
+        ]));
+        syncCachedArt(Array.from(urls));
+    }, [lists, activeList]);
+
+    useEffect(() => {
+        if (latestVersion) pruneOfflineData(latestVersion);
+    }, [latestVersion]);
+
+    useEffect(() => {
+        const handleHashChange = () => setSharedView(readSharedView());
+        window.addEventListener('hashchange', handleHashChange);
+        return () => window.removeEventListener('hashchange', handleHashChange);
     }, []);
 
-    const filteredChampions = useMemo(() =>
-        champions.filter(c => c.name.toLowerCase().includes(searchTerm.toLowerCase())),
-        [champions, searchTerm]
+    const detailsLoaded = champions.length > 0 && championDetailsCache.size >= champions.length;
+
+    useEffect(() => {
+        // Time to interactive: the grid is usable once the champion list is in; details fill in after
+        if (!isLoading && champions.length > 0) markOnce('championsShown');
+        if (detailsLoaded && markOnce('detailsLoaded')) logPerfReport();
+    }, [isLoading, champions, detailsLoaded]);
+
+    const championTags = useMemo(() => collectChampionTags(champions), [champions]);
+    const favoriteCounts = useMemo(() => countFavoritesByChampion(lists), [lists]);
+    const filteredChampions = useMemo(
+        () => filterChampions(champions, searchTerm, championFilters, championDetailsCache, favoriteCounts),
+        [champions, searchTerm, championFilters, championDetailsCache, favoriteCounts]
     );
     
-    const totalRp = useMemo(() => {
-        return favorites.reduce((acc, fav) => {
-            const info = skinInfo.get(parseInt(fav.id));
-            if (info && info.price) {
-                return acc + info.price;
-            }
-            return acc;
-        }, 0);
-    }, [favorites, skinInfo]);
+    const allFavoriteIds = useMemo(
+        () => new Set(lists.flatMap(list => list.skins.map(fav => fav.id))),
+        [lists]
+    );
+    const activeFavoriteIds = useMemo(() => new Set(favorites.map(fav => fav.id)), [favorites]);
+
+    const handleToggleFavorite = useCallback((listId: string, skin: Skin, championInfo: { id: string, name: string }, parentSkinId?: string) => {
+        const adding = !lists.find(list => list.id === listId)?.skins.some(fav => fav.id === skin.id);
+        const name = skin.name === 'default' ? championInfo.name : skin.name;
+        if (adding && owned.has(skin.id) && !window.confirm(t('app.confirmOwnedFavorite', { name }))) return;
+        toggleSkin(listId, skin, championInfo, parentSkinId);
+    }, [t, lists, owned, toggleSkin]);
+
+    /** Marking a skin as owned also takes it off every wishlist. */
+    const handleToggleOwned = useCallback((skinId: string) => {
+        if (!owned.has(skinId)) removeSkinFromAllLists(skinId);
+        toggleOwned(skinId);
+    }, [owned, toggleOwned, removeSkinFromAllLists]);
+
+    const handleMarkOwned = useCallback((favorite: FavoriteSkin) => handleToggleOwned(favorite.id), [handleToggleOwned]);
+
+    const championCompletion = useMemo(() => {
+        const completion = new Map<string, { owned: number, total: number }>();
+        for (const champion of championDetailsCache.values()) {
+            const skins = champion.skins.filter(skin => skin.num !== 0);
+            completion.set(champion.id, { owned: skins.filter(skin => owned.has(skin.id)).length, total: skins.length });
+        }
+        return completion;
+    }, [championDetailsCache, owned]);
+
+    const collectionSummary = useMemo(() => {
+        let ownedCount = 0;
+        let total = 0;
+        for (const entry of championCompletion.values()) {
+            ownedCount += entry.owned;
+            total += entry.total;
+        }
+        let value = 0;
+        for (const skinId of owned) value += skinInfo.get(parseInt(skinId))?.price ?? 0;
+        return { owned: ownedCount, total, value };
+    }, [championCompletion, owned, skinInfo]);
 
+    useEffect(() => {
+        // A first visit only records the catalog, so the next visit has something to compare against
+        if (detailsLoaded && latestVersion && !lastSeen) saveLastSeenCatalog(latestVersion, championDetailsCache.values());
+    }, [detailsLoaded, latestVersion, lastSeen, championDetailsCache]);
+
+    const newSinceLastVisit = useMemo(() => {
+        if (!detailsLoaded || !lastSeen) return 0;
+        const diff = diffCatalogs(lastSeen, championDetailsCache.values());
+        return diff.newChampions.length + diff.newSkins.length;
+    }, [detailsLoaded, lastSeen, championDetailsCache]);
+
+    const favoriteChampionIds = useMemo(
+        () => new Set(lists.flatMap(list => list.skins.map(fav => fav.championId))),
+        [lists]
+    );
+
+    const handleShowNewSinceLastVisit = useCallback(() => {
+        if (!lastSeen || !latestVersion) return;
+        setPatchRange({ from: lastSeen.version, to: latestVersion });
+        setView('patches');
+        saveLastSeenCatalog(latestVersion, championDetailsCache.values());
+        setLastSeen(loadLastSeenCatalog());
+    }, [lastSeen, latestVersion, championDetailsCache, setView]);
+
+    /** Leaves a comparison for the browse views, which live in the query string. */
+    const showView = useCallback((next: typeof view) => {
+        setView(next);
+        if (route.name === 'compare') navigate({ name: 'home' });
+    }, [setView, route, navigate]);
+
+    const handleCompare = useCallback(() => {
+        navigate({ name: 'compare', skinIds: compareIds });
+    }, [navigate, compareIds]);
+
+    const openChampion = useCallback((champion: Champion, skinNum = 0) => {
+        navigate({ name: 'champion', championId: champion.id, skinNum });
+    }, [navigate]);
+
+    const routeChampion = useMemo(() => {
+        if (route.name !== 'champion') return null;
+        const championId = route.championId.toLowerCase();
+        return champions.find(c => c.id.toLowerCase() === championId) ?? null;
+    }, [route, champions]);
+
+    const routeNotFound = useMemo(() => {
+        if (route.name === 'notFound') return true;
+        if (route.name !== 'champion') return false;
+        if (!routeChampion) return true;
+        // A skin can only be ruled out once the champion's details are in
+        const details = championDetailsCache.get(routeChampion.id);
+        return !!details && !details.skins.some(skin => skin.num === route.skinNum);
+    }, [route, routeChampion, championDetailsCache]);
+
+    const listTotals = useMemo(() => {
+        const totals = new Map<string, number>();
+        for (const list of lists) {
+            totals.set(list.id, totalRpFor(list.skins, skinInfo));
+        }
+        return totals;
+    }, [lists, skinInfo]);
+
+    const skinIndex = useMemo(() => buildSkinIndex(championDetailsCache, skinInfo), [championDetailsCache, skinInfo]);
+
+    const sharedSkins = useMemo(() => {
+        if (!sharedView) return { skins: [], unresolved: [] };
+        const skins: FavoriteSkin[] = [];
+        const unresolved: string[] = [];
+        for (const id of sharedView.ids) {
+            const match = skinIndex.get(id);
+            if (match) skins.push(toFavoriteSkin(match.skin, match.champion, match.parentSkinId));
+            else unresolved.push(id);
+        }
+        return { skins, unresolved };
+    }, [sharedView, skinIndex]);
+
+    const handleCloseSharedView = useCallback(() => {
+        window.history.replaceState(null, '', window.location.pathname + window.location.search);
+        setSharedView(null);
+    }, []);
+
+    const handleCopySharedList = useCallback(() => {
+        if (!sharedView) return;
+        addSkins(createList(sharedView.name || t('app.sharedList')), sharedSkins.skins);
+        handleCloseSharedView();
+    }, [t, sharedView, sharedSkins, createList, addSkins, handleCloseSharedView]);
+
+
+    if (loadError != null) {
+        return (
+            <div style={{ ...styles.appContainer, ...styles.statusScreen }}>
+                <p>{t('app.loadError')}</p>
+                <p style={{ opacity: 0.7, fontSize: '0.7em' }}>{describeError(loadError)}</p>
+                <button style={styles.textButton} onClick={handleRetryLoad}>{t('app.retry')}</button>
+            </div>
+        );
+    }
 
     if (isLoading) {
         return (
             <div style={{ ...styles.appContainer, justifyContent: 'center', alignItems: 'center', fontSize: '1.5em' }}>
-                Loading latest skin data...
+                {t('app.loading')}
             </div>
         );
     }
 
     return (
-        <div style={styles.appContainer} className="app-container">
-            <div style={styles.favoritesPanel} className="favorites-panel">
-                {hoveredFavorite && (
-                    <div style={styles.favoriteArtPreview}>
-                        <img 
-                            src={CENTERED_SKIN_IMAGE_URL(hoveredFavorite.championId, hoveredFavorite.num)}
-                            style={styles.favoriteArtImage}
-                            alt=""
+        <I18nContext.Provider value={i18n}>
+            <div style={styles.appContainer} className="app-container">
+                <div style={styles.favoritesPanel} className="favorites-panel">
+                    {hoveredFavorite && (
+                        <div style={styles.favoriteArtPreview}>
+                            <img 
+                                src={CENTERED_SKIN_IMAGE_URL(hoveredFavorite.championId, hoveredFavorite.num)}
+                                style={styles.favoriteArtImage}
+                                alt=""
+                            />
+                        </div>
+                    )}
+                    {sharedView ? (
+                        <SharedListPanel
+                            name={sharedView.name}
+                            skins={sharedSkins.skins}
+                            unresolved={detailsLoaded ? sharedSkins.unresolved : []}
+                            error={sharedView.error}
+                            resolving={!detailsLoaded}
+                            skinInfo={skinInfo}
+                            onHover={setHoveredFavorite}
+                            onCopy={handleCopySharedList}
+                            onClose={handleCloseSharedView}
+                        />
+                    ) : (
+                        <FavoritesPanel
+                            wishlists={wishlists}
+                            listTotals={listTotals}
+                            skinInfo={skinInfo}
+                            championDetailsCache={championDetailsCache}
+                            skinIndex={skinIndex}
+                            detailsLoaded={detailsLoaded}
+                            previousPrices={previousPrices}
+                            priceTargets={priceTargets}
+                            onSetTarget={setPriceTarget}
+                            onHover={setHoveredFavorite}
+                            onMarkOwned={handleMarkOwned}
+                            compareIds={compareIds}
+                            onToggleCompare={toggleCompare}
                         />
+                    )}
+                    {priceError != null && (
+                        <div style={styles.priceErrorBanner}>
+                            <span>{t('app.pricesUnavailable', { error: describeError(priceError) })}</span>
+                            <button style={styles.textButton} onClick={() => setPriceAttempt(prev => prev + 1)}>{t('app.retry')}</button>
+                        </div>
+                    )}
+                </div>
+                <div style={styles.mainPanel} className="main-panel">
+                    <div style={styles.mainHeader}>
+                        <h2>{route.name === 'compare' ? t('title.compare') : t(`title.${view}`)}</h2>
+                        <div style={styles.headerControls}>
+                            {!online && (
+                                <span style={styles.offlineBadge} role="status">
+                                    <i className="fas fa-plane"></i> {t('app.offline')}
+                                </span>
+                            )}
+                            {favoritesSync.status !== 'off' && (
+                                <button
+                                    style={{ ...styles.syncBadge, ...(favoritesSync.status === 'error' ? styles.syncBadgeError : {}) }}
+                                    onClick={favoritesSync.syncNow}
+                                    disabled={favoritesSync.status === 'syncing'}
+                                    title={favoritesSync.error != null ? `${t('sync.error')}: ${describeError(favoritesSync.error)}` : t('sync.now')}
+                                    aria-live="polite"
+                                >
+                                    <i className={`fas ${SYNC_ICONS[favoritesSync.status]}`}></i> {t(`sync.${favoritesSync.status}`)}
+                                </button>
+                            )}
+                            {latestVersion && <small style={styles.dataVersion}>{t('app.dataVersion', { version: latestVersion })}</small>}
+                            {newSinceLastVisit > 0 && (
+                                <button style={styles.newContentBadge} onClick={handleShowNewSinceLastVisit}>
+                                    <i className="fas fa-bell"></i> {t('app.newSinceLastVisit', { count: newSinceLastVisit })}
+                                </button>
+                            )}
+                            <div style={styles.viewToggle}>
+                                <button
+                                    style={{ ...styles.viewToggleButton, ...(view === 'champions' ? styles.viewToggleButtonActive : {}) }}
+                                    onClick={() => showView('champions')}
+                                >
+                                    {t('view.champions')}
+                                </button>
+                                <button
+                                    style={{ ...styles.viewToggleButton, ...(view === 'skins' ? styles.viewToggleButtonActive : {}) }}
+                                    onClick={() => showView('skins')}
+                                >
+                                    {t('view.skins')}
+                                </button>
+                                <button
+                                    style={{ ...styles.viewToggleButton, ...(view === 'lines' ? styles.viewToggleButtonActive : {}) }}
+                                    onClick={() => showView('lines')}
+                                >
+                                    {t('view.lines')}
+                                </button>
+                                <button
+                                    style={{ ...styles.viewToggleButton, ...(view === 'patches' ? styles.viewToggleButtonActive : {}) }}
+                                    onClick={() => showView('patches')}
+                                >
+                                    {t('view.patches')}
+                                </button>
+                                <button
+                                    style={{ ...styles.viewToggleButton, ...(view === 'ask' ? styles.viewToggleButtonActive : {}) }}
+                                    onClick={() => showView('ask')}
+                                >
+                                    {t('view.ask')}
+                                </button>
+                            </div>
+                            {view === 'champions' && (
+                                <input
+                                    type="text"
+                                    placeholder={t('search.champion')}
+                                    value={searchTerm}
+                                    onChange={(e) => setSearchTerm(e.target.value)}
+                                    style={styles.searchInput}
+                                />
+                            )}
+                            <select
+                                value={locale}
+                                onChange={(e) => handleLocaleChange(e.target.value)}
+                                style={styles.listSelect}
+                                title={t('app.language')}
+                            >
+                                <optgroup label={t('app.interfaceLanguages')}>
+                                    {LOCALES.filter(({ id }) => hasCatalog(id)).map(({ id, label }) => <option key={id} value={id}>{label}</option>)}
+                                </optgroup>
+                                <optgroup label={t('app.dataOnlyLanguages')}>
+                                    {LOCALES.filter(({ id }) => !hasCatalog(id)).map(({ id, label }) => <option key={id} value={id}>{label}</option>)}
+                                </optgroup>
+                            </select>
+                            <button style={styles.iconButton} onClick={handleClearCache} title={t('app.clearCache')}>
+                                <i className="fas fa-trash-alt"></i>
+                            </button>
+                        </div>
                     </div>
-                )}
-                <h2>Favorite Skins</h2>
-                <div style={styles.favoritesList} className="favorites-list">
-                    {favorites.length > 0 ? (
-                        <ul>
-                            {favorites.map(fav => {
-                                const info = skinInfo.get(parseInt(fav.id));
-                                return (
-                                    <li 
-                                        key={fav.id}
-                                        onMouseEnter={() => setHoveredFavorite(fav)}
-                                        onMouseLeave={() => setHoveredFavorite(null)}
-                                    >
-                                        <div style={styles.favoriteItemInfo}>
-                                            <span>{fav.name === 'default' ? fav.championName : fav.name}</span>
-                                            <small>{fav.championName}</small>
-                                            <div style={{marginTop: '4px'}}>
-                                                {info && info.price > 0 && <span style={{...styles.rpPrice, fontSize: '0.8em', padding: '2px 6px'}}>{info.price} RP</span>}
-                                                {info && <RarityBadge rarity={info.rarity} />}
-                                            </div>
-                                        </div>
-                                        <button 
-                                            style={styles.removeFavoriteButton}
-                                            className="remove-favorite-button"
-                                            onClick={() => handleToggleFavorite(fav, {id: fav.championId, name: fav.championName})}
-                                        >
-                                            &times;
-                                        </button>
-                                    </li>
-                                );
+                    {collectionSummary.total > 0 && (
+                        <div style={styles.collectionSummary}>
+                            {t('app.collection', {
+                                owned: formatNumber(collectionSummary.owned),
+                                total: formatNumber(collectionSummary.total),
+                                percent: Math.round(collectionSummary.owned / collectionSummary.total * 100),
                             })}
-                        </ul>
+                            {collectionSummary.value > 0 && <> &middot; {t('app.collectionValue', { value: formatRp(collectionSummary.value) })}</>}
+                        </div>
+                    )}
+                    {routeNotFound ? (
+                        <NotFoundView onBack={() => navigate({ name: 'home' })} />
+                    ) : route.name === 'compare' ? (
+                        <CompareView
+                            skinIds={route.skinIds}
+                            skinIndex={skinIndex}
+                            skinInfo={skinInfo}
+                            detailsLoaded={detailsLoaded}
+                            ownedIds={owned}
+                            onRemove={skinId => {
+                                const skinIds = route.skinIds.filter(id => id !== skinId);
+                                navigate(skinIds.length > 0 ? { name: 'compare', skinIds } : { name: 'home' });
+                            }}
+                            onBack={() => navigate({ name: 'home' })}
+                        />
+                    ) : view === 'skins' ? (
+                        <SkinSearchView
+                            championDetailsCache={championDetailsCache}
+                            skinInfo={skinInfo}
+                            favoriteIds={allFavoriteIds}
+                            ownedIds={owned}
+                            filters={filters}
+                            onFiltersChange={updateFilters}
+                            onSelect={result => {
+                                const champion = champions.find(c => c.id === result.champion.id);
+                                if (champion) openChampion(champion, result.skin.num);
+                            }}
+                        />
+                    ) : view === 'lines' ? (
+                        <SkinLineView
+                            skinLines={skinLines}
+                            error={skinLinesError}
+                            onRetry={() => setSkinLinesAttempt(prev => prev + 1)}
+                            championDetailsCache={championDetailsCache}
+                            skinInfo={skinInfo}
+                            favoriteIds={activeFavoriteIds}
+                            ownedIds={owned}
+                            listName={activeList.name}
+                            onAddSkins={skins => addSkins(activeList.id, skins)}
+                            onSelect={favorite => {
+                                const champion = champions.find(c => c.id === favorite.championId);
+                                if (champion) openChampion(champion, favorite.num);
+                            }}
+                        />
+                    ) : view === 'ask' ? (
+                        <AskView
+                            recommender={recommender}
+                            championDetailsCache={championDetailsCache}
+                            skinInfo={skinInfo}
+                            skinLines={skinLines}
+                            skinIndex={skinIndex}
+                            detailsLoaded={detailsLoaded}
+                            favoriteIds={activeFavoriteIds}
+                            ownedIds={owned}
+                            listName={activeList.name}
+                            onAddSkins={skins => addSkins(activeList.id, skins)}
+                            onSelect={favorite => {
+                                const champion = champions.find(c => c.id === favorite.championId);
+                                if (champion) openChampion(champion, favorite.num);
+                            }}
+                        />
+                    ) : view === 'patches' ? (
+                        versions.length < 2 ? (
+                            <p style={{ textAlign: 'center', opacity: 0.7 }}>{t('app.loadingVersions')}</p>
+                        ) : (
+                            <PatchDiffView
+                                key={patchRange ? `${patchRange.from}:${patchRange.to}` : 'latest'}
+                                versions={versions}
+                                initialFrom={patchRange?.from ?? versions[1]}
+                                initialTo={patchRange?.to ?? versions[0]}
+                                favoriteChampionIds={favoriteChampionIds}
+                                onSelectSkin={(championFull, skinNum) => {
+                                    const champion = champions.find(c => c.id === championFull.id);
+                                    if (champion) openChampion(champion, skinNum);
+                                }}
+                            />
+                        )
                     ) : (
-                        <p style={{textAlign: 'center', opacity: 0.7}}>Your favorite skins will appear here.</p>
+                        <>
+                            <ChampionFilterBar
+                                tags={championTags}
+                                filters={championFilters}
+                                onToggleTag={toggleTag}
+                                onClearTags={clearTags}
+                                onSortChange={setChampionSort}
+                            />
+                            {filteredChampions.length === 0 && champions.length > 0 && (
+                                <p style={{ padding: '0 20px', opacity: 0.7 }}>{t('champions.noMatches')}</p>
+                            )}
+                            <ChampionGrid
+                                champions={filteredChampions}
+                                championCompletion={championCompletion}
+                                apiVersion={latestVersion!}
+                                onOpen={openChampion}
+                            />
+                        </>
+                    )}
+                    {compareIds.length > 0 && route.name !== 'compare' && (
+                        <CompareTray
+                            compareIds={compareIds}
+                            skinIndex={skinIndex}
+                            onRemove={toggleCompare}
+                            onCompare={handleCompare}
+                            onClear={clearCompare}
+                        />
                     )}
                 </div>
-                <div style={styles.totalRpContainer}>
-                    <strong>Total Cost:</strong>
-                    <span>{totalRp.toLocaleString()} RP</span>
-                </div>
-            </div>
-            <div style={styles.mainPanel} className="main-panel">
-                <div style={styles.mainHeader}>
-                    <h2>All Champions</h2>
-                    <input
-                        type="text"
-                        placeholder="Search Champion..."
-                        value={searchTerm}
-                        onChange={(e) => setSearchTerm(e.target.value)}
-                        style={styles.searchInput}
+
+                {route.name === 'champion' && routeChampion && !routeNotFound && latestVersion && (
+                    <SkinModal
+                        champion={routeChampion}
+                        skinNum={route.skinNum}
+                        onSkinChange={skinNum => openChampion(routeChampion, skinNum)}
+                        onClose={() => navigate({ name: 'home' })}
+                        wishlists={lists}
+                        activeListId={activeList.id}
+                        onToggleFavorite={handleToggleFavorite}
+                        owned={owned}
+                        onToggleOwned={handleToggleOwned}
+                        compareIds={compareIds}
+                        onToggleCompare={toggleCompare}
+                        championDetailsCache={championDetailsCache}
+                        skinInfo={skinInfo}
+                        onSetCostOverride={setCostOverride}
+                        apiVersion={latestVersion}
                     />
-                </div>
-                <div style={styles.championGrid} className="champion-grid">
-                    {filteredChampions.map(champion => (
-                        <div key={champion.id} style={styles.championCard} className="champion-card" onClick={() => setSelectedChampion(champion)}>
-                            <img src={CHAMPION_ICON_URL(latestVersion!, champion.id)} alt={champion.name} style={styles.championImage} className="champion-image" />
-                            <span style={styles.championName}>{champion.name}</span>
-                        </div>
-                    ))}
-                </div>
+                )}
             </div>
-
-            {selectedChampion && latestVersion && (
-                <SkinModal
-                    champion={selectedChampion}
-                    onClose={() => setSelectedChampion(null)}
-                    favorites={favorites}
-                    onToggleFavorite={handleToggleFavorite}
-                    championDetailsCache={championDetailsCache}
-                    skinInfo={skinInfo}
-                    apiVersion={latestVersion}
-                />
-            )}
-        </div>
+        </I18nContext.Provider>
     );
 };
 
-// --- Styles ---
-const styles: { [key: string]: React.CSSProperties } = {
-    appContainer: {
-        display: 'flex',
-        height: '100vh',
-        fontFamily: "'Roboto', sans-serif",
-        backgroundColor: '#0a101b',
-        color: '#c4b998',
-    },
-    favoritesPanel: {
-        width: '350px',
-        backgroundColor: '#010a13',
-        borderRight: '2px solid #242a30',
-        display: 'flex',
-        flexDirection: 'column',
-        position: 'relative',
-        overflow: 'hidden',
-        flexShrink: 0,
-    },
-    favoritesList: {
-        overflowY: 'auto',
-        flex: 1,
-    },
-    mainPanel: {
-        flex: 1,
-        display: 'flex',
-        flexDirection: 'column',
-        overflow: 'hidden',
-    },
-    mainHeader: {
-        display: 'flex',
-        justifyContent: 'space-between',
-        alignItems: 'center',
-        padding: '10px 20px',
-        borderBottom: '2px solid #242a30',
-    },
-    championGrid: {
-        display: 'grid',
-        gridTemplateColumns: 'repeat(auto-fill, minmax(100px, 1fr))',
-        gap: '20px',
-        padding: '20px',
-        overflowY: 'auto',
-    },
-    championCard: {
-        textAlign: 'center',
-        cursor: 'pointer',
-        transition: 'transform 0.2s',
-    },
-    championImage: {
-        width: '80px',
-        height: '80px',
-        borderRadius: '50%',
-        border: '3px solid #c4b998',
-        transition: 'border-color 0.2s',
-    },
-    championName: {
-        display: 'block',
-        marginTop: '8px',
-        fontSize: '0.9em',
-        fontWeight: 500,
-    },
-    searchInput: {
-        padding: '8px 12px',
-        borderRadius: '4px',
-        border: '1px solid #c4b998',
-        backgroundColor: '#0a101b',
-        color: '#c4b998',
-        fontSize: '1em',
-    },
-    modalOverlay: {
-        position: 'fixed',
-        top: 0,
-        left: 0,
-        right: 0,
-        bottom: 0,
-        backgroundColor: 'rgba(0, 0, 0, 0.8)',
-        display: 'flex',
-        justifyContent: 'center',
-        alignItems: 'center',
-        zIndex: 1000,
-    },
-    modalContent: {
-        position: 'relative',
-        backgroundColor: '#010a13',
-        border: '2px solid #c4b998',
-        borderRadius: '8px',
-        padding: '20px',
-        width: '90%',
-        maxWidth: '1200px',
-        textAlign: 'center'
-    },
-    closeButton: {
-        position: 'absolute',
-        top: '10px',
-        right: '20px',
-        background: 'none',
-        border: 'none',
-        color: '#c4b998',
-        fontSize: '2.5rem',
-        cursor: 'pointer',
-    },
-    carouselContainer: {
-        position: 'relative',
-        width: '100%',
-        height: '70vh',
-        display: 'flex',
-        alignItems: 'center',
-        justifyContent: 'center',
-    },
-    carouselImage: {
-        width: '100%',
-        height: '100%',
-        objectFit: 'contain',
-        userSelect: 'none',
-    },
-    carouselButton: {
-        position: 'absolute',
-        top: '50%',
-        transform: 'translateY(-50%)',
-        backgroundColor: 'rgba(0,0,0,0.5)',
-        color: 'white',
-        border: 'none',
-        fontSize: '2rem',
-        padding: '10px',
-        cursor: 'pointer',
-        userSelect: 'none',
-        zIndex: 2,
-    },
-    carouselButtonPrev: { left: '10px' },
-    carouselButtonNext: { right: '10px' },
-    skinInfo: {
-        marginTop: '15px'
-    },
-    rpPrice: {
-        backgroundColor: '#1e282d',
-        color: '#cdbe93',
-        padding: '4px 10px',
-        borderRadius: '10px',
-        fontWeight: 'bold',
-        display: 'inline-block',
-        verticalAlign: 'middle',
-    },
-    favoriteButton: {
-        background: 'none',
-        border: 'none',
-        fontSize: '2rem',
-        cursor: 'pointer',
-        marginLeft: '15px',
-        verticalAlign: 'middle',
-    },
-    totalRpContainer: {
-        padding: '20px',
-        borderTop: '2px solid #242a30',
-        display: 'flex',
-        justifyContent: 'space-between',
-        fontSize: '1.2em',
-        backgroundColor: '#0a101b'
-    },
-    favoriteArtPreview: {
-        position: 'absolute',
-        top: 0,
-        left: 0,
-        width: '100%',
-        height: '100%',
-        pointerEvents: 'none',
-        zIndex: 0,
-    },
-    favoriteArtImage: {
-        width: '100%',
-        height: '100%',
-        objectFit: 'cover',
-        opacity: 0.1,
-        transition: 'opacity 0.3s ease-in-out',
-    },
-    favoriteItemInfo: {
-        display: 'flex',
-        flexDirection: 'column',
-    },
-    removeFavoriteButton: {
-        background: 'none',
-        border: '1px solid #555',
-        color: '#888',
-        width: '24px',
-        height: '24px',
-        borderRadius: '50%',
-        cursor: 'pointer',
-        fontSize: '1rem',
-        lineHeight: '22px',
-        textAlign: 'center',
-        opacity: 0.5,
-        transition: 'all 0.2s',
-    },
-};
-
 // --- Dynamic Stylesheet ---
 const styleSheet = document.createElement("style")
 styleSheet.innerText = `
@@ -597,8 +762,12 @@ styleSheet.innerText = `
     #root ::-webkit-scrollbar-track { background: #010a13; }
     #root ::-webkit-scrollbar-thumb { background: #242a30; border-radius: 4px; }
     #root ::-webkit-scrollbar-thumb:hover { background: #c4b998; }
-    .champion-card:hover { transform: scale(1.1); }
-    .champion-card:hover .champion-image { border-color: #f0e6d2; }
+    .champion-card:hover, .champion-card:focus-visible { transform: scale(1.1); }
+    .champion-card:hover .champion-image, .champion-card:focus-visible .champion-image { border-color: #f0e6d2; }
+
+    #root :focus-visible { outline: 2px solid #f0e6d2; outline-offset: 2px; }
+    #root .champion-card:focus-visible { outline: none; }
+    #root [role="dialog"]:focus { outline: none; }
 
     .remove-favorite-button:hover {
         opacity: 1 !important;
@@ -646,4 +815,5 @@ document.head.appendChild(styleSheet);
 
 const container = document.getElementById('root');
 const root = createRoot(container!);
-root.render(<App />);
\ No newline at end of file
+root.render(<App />);
+registerServiceWorker();
\ No newline at end of file
@@ -0,0 +1,147 @@
+// --- Startup Measurement ---
+// Loads the app into jsdom against the fixture mirror (`npm run fixture-mirror`) and reports how
+// long startup takes and how often each component rendered (`npm run perf`). It relies on nothing
+// inside the app, only on React's devtools hook and on `fetch`, so the same harness can measure
+// an older checkout: set PERF_ROOT to that checkout's directory.
+// - Requests to Data Dragon and CommunityDragon are sent to the mirror (PERF_MIRROR_URL, by
+//   default http://localhost:8080), whatever base URL the app was built with.
+// - `firstRender` is when React first committed, in milliseconds since the harness started
+//   importing the app. It's mostly the time taken to transform the app's modules.
+// - `championShown` is when the first fixture champion's name reached the page.
+// - `idle` is the last React commit before the app had no requests in flight and didn't commit
+//   for a second.
+// `championShown` and `idle` are milliseconds since that first commit, so they leave out module
+// loading and compare checkouts of different sizes fairly.
+
+import path from 'node:path';
+import { expect, test } from 'vitest';
+
+const ROOT = path.resolve(process.env.PERF_ROOT || '.');
+const MIRROR_URL = (process.env.PERF_MIRROR_URL || 'http://localhost:8080').replace(/\/+$/, '');
+const FIRST_CHAMPION = 'Fixture 1';
+const QUIET_MS = 1000;
+const TIMEOUT_MS = 120_000;
+
+const UPSTREAMS: [string, string][] = [
+    ['https://ddragon.leagueoflegends.com', `${MIRROR_URL}/ddragon`],
+    ['https://raw.communitydragon.org', `${MIRROR_URL}/cdragon`],
+];
+
+// Fiber tags of components that run user code when they render
+const FUNCTION_COMPONENT = 0;
+const CLASS_COMPONENT = 1;
+const FORWARD_REF = 11;
+const SIMPLE_MEMO_COMPONENT = 15;
+const PERFORMED_WORK = 1;
+
+interface Fiber {
+    tag: number;
+    type: { displayName?: string; name?: string; render?: { name?: string } } | string | null;
+    flags: number;
+    child: Fiber | null;
+    sibling: Fiber | null;
+}
+
+const componentName = (fiber: Fiber) => {
+    if (!fiber.type || typeof fiber.type === 'string') return 'Anonymous';
+    return fiber.type.displayName || fiber.type.name || fiber.type.render?.name || 'Anonymous';
+};
+
+test('startup', async () => {
+    const renders: Record<string, number> = {};
+    let commits = 0;
+    let firstCommit: number | undefined;
+    let lastCommit = 0;
+    let championShown: number | undefined;
+    let pending = 0;
+    let lastActivity = 0;
+
+    // React keeps two fibers per component and swaps them on every render, so a fiber that wasn't
+    // in the previous commit was rendered (or bailed out) in this one; PerformedWork tells which.
+    let previousFibers = new WeakSet<Fiber>();
+    const countRenders = (root: Fiber) => {
+        const fibers = new WeakSet<Fiber>();
+        const stack: Fiber[] = [root];
+        while (stack.length) {
+            const fiber = stack.pop()!;
+            fibers.add(fiber);
+            const isComponent = fiber.tag === FUNCTION_COMPONENT || fiber.tag === CLASS_COMPONENT
+                || fiber.tag === FORWARD_REF || fiber.tag === SIMPLE_MEMO_COMPONENT;
+            if (isComponent && !previousFibers.has(fiber) && (fiber.flags & PERFORMED_WORK)) {
+                const name = componentName(fiber);
+                renders[name] = (renders[name] ?? 0) + 1;
+            }
+            if (fiber.sibling) stack.push(fiber.sibling);
+            if (fiber.child) stack.push(fiber.child);
+        }
+        previousFibers = fibers;
+    };
+
+    const isChampionShown = () => {
+        const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+        while (walker.nextNode()) {
+            if (walker.currentNode.nodeValue === FIRST_CHAMPION) return true;
+        }
+        return false;
+    };
+
+    (globalThis as Record<string, unknown>).__REACT_DEVTOOLS_GLOBAL_HOOK__ = {
+        supportsFiber: true,
+        inject: () => 1,
+        onCommitFiberRoot: (_id: number, root: { current: Fiber }) => {
+            commits += 1;
+            lastCommit = lastActivity = performance.now();
+            firstCommit ??= lastCommit;
+            countRenders(root.current);
+            if (championShown === undefined && isChampionShown()) championShown = lastCommit;
+        },
+        onCommitFiberUnmount: () => {},
+        onPostCommitFiberRoot: () => {},
+    };
+
+    const fetchUpstream = globalThis.fetch;
+    globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+        let url = input instanceof Request ? input.url : String(input);
+        for (const [upstream, mirror] of UPSTREAMS) {
+            if (url.startsWith(upstream)) url = mirror + url.slice(upstream.length);
+        }
+        pending += 1;
+        try {
+            const response = await fetchUpstream(url, init);
+            // Read the body here so the request counts as in flight until the app could parse it
+            const body = await response.arrayBuffer();
+            return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+        } finally {
+            pending -= 1;
+            lastActivity = performance.now();
+        }
+    }) as typeof fetch;
+
+    // jsdom has no layout, so the virtualized grids only need ResizeObserver to exist
+    globalThis.ResizeObserver ??= class {
+        observe() {}
+        unobserve() {}
+        disconnect() {}
+    } as unknown as typeof ResizeObserver;
+
+    document.body.innerHTML = '<div id="root"></div>';
+    const start = performance.now();
+    await import(/* @vite-ignore */ `/@fs${path.join(ROOT, 'index.tsx')}`);
+    lastActivity = performance.now();
+
+    while (pending > 0 || performance.now() - lastActivity < QUIET_MS) {
+        if (performance.now() - start > TIMEOUT_MS) throw new Error('The app did not go idle; is the fixture mirror running?');
+        await new Promise(resolve => setTimeout(resolve, 50));
+    }
+
+    expect(championShown).toBeDefined();
+    const results = {
+        commits,
+        firstRender: Math.round(firstCommit! - start),
+        championShown: Math.round(championShown! - firstCommit!),
+        idle: Math.round(lastCommit - firstCommit!),
+    };
+    console.log(`Startup of ${ROOT}`);
+    console.table(results);
+    console.table(renders);
+}, TIMEOUT_MS + 10_000);
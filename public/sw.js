@@ -0,0 +1,181 @@
+// --- Service Worker ---
+// Keeps the app usable offline once it has loaded:
+// - App shell: index.html, the assets it references, the manifest and the icon are precached,
+//   and refreshed from every navigation that reaches the network.
+// - Data: Data Dragon JSON and icons for a version, and the CommunityDragon skin files, are
+//   served stale-while-revalidate. Versions older than the newest one in versions.json are
+//   dropped when the worker activates and whenever versions.json names a new one.
+// - Art: the page sends the splash and centered art of favorited skins, which is cached up to
+//   ART_CACHE_LIMIT images and served from the cache first.
+// Hosts aren't hard-coded, because the data sources can be pointed at a mirror.
+
+const SHELL_CACHE = 'shell-v1';
+const VERSIONS_CACHE = 'data-versions';
+const CDRAGON_CACHE = 'cdragon-data';
+const DDRAGON_CACHE_PREFIX = 'ddragon-';
+const ART_CACHE = 'favorite-art';
+const ART_CACHE_LIMIT = 100;
+// Not referenced from index.html's scripts or styles, and not content-hashed, so fetched on every refresh
+const SHELL_FILES = ['/manifest.webmanifest', '/icon.svg'];
+
+const KNOWN_CACHES = [SHELL_CACHE, VERSIONS_CACHE, CDRAGON_CACHE, ART_CACHE];
+
+const ddragonCacheName = (version) => `${DDRAGON_CACHE_PREFIX}${version}`;
+
+const VERSIONED_DATA = /\/cdn\/(\d+\.\d+\.\d+)\/(?:data|img\/champion)\//;
+const CDRAGON_DATA = /\/v1\/(?:skins|skinlines)\.json$/;
+const ART = /\/cdn\/img\/champion\/(?:splash|centered)\//;
+const SHELL_ASSET = /(?:src|href)="(\/assets\/[^"]+)"/g;
+
+// --- App Shell ---
+const cacheShell = async (html) => {
+    const cache = await caches.open(SHELL_CACHE);
+    const assets = Array.from(html.matchAll(SHELL_ASSET), match => new URL(match[1], self.location.origin).href);
+    const files = SHELL_FILES.map(file => new URL(file, self.location.origin).href);
+    await cache.put('/index.html', new Response(html, { headers: { 'Content-Type': 'text/html' } }));
+    await Promise.all([
+        ...assets.map(async url => {
+            if (!(await cache.match(url))) await cache.add(url);
+        }),
+        cache.addAll(files),
+    ]);
+    // Assets from earlier builds are no longer referenced
+    const keep = new Set([...assets, ...files, new URL('/index.html', self.location.origin).href]);
+    for (const request of await cache.keys()) {
+        const sameOrigin = new URL(request.url).origin === self.location.origin;
+        if (sameOrigin && !keep.has(request.url)) await cache.delete(request);
+    }
+};
+
+const refreshShell = () => fetch('/index.html', { cache: 'no-cache' })
+    .then(response => response.ok ? response.text() : Promise.reject(new Error(`HTTP ${response.status}`)))
+    .then(cacheShell);
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(refreshShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil((async () => {
+        for (const name of await caches.keys()) {
+            if (!KNOWN_CACHES.includes(name) && !name.startsWith(DDRAGON_CACHE_PREFIX)) await caches.delete(name);
+        }
+        const [versions] = await (await caches.open(VERSIONS_CACHE)).matchAll();
+        if (versions) await pruneData(await latestVersion(versions));
+        await self.clients.claim();
+    })());
+});
+
+// --- Data Versions ---
+/** The newest version in a versions.json response, or undefined if it isn't a list of versions. */
+const latestVersion = (response) => response.json()
+    .then(versions => Array.isArray(versions) && typeof versions[0] === 'string' ? versions[0] : undefined)
+    .catch(() => undefined);
+
+/** Drops Data Dragon caches for every version but `version`. */
+const pruneData = async (version) => {
+    if (!version) return;
+    for (const name of await caches.keys()) {
+        if (name.startsWith(DDRAGON_CACHE_PREFIX) && name !== ddragonCacheName(version)) await caches.delete(name);
+    }
+};
+
+const versionsList = async (event) => {
+    const response = await networkFirst(event.request, VERSIONS_CACHE);
+    if (response.ok) event.waitUntil(latestVersion(response.clone()).then(pruneData));
+    return response;
+};
+
+// --- Strategies ---
+const networkFirst = async (request, cacheName) => {
+    try {
+        const response = await fetch(request);
+        if (response.ok) (await caches.open(cacheName)).put(request, response.clone());
+        return response;
+    } catch (error) {
+        const cached = await caches.match(request, { cacheName });
+        if (cached) return cached;
+        throw error;
+    }
+};
+
+const staleWhileRevalidate = async (event, cacheName) => {
+    const cache = await caches.open(cacheName);
+    const cached = await cache.match(event.request);
+    const revalidate = fetch(event.request).then(response => {
+        if (response.ok) return cache.put(event.request, response.clone()).then(() => response);
+        return response;
+    });
+    if (!cached) return revalidate;
+    event.waitUntil(revalidate.catch(() => {
+        // Offline: the cached copy stands
+    }));
+    return cached;
+};
+
+const navigation = async (request) => {
+    try {
+        const response = await fetch(request);
+        if (response.ok) response.clone().text().then(cacheShell).catch(() => {});
+        return response;
+    } catch (error) {
+        // Every route is served by index.html, so the cached shell covers deep links too
+        const cached = await caches.match('/index.html', { cacheName: SHELL_CACHE });
+        if (cached) return cached;
+        throw error;
+    }
+};
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+
+    if (request.mode === 'navigate') {
+        event.respondWith(navigation(request));
+    } else if (url.pathname.endsWith('/api/versions.json')) {
+        // The newest version decides what everything else loads, so prefer a fresh answer
+        event.respondWith(versionsList(event));
+    } else if (VERSIONED_DATA.test(url.pathname)) {
+        event.respondWith(staleWhileRevalidate(event, ddragonCacheName(VERSIONED_DATA.exec(url.pathname)[1])));
+    } else if (CDRAGON_DATA.test(url.pathname)) {
+        event.respondWith(staleWhileRevalidate(event, CDRAGON_CACHE));
+    } else if (ART.test(url.pathname)) {
+        event.respondWith(caches.match(request.url, { cacheName: ART_CACHE, ignoreVary: true }).then(cached => cached ?? fetch(request)));
+    } else if (url.origin === self.location.origin && SHELL_FILES.includes(url.pathname)) {
+        event.respondWith(networkFirst(request, SHELL_CACHE));
+    } else if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+        event.respondWith(caches.match(request, { cacheName: SHELL_CACHE }).then(cached => cached ?? networkFirst(request, SHELL_CACHE)));
+    } else if (request.destination === 'style' || request.destination === 'font') {
+        // Fonts and icon styles from their CDNs
+        event.respondWith(staleWhileRevalidate(event, SHELL_CACHE));
+    }
+});
+
+// --- Messages from the page ---
+/** Makes the art cache hold the first ART_CACHE_LIMIT of `urls` and nothing else. */
+const syncArt = async (urls) => {
+    const cache = await caches.open(ART_CACHE);
+    const wanted = new Set(urls.slice(0, ART_CACHE_LIMIT));
+    for (const request of await cache.keys()) {
+        if (!wanted.has(request.url)) await cache.delete(request);
+    }
+    for (const url of wanted) {
+        if (await cache.match(url, { ignoreVary: true })) continue;
+        try {
+            const response = await fetch(url, { mode: 'cors' });
+            if (response.ok) await cache.put(url, response);
+        } catch (error) {
+            // Offline, or the host doesn't allow it; try again on the next sync
+        }
+    }
+};
+
+self.addEventListener('message', (event) => {
+    const message = event.data;
+    if (message?.type === 'syncArt' && Array.isArray(message.urls)) {
+        event.waitUntil(syncArt(message.urls));
+    } else if (message?.type === 'pruneData' && typeof message.version === 'string') {
+        event.waitUntil(pruneData(message.version));
+    }
+});
@@ -0,0 +1,142 @@
+// --- Fixture Mirror ---
+// Serves generated Data Dragon and CommunityDragon data (`npm run fixture-mirror`) so performance
+// runs load the same data every time and don't depend on Riot's servers. The data is built from
+// the champion index alone, so every run of the same size serves identical files:
+// - /ddragon/... answers versions.json, champion.json, championFull.json and per-champion files
+//   for two versions in any locale.
+// - /cdragon/... answers skins.json and skinlines.json for any locale.
+// - Every image path answers the same small placeholder.
+// Point the app at it with DDRAGON_BASE_URL=http://localhost:8080/ddragon and
+// CDRAGON_BASE_URL=http://localhost:8080/cdragon in `.env.local`.
+
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.FIXTURE_PORT) || 8080;
+const CHAMPION_COUNT = Number(process.env.FIXTURE_CHAMPIONS) || 170;
+const VERSIONS = ['15.2.1', '15.1.1'];
+const ROLES = ['Assassin', 'Fighter', 'Mage', 'Marksman', 'Support', 'Tank'];
+const RARITIES = ['kNoRarity', 'kNoRarity', 'kEpic', 'kEpic', 'kLegendary', 'kMythic', 'kUltimate'];
+const COSTS = [520, 750, 975, 1350, 1350, 1820, 3250];
+const SKIN_LINES = ['Arcade', 'Blood Moon', 'Coven', 'Dawnbringer', 'Empyrean', 'Faerie Court', 'High Noon', 'Lunar Revel',
+    'Odyssey', 'Pool Party', 'PROJECT', 'Soul Fighter', 'Spirit Blossom', 'Star Guardian', 'Winterblessed'];
+
+const PLACEHOLDER_IMAGE = '<svg xmlns="http://www.w3.org/2000/svg" width="308" height="560"><rect width="100%" height="100%" fill="#1e2328"/></svg>';
+
+const pad = (n) => String(n).padStart(3, '0');
+
+/** Champions 1..N; the newer version adds the last champion and one skin to every fifth champion. */
+const buildChampions = (version) => {
+    const latest = version === VERSIONS[0];
+    const count = latest ? CHAMPION_COUNT : CHAMPION_COUNT - 1;
+    return Array.from({ length: count }, (_, i) => {
+        const index = i + 1;
+        const id = `Fixture${pad(index)}`;
+        const key = String(index);
+        const skinCount = 4 + (index * 7) % 13 + (latest && index % 5 === 0 ? 1 : 0);
+        const skins = Array.from({ length: skinCount }, (_, num) => ({
+            id: String(index * 1000 + num),
+            num,
+            name: num === 0 ? 'default' : `${SKIN_LINES[(index + num) % SKIN_LINES.length]} Fixture ${index}`,
+            chromas: num % 3 === 1,
+        }));
+        return {
+            id,
+            key,
+            name: `Fixture ${index}`,
+            title: `the ${ROLES[index % ROLES.length]} of Fixtures`,
+            blurb: `Champion number ${index}, generated for measuring the app.<br>It has ${skinCount - 1} skins.`,
+            tags: index % 4 === 0 ? [ROLES[index % ROLES.length], ROLES[(index + 2) % ROLES.length]] : [ROLES[index % ROLES.length]],
+            info: { attack: index % 10, defense: (index * 3) % 10, magic: (index * 7) % 10, difficulty: (index * 5) % 10 + 1 },
+            skins,
+        };
+    });
+};
+
+const summaryOf = ({ skins, ...champion }) => champion;
+
+const championData = (version, champions) => ({
+    type: 'champion',
+    version,
+    data: Object.fromEntries(champions.map(champion => [champion.id, champion])),
+});
+
+const buildSkinInfo = () => {
+    const entries = {};
+    for (const champion of buildChampions(VERSIONS[0])) {
+        for (const skin of champion.skins) {
+            const id = Number(skin.id);
+            const n = id % 1000;
+            const entry = {
+                id,
+                name: skin.name === 'default' ? champion.name : skin.name,
+                isBase: n === 0,
+                rarity: n === 0 ? 'kNoRarity' : RARITIES[id % RARITIES.length],
+                isLegacy: n !== 0 && id % 11 === 0,
+                skinLines: n === 0 ? null : [{ id: (Number(champion.key) + n) % SKIN_LINES.length + 1 }],
+            };
+            if (n !== 0 && id % 17 !== 0) entry.cost = COSTS[id % COSTS.length];
+            if (entry.cost && id % 9 === 0) entry.saleCost = Math.round(entry.cost * 0.6);
+            if (skin.chromas) {
+                entry.chromas = [0, 1, 2].map(c => ({
+                    id: id * 1000 + c + 1,
+                    name: `${entry.name} (Chroma ${c + 1})`,
+                    chromaPath: `/lol-game-data/assets/v1/champion-chroma-images/${champion.key}/${id * 1000 + c + 1}.png`,
+                    colors: ['#6f2da8', '#d4af37'],
+                    ...(c < 2 && { cost: 290 }),
+                }));
+            }
+            entries[id] = entry;
+        }
+    }
+    return entries;
+};
+
+const buildSkinLines = () => SKIN_LINES.map((name, i) => ({ id: i + 1, name, description: `The ${name} universe.` }));
+
+const DDRAGON_DATA = /^\/ddragon\/cdn\/([\d.]+)\/data\/[\w]+\/(champion\.json|championFull\.json|champion\/(\w+)\.json)$/;
+const CDRAGON_DATA = /^\/cdragon\/latest\/plugins\/rcp-be-lol-game-data\/global\/[\w]+\/v1\/(skins|skinlines)\.json$/;
+const IMAGE = /\.(png|jpg)$/;
+
+const cache = new Map();
+
+/** Builds each file once; the contents only depend on the path. */
+const memo = (key, build) => {
+    if (!cache.has(key)) cache.set(key, JSON.stringify(build()));
+    return cache.get(key);
+};
+
+const resolve = (pathname) => {
+    if (pathname === '/ddragon/api/versions.json') return memo('versions', () => VERSIONS);
+    const ddragon = DDRAGON_DATA.exec(pathname);
+    if (ddragon && VERSIONS.includes(ddragon[1])) {
+        const [, version, file, championId] = ddragon;
+        if (file === 'champion.json') return memo(`summary ${version}`, () => championData(version, buildChampions(version).map(summaryOf)));
+        if (file === 'championFull.json') return memo(`full ${version}`, () => championData(version, buildChampions(version)));
+        const champion = buildChampions(version).find(c => c.id === championId);
+        return champion ? memo(`detail ${version} ${championId}`, () => championData(version, [champion])) : undefined;
+    }
+    const cdragon = CDRAGON_DATA.exec(pathname);
+    if (cdragon) return cdragon[1] === 'skins' ? memo('skins', buildSkinInfo) : memo('skinlines', buildSkinLines);
+    return undefined;
+};
+
+const server = createServer((req, res) => {
+    const { pathname } = new URL(req.url, 'http://localhost');
+    // The app runs on another port, so every response allows cross-origin use
+    const headers = { 'Access-Control-Allow-Origin': '*', 'Cache-Control': 'no-store' };
+    if (IMAGE.test(pathname)) {
+        res.writeHead(200, { ...headers, 'Content-Type': 'image/svg+xml' });
+        return res.end(PLACEHOLDER_IMAGE);
+    }
+    const body = resolve(pathname);
+    if (body === undefined) {
+        res.writeHead(404, { ...headers, 'Content-Type': 'application/json' });
+        return res.end(JSON.stringify({ error: 'Not in the fixture.' }));
+    }
+    res.writeHead(200, { ...headers, 'Content-Type': 'application/json' });
+    res.end(body);
+});
+
+server.listen(PORT, () => {
+    console.log(`Fixture mirror with ${CHAMPION_COUNT} champions on http://localhost:${PORT}/ddragon and http://localhost:${PORT}/cdragon`);
+});
@@ -0,0 +1,110 @@
+// --- Reference Sync Server ---
+// A small server for trying favorites sync locally (`npm run sync-server`). It keeps one snapshot
+// per path under /favorites/, e.g. /favorites/me, in memory and in a JSON file:
+// - GET answers the snapshot `{lists, revision, updatedAt}`, or 404 if nothing was pushed yet.
+// - PUT `{lists, updatedAt, baseRevision}` stores the lists as the next revision if
+//   `baseRevision` matches the current one (null for the first push), and answers 409 with the
+//   current snapshot otherwise.
+// It trusts its clients and only checks the shape of what they send; don't expose it publicly.
+
+import { createServer } from 'node:http';
+import { readFileSync, writeFileSync } from 'node:fs';
+
+const PORT = Number(process.env.SYNC_PORT) || 8787;
+const DATA_FILE = process.env.SYNC_DATA_FILE || 'sync-data.json';
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const PATH = /^\/favorites\/([\w-]{1,64})$/;
+
+const loadSnapshots = () => {
+    try {
+        return new Map(Object.entries(JSON.parse(readFileSync(DATA_FILE, 'utf8'))));
+    } catch (error) {
+        return new Map();
+    }
+};
+
+const snapshots = loadSnapshots();
+
+const saveSnapshots = () => writeFileSync(DATA_FILE, JSON.stringify(Object.fromEntries(snapshots)));
+
+const send = (res, status, body, headers = {}) => {
+    res.writeHead(status, {
+        ...headers,
+        'Content-Type': 'application/json',
+        // The app runs on another port, so every response allows cross-origin use
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+    });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+class BodyTooLargeError extends Error {}
+
+/** Stops reading (and leaves the rest of the body unread) once it's over MAX_BODY_BYTES. */
+const readBody = (req) => new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    const handleData = chunk => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            req.off('data', handleData);
+            req.pause();
+            reject(new BodyTooLargeError('Body too large'));
+            return;
+        }
+        chunks.push(chunk);
+    };
+    req.on('data', handleData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+});
+
+const isValidPush = (body) => Array.isArray(body?.lists)
+    && body.lists.every(list => typeof list?.id === 'string' && typeof list.name === 'string' && Array.isArray(list.skins))
+    && typeof body.updatedAt === 'number'
+    && (body.baseRevision === null || typeof body.baseRevision === 'number');
+
+const handlePut = async (req, res, key) => {
+    let body;
+    try {
+        body = JSON.parse(await readBody(req));
+    } catch (error) {
+        if (!(error instanceof BodyTooLargeError)) return send(res, 400, { error: 'Expected a JSON body.' });
+        // Answer before dropping the connection, so the client sees the 413 rather than a reset
+        res.once('finish', () => req.destroy());
+        return send(res, 413, { error: 'The lists are too large.' }, { Connection: 'close' });
+    }
+    if (!isValidPush(body)) return send(res, 400, { error: 'Expected {lists, updatedAt, baseRevision}.' });
+
+    const current = snapshots.get(key);
+    if ((current?.revision ?? null) !== body.baseRevision) return send(res, 409, current);
+
+    const snapshot = { lists: body.lists, revision: (current?.revision ?? 0) + 1, updatedAt: body.updatedAt };
+    snapshots.set(key, snapshot);
+    saveSnapshots();
+    send(res, 200, snapshot);
+};
+
+const server = createServer((req, res) => {
+    const key = PATH.exec(new URL(req.url, 'http://localhost').pathname)?.[1];
+    if (req.method === 'OPTIONS') return send(res, 204);
+    if (!key) return send(res, 404, { error: 'Not found.' });
+
+    if (req.method === 'GET') {
+        const snapshot = snapshots.get(key);
+        return snapshot ? send(res, 200, snapshot) : send(res, 404, { error: 'Nothing synced yet.' });
+    }
+    if (req.method === 'PUT') {
+        handlePut(req, res, key).catch(error => {
+            console.error(error);
+            send(res, 500, { error: 'Could not store the lists.' });
+        });
+        return;
+    }
+    send(res, 405, { error: 'Method not allowed.' });
+});
+
+server.listen(PORT, () => {
+    console.log(`Favorites sync server on http://localhost:${PORT}/favorites/<name>, storing in ${DATA_FILE}`);
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import type { FavoriteSkin, SkinInfo } from '../types';
+import { planBudget } from './budgetPlanner';
+
+const favorite = (id: number): FavoriteSkin =>
+    ({ id: String(id), num: id % 1000, name: `Skin ${id}`, chromas: false, championId: 'Ahri', championName: 'Ahri' });
+
+const info = (price: number): SkinInfo =>
+    ({ price, costs: [{ currency: 'rp', amount: price }], rarity: 'none', isBase: false, isLegacy: false, isLimited: false });
+
+const catalog = (prices: number[]) => {
+    const favorites = prices.map((_, i) => favorite(103001 + i));
+    const skinInfo = new Map(prices.map((price, i) => [103001 + i, info(price)]));
+    return { favorites, skinInfo };
+};
+
+describe('planBudget', () => {
+    it('picks the most skins that fit, spending as little as possible', () => {
+        const { favorites, skinInfo } = catalog([1350, 520, 975, 750]);
+        const plan = planBudget(favorites, skinInfo, 2300, 'count');
+        expect(plan.picked.map(fav => fav.id)).toEqual(['103002', '103003', '103004']);
+        expect(plan.total).toBe(2245);
+        expect(plan.skipped.map(fav => fav.id)).toEqual(['103001']);
+    });
+
+    it('stays within budget and finishes quickly on a long list with odd prices', () => {
+        // Prices with no common step would otherwise need a table of 400 × ~480,000 cells
+        const { favorites, skinInfo } = catalog(Array.from({ length: 400 }, (_, i) => 1001 + i));
+        const started = performance.now();
+        const plan = planBudget(favorites, skinInfo, 300_001, 'count');
+        expect(performance.now() - started).toBeLessThan(2000);
+        expect(plan.total).toBeLessThanOrEqual(300_001);
+        expect(plan.picked.length).toBeGreaterThan(250);
+    });
+});
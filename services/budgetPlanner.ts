@@ -0,0 +1,169 @@
+import type { FavoriteSkin, SkinInfo } from '../types';
+import { PRIORITIES } from './favoriteOrganizer';
+import { rarityRank } from './skinMetadata';
+
+// --- RP Bundles ---
+export interface RpBundle {
+    rp: number;
+    /** In the settings' currency, e.g. 4.99. */
+    price: number;
+}
+
+/** The North American store at the time of writing; other regions can edit them in the planner. */
+export const DEFAULT_BUNDLES: RpBundle[] = [
+    { rp: 575, price: 4.99 },
+    { rp: 1380, price: 10.99 },
+    { rp: 2800, price: 21.99 },
+    { rp: 4500, price: 34.99 },
+    { rp: 6500, price: 49.99 },
+    { rp: 13900, price: 99.99 },
+];
+export const DEFAULT_CURRENCY = 'USD';
+
+const toCents = (price: number) => Math.round(price * 100);
+
+const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b);
+
+/** Works in steps of the largest unit every amount is a multiple of, which keeps the tables small. */
+const commonStep = (amounts: number[]) => amounts.reduce(gcd, 0) || 1;
+
+export interface BundlePurchase {
+    /** How many of each bundle to buy, in the order of `bundles`, leaving out bundles not bought. */
+    bundles: { bundle: RpBundle, count: number }[];
+    rp: number;
+    price: number;
+}
+
+const validBundles = (bundles: RpBundle[]) => bundles.filter(bundle => bundle.rp > 0 && bundle.price > 0);
+
+/** The cheapest set of bundles giving at least `rp`, or null if there are no bundles. */
+export const cheapestBundles = (rp: number, bundles: RpBundle[]): BundlePurchase | null => {
+    const usable = validBundles(bundles);
+    if (rp <= 0) return { bundles: [], rp: 0, price: 0 };
+    if (usable.length === 0) return null;
+
+    // cost[i]: cheapest way (in cents) to get at least i steps of RP
+    const step = commonStep(usable.map(bundle => bundle.rp));
+    const target = Math.ceil(rp / step);
+    const cost = new Array<number>(target + 1).fill(Infinity);
+    const choice = new Array<number>(target + 1).fill(-1);
+    cost[0] = 0;
+    for (let i = 1; i <= target; i++) {
+        usable.forEach((bundle, b) => {
+            const candidate = cost[Math.max(0, i - bundle.rp / step)] + toCents(bundle.price);
+            if (candidate < cost[i]) {
+                cost[i] = candidate;
+                choice[i] = b;
+            }
+        });
+    }
+
+    const counts = new Array<number>(usable.length).fill(0);
+    for (let i = target; i > 0; i = Math.max(0, i - usable[choice[i]].rp / step)) counts[choice[i]]++;
+    const bought = usable.map((bundle, b) => ({ bundle, count: counts[b] })).filter(({ count }) => count > 0);
+    return {
+        bundles: bought,
+        rp: bought.reduce((sum, { bundle, count }) => sum + bundle.rp * count, 0),
+        price: cost[target] / 100,
+    };
+};
+
+/** The most RP that `money` can buy with `bundles`. */
+export const maxRpFor = (money: number, bundles: RpBundle[]): number => {
+    const usable = validBundles(bundles);
+    if (usable.length === 0 || money <= 0) return 0;
+    const step = commonStep(usable.map(bundle => toCents(bundle.price)));
+    const budget = Math.floor(toCents(money) / step);
+    const best = new Array<number>(budget + 1).fill(0);
+    for (let i = 1; i <= budget; i++) {
+        for (const bundle of usable) {
+            const price = toCents(bundle.price) / step;
+            if (price <= i) best[i] = Math.max(best[i], best[i - price] + bundle.rp);
+        }
+    }
+    return best[budget];
+};
+
+
+// --- Picking Favorites ---
+export type BudgetGoal = 'count' | 'rarity';
+
+export interface BudgetPlan {
+    /** In list order. */
+    picked: FavoriteSkin[];
+    total: number;
+    /** Favorites with an RP price that didn't fit. */
+    skipped: FavoriteSkin[];
+}
+
+const goalValue = (goal: BudgetGoal, info: SkinInfo) => goal === 'count' ? 1 : rarityRank(info.rarity) + 1;
+
+/** Caps the knapsack table (items × budget steps) so odd prices on a long list stay fast. */
+const MAX_TABLE_CELLS = 2_000_000;
+
+/**
+ * 0/1 knapsack: the items worth the most within `budget`, and among those the cheapest set.
+ * Returns the indices of the chosen items. When the exact table would be too large, prices are
+ * rounded up to a coarser step, so the pick never goes over budget but may leave a little unspent.
+ */
+const bestSubset = (items: { price: number, value: number }[], budget: number): number[] => {
+    if (items.length === 0 || budget <= 0) return [];
+    // Budget beyond what everything costs can't change the answer
+    const limit = Math.min(budget, items.reduce((sum, item) => sum + item.price, 0));
+    const exactStep = commonStep(items.map(item => item.price));
+    const step = Math.max(exactStep, Math.ceil(limit * items.length / MAX_TABLE_CELLS));
+    const weights = items.map(item => Math.ceil(item.price / step));
+    const capacity = Math.floor(limit / step);
+    // value[c]: best value spending exactly c steps; -1 where that total can't be reached
+    const value = new Array<number>(capacity + 1).fill(-1);
+    const taken = items.map(() => new Uint8Array(capacity + 1));
+    value[0] = 0;
+    items.forEach((item, i) => {
+        const weight = weights[i];
+        for (let c = capacity; c >= weight; c--) {
+            if (value[c - weight] < 0 || value[c - weight] + item.value <= value[c]) continue;
+            value[c] = value[c - weight] + item.value;
+            taken[i][c] = 1;
+        }
+    });
+
+    let spent = 0;
+    for (let c = 1; c <= capacity; c++) if (value[c] > value[spent]) spent = c;
+    const chosen: number[] = [];
+    for (let i = items.length - 1; i >= 0 && spent > 0; i--) {
+        if (!taken[i][spent]) continue;
+        chosen.push(i);
+        spent -= weights[i];
+    }
+    return chosen;
+};
+
+/**
+ * Suggests the favorites to buy with `budget` RP. Priorities are filled in order, so a lower
+ * priority skin never displaces a higher one; within a priority (and for favorites without
+ * one) the pick maximizes the number of skins or their combined rarity. Favorites without an
+ * RP price can't be bought and are left out.
+ */
+export const planBudget = (favorites: FavoriteSkin[], skinInfo: Map<number, SkinInfo>, budget: number, goal: BudgetGoal): BudgetPlan => {
+    const buyable = favorites.flatMap(fav => {
+        const info = skinInfo.get(parseInt(fav.id));
+        return info && info.price > 0 ? [{ fav, info }] : [];
+    });
+    const pickedIds = new Set<string>();
+    let remaining = Math.max(0, budget);
+    for (const priority of [...PRIORITIES, undefined]) {
+        const tier = buyable.filter(({ fav }) => fav.priority === priority);
+        const items = tier.map(({ info }) => ({ price: info.price, value: goalValue(goal, info) }));
+        for (const i of bestSubset(items, remaining)) {
+            pickedIds.add(tier[i].fav.id);
+            remaining -= tier[i].info.price;
+        }
+    }
+
+    const picked = buyable.filter(({ fav }) => pickedIds.has(fav.id));
+    return {
+        picked: picked.map(({ fav }) => fav),
+        total: picked.reduce((sum, { info }) => sum + info.price, 0),
+        skipped: buyable.filter(({ fav }) => !pickedIds.has(fav.id)).map(({ fav }) => fav),
+    };
+};
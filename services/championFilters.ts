@@ -0,0 +1,69 @@
+import type { Champion, ChampionFull, Wishlist } from '../types';
+
+// --- Champion Filters ---
+export type ChampionSort = 'name' | 'skins' | 'favorites';
+
+export interface ChampionFilters {
+    /** Roles to show; a champion matches if it has any of them. Empty shows every champion. */
+    tags: string[];
+    sort: ChampionSort;
+}
+
+export const DEFAULT_CHAMPION_FILTERS: ChampionFilters = { tags: [], sort: 'name' };
+
+export const CHAMPION_SORTS: ChampionSort[] = ['name', 'skins', 'favorites'];
+
+/** The roles Data Dragon uses in every locale; any other tag is shown as is. */
+export const CHAMPION_ROLES = ['Assassin', 'Fighter', 'Mage', 'Marksman', 'Support', 'Tank'] as const;
+export type ChampionRole = typeof CHAMPION_ROLES[number];
+
+export const isChampionRole = (tag: string): tag is ChampionRole => (CHAMPION_ROLES as readonly string[]).includes(tag);
+
+/** Lists the roles present in the summary, alphabetically, for building filter chips. */
+export const collectChampionTags = (champions: Champion[]): string[] =>
+    [...new Set(champions.flatMap(champion => champion.tags))].sort((a, b) => a.localeCompare(b));
+
+/** Counts each champion's favorited skins and chromas, once each however many lists hold them. */
+export const countFavoritesByChampion = (lists: Wishlist[]): Map<string, number> => {
+    const skinIds = new Map<string, string>();
+    for (const list of lists) {
+        for (const fav of list.skins) skinIds.set(fav.id, fav.championId);
+    }
+    const counts = new Map<string, number>();
+    for (const championId of skinIds.values()) counts.set(championId, (counts.get(championId) ?? 0) + 1);
+    return counts;
+};
+
+/**
+ * Filters champions by name and role and sorts them. Skin counts leave out the base skin and
+ * come from loaded details, so champions whose details aren't loaded yet sort last.
+ */
+export const filterChampions = (
+    champions: Champion[],
+    query: string,
+    filters: ChampionFilters,
+    championDetailsCache: Map<string, ChampionFull>,
+    favoriteCounts: Map<string, number>,
+): Champion[] => {
+    const term = query.trim().toLowerCase();
+    const tags = new Set(filters.tags);
+    const results = champions.filter(champion =>
+        (!term || champion.name.toLowerCase().includes(term))
+        && (tags.size === 0 || champion.tags.some(tag => tags.has(tag)))
+    );
+
+    const byName = (a: Champion, b: Champion) => a.name.localeCompare(b.name);
+    const skinCount = (champion: Champion) => {
+        const details = championDetailsCache.get(champion.id);
+        return details ? details.skins.length - 1 : -1;
+    };
+    const favoriteCount = (champion: Champion) => favoriteCounts.get(champion.id) ?? 0;
+    switch (filters.sort) {
+        case 'skins':
+            return results.sort((a, b) => skinCount(b) - skinCount(a) || byName(a, b));
+        case 'favorites':
+            return results.sort((a, b) => favoriteCount(b) - favoriteCount(a) || byName(a, b));
+        default:
+            return results.sort(byName);
+    }
+};
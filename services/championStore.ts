@@ -0,0 +1,63 @@
+import type { ChampionFull } from '../types';
+
+// --- Champion Store ---
+// Holds the loaded champion details outside React state. Details fetched one at a time are
+// queued and published together every `batchMs`, so startup re-renders the app a handful of
+// times instead of once per champion. Each publish is a new Map; snapshots are never mutated.
+
+export interface ChampionStore {
+    getSnapshot: () => Map<string, ChampionFull>;
+    subscribe: (listener: () => void) => () => void;
+    /** Queues details to be published with the next batch. */
+    add: (details: ChampionFull) => void;
+    /** Publishes `details` immediately, dropping anything queued. */
+    replace: (details: Map<string, ChampionFull>) => void;
+    /** Publishes anything queued without waiting for the batch timer. */
+    flush: () => void;
+}
+
+export const DEFAULT_BATCH_MS = 200;
+
+export const createChampionStore = (batchMs = DEFAULT_BATCH_MS): ChampionStore => {
+    let snapshot = new Map<string, ChampionFull>();
+    let pending = new Map<string, ChampionFull>();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const listeners = new Set<() => void>();
+
+    const publish = (next: Map<string, ChampionFull>) => {
+        snapshot = next;
+        listeners.forEach(listener => listener());
+    };
+
+    const cancelTimer = () => {
+        if (timer !== null) clearTimeout(timer);
+        timer = null;
+    };
+
+    const flush = () => {
+        cancelTimer();
+        if (pending.size === 0) return;
+        const next = new Map(snapshot);
+        for (const [id, details] of pending) next.set(id, details);
+        pending = new Map();
+        publish(next);
+    };
+
+    return {
+        getSnapshot: () => snapshot,
+        subscribe: listener => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+        add: details => {
+            pending.set(details.id, details);
+            if (timer === null) timer = setTimeout(flush, batchMs);
+        },
+        replace: details => {
+            cancelTimer();
+            pending = new Map();
+            publish(new Map(details));
+        },
+        flush,
+    };
+};
@@ -0,0 +1,266 @@
+import type { Champion, ChampionFull, SkinInfo, SkinLine } from '../types';
+
+// --- Persistent Data Cache ---
+// Champion data and skin info are stored in IndexedDB keyed by the Data Dragon version and
+// locale (see cacheVersion), so a reload on the same patch starts from cache instead of
+// refetching every champion.
+// Every operation degrades to a no-op when IndexedDB is unavailable (e.g. private browsing).
+
+const DB_NAME = 'lolSkinsCache';
+const DB_VERSION = 3;
+const STORE = 'entries';
+const VERSION_INDEX = 'byVersion';
+const SNAPSHOT_STORE = 'priceSnapshots';
+
+/** How many days of price snapshots to keep. */
+export const MAX_PRICE_SNAPSHOTS = 90;
+
+/** Upper bound on the serialized size of everything in the cache, in characters. */
+export const CACHE_SIZE_LIMIT = 8 * 1024 * 1024;
+
+type EntryKind = 'summary' | 'details' | 'skinInfo' | 'skinLines' | 'manifest';
+
+interface CacheEntry {
+    key: string;
+    version: string;
+    kind: EntryKind;
+    value: unknown;
+    size: number;
+    updatedAt: number;
+}
+
+export interface CachedChampionData {
+    champions: Champion[] | null;
+    details: Map<string, ChampionFull>;
+}
+
+/** The data is localized, so each locale of a version is cached separately. */
+export const cacheVersion = (version: string, locale: string) => `${version}/${locale}`;
+
+const entryKey = (version: string, kind: EntryKind, id = '') => `${version}:${kind}:${id}`;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+    if (!dbPromise) {
+        dbPromise = new Promise(resolve => {
+            if (typeof indexedDB === 'undefined') return resolve(null);
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                if (event.oldVersion < 1) {
+                    const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+                    store.createIndex(VERSION_INDEX, 'version');
+                }
+                if (event.oldVersion < 2) request.result.createObjectStore(SNAPSHOT_STORE, { keyPath: 'date' });
+                // Version 2 gave unpriced chromas a made-up price; drop that skin info so it's fetched again
+                if (event.oldVersion === 2) request.transaction?.objectStore(STORE).clear();
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.warn('IndexedDB unavailable, caching disabled:', request.error);
+                resolve(null);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+const getEntriesForVersion = async (version: string): Promise<CacheEntry[]> => {
+    const db = await openDb();
+    if (!db) return [];
+    const index = db.transaction(STORE, 'readonly').objectStore(STORE).index(VERSION_INDEX);
+    return promisify(index.getAll(version) as IDBRequest<CacheEntry[]>);
+};
+
+const putEntries = async (version: string, kind: EntryKind, items: { id?: string; value: unknown }[]) => {
+    const db = await openDb();
+    if (!db || items.length === 0) return;
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const updatedAt = Date.now();
+    for (const { id, value } of items) {
+        const entry: CacheEntry = { key: entryKey(version, kind, id), version, kind, value, size: JSON.stringify(value).length, updatedAt };
+        store.put(entry);
+    }
+    await transactionDone(tx);
+};
+
+const ignoreFailure = (action: string) => (error: unknown) => {
+    console.warn(`Cache ${action} failed:`, error);
+};
+
+export const loadCachedChampionData = async (version: string): Promise<CachedChampionData> => {
+    const result: CachedChampionData = { champions: null, details: new Map() };
+    try {
+        for (const entry of await getEntriesForVersion(version)) {
+            if (entry.kind === 'summary') {
+                const champions = entry.value as Champion[];
+                // Summaries cached before roles were kept have no tags; fetch them again
+                if (champions.every(champion => Array.isArray(champion.tags))) result.champions = champions;
+            }
+            if (entry.kind === 'details') {
+                const details = entry.value as ChampionFull;
+                result.details.set(details.id, details);
+            }
+        }
+    } catch (error) {
+        ignoreFailure('read')(error);
+    }
+    return result;
+};
+
+export const loadCachedSkinInfo = async (version: string): Promise<Map<number, SkinInfo> | null> => {
+    try {
+        const entry = (await getEntriesForVersion(version)).find(e => e.kind === 'skinInfo');
+        if (!entry) return null;
+        const entries = entry.value as [number, SkinInfo][];
+        // Entries cached before skin flags and costs were kept are missing fields; fetch them again
+        if (entries.length > 0 && (typeof entries[0][1].isBase !== 'boolean' || !Array.isArray(entries[0][1].costs))) return null;
+        return new Map(entries);
+    } catch (error) {
+        ignoreFailure('read')(error);
+        return null;
+    }
+};
+
+export const loadCachedSkinLines = async (version: string): Promise<SkinLine[] | null> => {
+    try {
+        const entry = (await getEntriesForVersion(version)).find(e => e.kind === 'skinLines');
+        return entry ? entry.value as SkinLine[] : null;
+    } catch (error) {
+        ignoreFailure('read')(error);
+        return null;
+    }
+};
+
+/** Loads the full champion list of any version, as cached for version comparisons. */
+export const loadCachedManifest = async (version: string): Promise<ChampionFull[] | null> => {
+    try {
+        const entry = (await getEntriesForVersion(version)).find(e => e.kind === 'manifest');
+        return entry ? entry.value as ChampionFull[] : null;
+    } catch (error) {
+        ignoreFailure('read')(error);
+        return null;
+    }
+};
+
+export const saveChampionSummary = (version: string, champions: Champion[]) =>
+    putEntries(version, 'summary', [{ value: champions }]).catch(ignoreFailure('write'));
+
+export const saveChampionDetails = (version: string, details: ChampionFull[]) =>
+    putEntries(version, 'details', details.map(d => ({ id: d.id, value: d }))).catch(ignoreFailure('write'));
+
+export const saveSkinInfo = (version: string, skinInfo: Map<number, SkinInfo>) =>
+    putEntries(version, 'skinInfo', [{ value: Array.from(skinInfo.entries()) }]).catch(ignoreFailure('write'));
+
+export const saveSkinLines = (version: string, skinLines: SkinLine[]) =>
+    putEntries(version, 'skinLines', [{ value: skinLines }]).catch(ignoreFailure('write'));
+
+export const saveManifest = (version: string, champions: ChampionFull[]) =>
+    putEntries(version, 'manifest', [{ value: champions }]).catch(ignoreFailure('write'));
+
+/**
+ * Drops every entry that doesn't belong to `currentVersion`, then evicts the
+ * least recently written entries until the cache fits within CACHE_SIZE_LIMIT.
+ * Manifests are kept across versions, since comparing versions needs older ones.
+ */
+export const pruneCache = async (currentVersion: string): Promise<void> => {
+    try {
+        const db = await openDb();
+        if (!db) return;
+        const tx = db.transaction(STORE, 'readwrite');
+        const store = tx.objectStore(STORE);
+        const entries = await promisify(store.getAll() as IDBRequest<CacheEntry[]>);
+
+        const kept: CacheEntry[] = [];
+        for (const entry of entries) {
+            if (entry.version === currentVersion || entry.kind === 'manifest') kept.push(entry);
+            else store.delete(entry.key);
+        }
+
+        let total = kept.reduce((acc, entry) => acc + entry.size, 0);
+        kept.sort((a, b) => a.updatedAt - b.updatedAt);
+        for (const entry of kept) {
+            if (total <= CACHE_SIZE_LIMIT) break;
+            store.delete(entry.key);
+            total -= entry.size;
+        }
+        await transactionDone(tx);
+    } catch (error) {
+        ignoreFailure('prune')(error);
+    }
+};
+
+export const clearCache = async (): Promise<void> => {
+    try {
+        const db = await openDb();
+        if (!db) return;
+        const tx = db.transaction(STORE, 'readwrite');
+        tx.objectStore(STORE).clear();
+        await transactionDone(tx);
+    } catch (error) {
+        ignoreFailure('clear')(error);
+    }
+};
+
+
+// --- Price Snapshots ---
+// Every price fetch is kept as a snapshot of that day's prices, in their own store so that
+// pruning and clearing the cache leaves the history alone.
+
+interface PriceSnapshotEntry {
+    /** Local date as YYYY-MM-DD; a later fetch on the same day replaces that day's snapshot. */
+    date: string;
+    prices: [number, number][];
+}
+
+export interface PriceSnapshot {
+    date: string;
+    prices: Map<number, number>;
+}
+
+export const savePriceSnapshot = async (date: string, skinInfo: Map<number, SkinInfo>): Promise<void> => {
+    try {
+        const db = await openDb();
+        if (!db) return;
+        const tx = db.transaction(SNAPSHOT_STORE, 'readwrite');
+        const store = tx.objectStore(SNAPSHOT_STORE);
+        const prices: [number, number][] = [];
+        for (const [id, info] of skinInfo) {
+            if (info.price > 0) prices.push([id, info.price]);
+        }
+        store.put({ date, prices } satisfies PriceSnapshotEntry);
+        const dates = await promisify(store.getAllKeys() as IDBRequest<string[]>);
+        for (const old of dates.sort().slice(0, Math.max(dates.length - MAX_PRICE_SNAPSHOTS, 0))) store.delete(old);
+        await transactionDone(tx);
+    } catch (error) {
+        ignoreFailure('snapshot write')(error);
+    }
+};
+
+/** Loads the most recent snapshot taken before `date`, if any. */
+export const loadPriceSnapshotBefore = async (date: string): Promise<PriceSnapshot | null> => {
+    try {
+        const db = await openDb();
+        if (!db) return null;
+        const store = db.transaction(SNAPSHOT_STORE, 'readonly').objectStore(SNAPSHOT_STORE);
+        const cursor = await promisify(store.openCursor(IDBKeyRange.upperBound(date, true), 'prev'));
+        if (!cursor) return null;
+        const entry = cursor.value as PriceSnapshotEntry;
+        return { date: entry.date, prices: new Map(entry.prices) };
+    } catch (error) {
+        ignoreFailure('snapshot read')(error);
+        return null;
+    }
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { CDRAGON_ASSET_URL, DataClientError, parseSkinInfo } from './dataClient';
+import skins from './fixtures/skins.json';
+
+const info = parseSkinInfo(skins);
+
+describe('parseSkinInfo', () => {
+    it('flags base, legacy and limited skins', () => {
+        expect(info.get(103000)).toMatchObject({ isBase: true, isLegacy: false, isLimited: false });
+        expect(info.get(103001)).toMatchObject({ isBase: false, isLegacy: true, isLimited: false });
+        expect(info.get(103007)).toMatchObject({ isBase: false, isLegacy: false, isLimited: false });
+        expect(info.get(103020)).toMatchObject({ isBase: false, isLegacy: false, isLimited: true });
+    });
+
+    it('treats skin numbers ending in 000 as base skins without an isBase field', () => {
+        expect(info.get(266000)).toMatchObject({ isBase: true, isLimited: false, price: 0 });
+    });
+
+    it('leaves skins with no price unpriced', () => {
+        expect(info.get(103000)).toMatchObject({ price: 0, costs: [] });
+        expect(info.get(103020)).toMatchObject({ price: 0, costs: [] });
+        expect(info.get(103020)?.fullPrice).toBeUndefined();
+    });
+
+    it('reads RP prices, sales and store-only sale prices', () => {
+        expect(info.get(103001)).toMatchObject({ price: 520, costs: [{ currency: 'rp', amount: 520 }] });
+        expect(info.get(103015)).toMatchObject({ price: 675, fullPrice: 1350 });
+        expect(info.get(103016)).toMatchObject({ price: 1350, isLimited: false });
+        expect(info.get(103016)?.fullPrice).toBeUndefined();
+    });
+
+    it('keeps costs in other currencies and drops unknown ones', () => {
+        expect(info.get(103030)?.costs).toEqual([
+            { currency: 'rp', amount: 1350 },
+            { currency: 'orangeEssence', amount: 1050 },
+        ]);
+        expect(info.get(103085)).toMatchObject({
+            price: 0,
+            costs: [{ currency: 'mythicEssence', amount: 125 }],
+            isLimited: true,
+        });
+    });
+
+    it('maps rarity codes and display names', () => {
+        expect(info.get(103001)?.rarity).toBe('none');
+        expect(info.get(103007)?.rarity).toBe('epic');
+        expect(info.get(103015)?.rarity).toBe('epic');
+        expect(info.get(103027)?.rarity).toBe('legendary');
+        expect(info.get(103085)?.rarity).toBe('exalted');
+        expect(info.get(103086)?.rarity).toBe('none');
+    });
+
+    it('lists skin line ids, skipping entries without a usable id', () => {
+        expect(info.get(103007)?.skinLineIds).toEqual([5]);
+        expect(info.get(103027)?.skinLineIds).toEqual([64]);
+        expect(info.get(103001)?.skinLineIds).toBeUndefined();
+    });
+
+    it('gives each chroma its own entry, unpriced when it has no cost', () => {
+        expect(info.get(103007)?.chromas?.map(chroma => chroma.id)).toEqual([103008, 103009]);
+        expect(info.get(103007)?.chromas?.[0]).toMatchObject({
+            name: 'Arcade Ahri (Ruby)',
+            colors: ['#D33528', '#D33528'],
+            imageUrl: CDRAGON_ASSET_URL('/lol-game-data/assets/v1/champion-chroma-images/103/103008.png'),
+            price: 290,
+        });
+        expect(info.get(103008)).toMatchObject({ price: 290, costs: [{ currency: 'rp', amount: 290 }], isLimited: false });
+        expect(info.get(103009)).toMatchObject({ price: 0, costs: [], isLimited: true });
+        expect(info.has(103010)).toBe(false);
+    });
+
+    it('rejects data that is not keyed by skin id', () => {
+        expect(() => parseSkinInfo([])).toThrow(DataClientError);
+        expect(() => parseSkinInfo(null)).toThrow(DataClientError);
+    });
+});
@@ -0,0 +1,326 @@
+import type { Champion, ChampionFull, ChampionRatings, ChromaInfo, Skin, SkinCost, SkinInfo, SkinLine } from '../types';
+import { parseCurrency, parseRarity } from './skinMetadata';
+
+// --- Configuration ---
+// Both hosts can be overridden at build time (see vite.config.ts) so the app can run
+// against a local mirror or a fixture directory that uses the same path layout.
+const DDRAGON_HOST = (process.env.DDRAGON_BASE_URL || 'https://ddragon.leagueoflegends.com').replace(/\/+$/, '');
+const CDRAGON_HOST = (process.env.CDRAGON_BASE_URL || 'https://raw.communitydragon.org').replace(/\/+$/, '');
+
+// --- API URLs ---
+/** Data Dragon language code; CommunityDragon uses the same codes in lower case. */
+export const DEFAULT_DATA_LOCALE = 'en_US';
+
+export const VERSIONS_URL = `${DDRAGON_HOST}/api/versions.json`;
+export const DDRAGON_BASE_URL = (version: string) => `${DDRAGON_HOST}/cdn/${version}`;
+export const CHAMPION_SUMMARY_URL = (version: string, locale = DEFAULT_DATA_LOCALE) => `${DDRAGON_BASE_URL(version)}/data/${locale}/champion.json`;
+export const CHAMPION_FULL_URL = (version: string, locale = DEFAULT_DATA_LOCALE) => `${DDRAGON_BASE_URL(version)}/data/${locale}/championFull.json`;
+export const CHAMPION_DETAIL_URL = (version: string, championId: string, locale = DEFAULT_DATA_LOCALE) =>
+    `${DDRAGON_BASE_URL(version)}/data/${locale}/champion/${championId}.json`;
+export const SKIN_IMAGE_URL = (championId: string, skinNum: number) => `${DDRAGON_HOST}/cdn/img/champion/splash/${championId}_${skinNum}.jpg`;
+export const CENTERED_SKIN_IMAGE_URL = (championId: string, skinNum: number) => `${DDRAGON_HOST}/cdn/img/champion/centered/${championId}_${skinNum}.jpg`;
+export const LOADING_SKIN_IMAGE_URL = (championId: string, skinNum: number) => `${DDRAGON_HOST}/cdn/img/champion/loading/${championId}_${skinNum}.jpg`;
+export const CHAMPION_ICON_URL = (version: string, championId: string) => `${DDRAGON_BASE_URL(version)}/img/champion/${championId}.png`;
+const CDRAGON_GAME_DATA_URL = (locale = DEFAULT_DATA_LOCALE) =>
+    `${CDRAGON_HOST}/latest/plugins/rcp-be-lol-game-data/global/${locale === DEFAULT_DATA_LOCALE ? 'default' : locale.toLowerCase()}`;
+export const SKIN_PRICE_URL = (locale = DEFAULT_DATA_LOCALE) => `${CDRAGON_GAME_DATA_URL(locale)}/v1/skins.json`;
+export const SKIN_LINES_URL = (locale = DEFAULT_DATA_LOCALE) => `${CDRAGON_GAME_DATA_URL(locale)}/v1/skinlines.json`;
+/** Maps a `/lol-game-data/assets/...` path from CommunityDragon data to a downloadable URL. */
+export const CDRAGON_ASSET_URL = (assetPath: string) =>
+    `${CDRAGON_GAME_DATA_URL()}/${assetPath.replace(/^\/lol-game-data\/assets\//i, '').toLowerCase()}`;
+
+
+// --- Errors ---
+export type DataClientErrorKind = 'network' | 'timeout' | 'http' | 'invalid';
+
+export class DataClientError extends Error {
+    constructor(
+        message: string,
+        public readonly kind: DataClientErrorKind,
+        public readonly url: string,
+        public readonly status?: number,
+    ) {
+        super(message);
+        this.name = 'DataClientError';
+    }
+
+    /** Whether another attempt at the same request could succeed. */
+    get retryable(): boolean {
+        if (this.kind === 'network' || this.kind === 'timeout') return true;
+        if (this.kind === 'http') return this.status === 408 || this.status === 429 || (this.status ?? 0) >= 500;
+        return false;
+    }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof DOMException && error.name === 'AbortError';
+
+
+// --- Fetching ---
+export interface RequestOptions {
+    signal?: AbortSignal;
+    retries?: number;
+    timeoutMs?: number;
+}
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_TIMEOUT_MS = 15000;
+const BASE_BACKOFF_MS = 500;
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const fetchOnce = async (url: string, timeoutMs: number, signal?: AbortSignal): Promise<unknown> => {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+        const res = await fetch(url, { signal: controller.signal });
+        if (!res.ok) {
+            throw new DataClientError(`Request to ${url} failed with status ${res.status}`, 'http', url, res.status);
+        }
+        try {
+            return await res.json();
+        } catch {
+            throw new DataClientError(`Response from ${url} is not valid JSON`, 'invalid', url);
+        }
+    } catch (error) {
+        if (error instanceof DataClientError) throw error;
+        if (isAbortError(error)) {
+            if (timedOut) throw new DataClientError(`Request to ${url} timed out`, 'timeout', url);
+            throw error;
+        }
+        throw new DataClientError(`Request to ${url} failed`, 'network', url);
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+};
+
+/**
+ * Fetches and parses JSON, retrying transient failures with exponential backoff.
+ * Aborting `signal` rejects with an AbortError and stops any pending retries.
+ */
+export const fetchJson = async (url: string, options: RequestOptions = {}): Promise<unknown> => {
+    const { signal, retries = DEFAULT_RETRIES, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fetchOnce(url, timeoutMs, signal);
+        } catch (error) {
+            if (!(error instanceof DataClientError) || !error.retryable || attempt >= retries) throw error;
+            await delay(BASE_BACKOFF_MS * 2 ** attempt, signal);
+        }
+    }
+};
+
+
+// --- Validation ---
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const invalid = (url: string, detail: string) =>
+    new DataClientError(`Unexpected data from ${url}: ${detail}`, 'invalid', url);
+
+const parseTags = (raw: unknown): string[] =>
+    Array.isArray(raw) ? raw.filter((tag): tag is string => typeof tag === 'string') : [];
+
+const parseRatings = (raw: unknown): ChampionRatings | undefined => {
+    if (!isRecord(raw) || typeof raw.attack !== 'number' || typeof raw.defense !== 'number'
+        || typeof raw.magic !== 'number' || typeof raw.difficulty !== 'number') return undefined;
+    return { attack: raw.attack, defense: raw.defense, magic: raw.magic, difficulty: raw.difficulty };
+};
+
+/** Some blurbs carry `<br>` and similar tags. */
+const plainText = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+const parseChampion = (raw: unknown, url: string): Champion => {
+    if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.key !== 'string' || typeof raw.name !== 'string') {
+        throw invalid(url, 'champion entry is missing id, key or name');
+    }
+    const info = parseRatings(raw.info);
+    return {
+        id: raw.id,
+        key: raw.key,
+        name: raw.name,
+        title: typeof raw.title === 'string' ? raw.title : '',
+        blurb: typeof raw.blurb === 'string' ? plainText(raw.blurb) : '',
+        tags: parseTags(raw.tags),
+        ...(info && { info }),
+    };
+};
+
+const parseSkin = (raw: unknown, url: string): Skin => {
+    if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.num !== 'number' || typeof raw.name !== 'string') {
+        throw invalid(url, 'skin entry is missing id, num or name');
+    }
+    return { id: raw.id, num: raw.num, name: raw.name, chromas: raw.chromas === true };
+};
+
+/** Versions.json also lists legacy entries such as `lolpatch_7.20`; only numbered releases have data. */
+export const isReleaseVersion = (version: string) => /^\d+\.\d+\.\d+$/.test(version);
+
+export const parseVersions = (data: unknown, url = VERSIONS_URL): string[] => {
+    if (!Array.isArray(data) || data.length === 0 || !data.every(v => typeof v === 'string')) {
+        throw invalid(url, 'expected a non-empty list of versions');
+    }
+    return data;
+};
+
+export const parseChampionSummary = (data: unknown, url: string): Champion[] => {
+    if (!isRecord(data) || !isRecord(data.data)) throw invalid(url, 'missing champion data');
+    return Object.values(data.data).map(raw => parseChampion(raw, url));
+};
+
+export const parseChampionDetail = (data: unknown, championId: string, url: string): ChampionFull => {
+    const raw = isRecord(data) && isRecord(data.data) ? data.data[championId] : undefined;
+    if (!isRecord(raw) || !Array.isArray(raw.skins)) throw invalid(url, `missing details for ${championId}`);
+    const { id, key, name, tags } = parseChampion(raw, url);
+    return { id, key, name, skins: raw.skins.map(skin => parseSkin(skin, url)), tags };
+};
+
+const parseChroma = (raw: unknown): ChromaInfo | null => {
+    if (!isRecord(raw) || typeof raw.id !== 'number' || typeof raw.name !== 'string' || typeof raw.chromaPath !== 'string') {
+        return null;
+    }
+    return {
+        id: raw.id,
+        name: raw.name,
+        colors: Array.isArray(raw.colors) ? raw.colors.filter((c): c is string => typeof c === 'string') : [],
+        imageUrl: CDRAGON_ASSET_URL(raw.chromaPath),
+        price: typeof raw.cost === 'number' && raw.cost > 0 ? raw.cost : 0,
+    };
+};
+
+/**
+ * Costs in currencies other than RP: `cost` itself when a `currency` (or `costType`) names one,
+ * plus any `prices` entries of `{currency, cost}`. Unknown currencies are left out.
+ */
+const parseOtherCosts = (skinData: Record<string, unknown>): SkinCost[] => {
+    const entries = [
+        { currency: skinData.currency ?? skinData.costType, cost: skinData.cost },
+        ...(Array.isArray(skinData.prices) ? skinData.prices.filter(isRecord) : []),
+    ];
+    const costs = new Map<SkinCost['currency'], number>();
+    for (const { currency: code, cost } of entries) {
+        const currency = parseCurrency(code);
+        if (!currency || currency === 'rp' || typeof cost !== 'number' || cost <= 0 || costs.has(currency)) continue;
+        costs.set(currency, cost);
+    }
+    return Array.from(costs, ([currency, amount]) => ({ currency, amount }));
+};
+
+const parseSkinLineIds = (raw: unknown): number[] =>
+    Array.isArray(raw)
+        ? raw.map(line => isRecord(line) && typeof line.id === 'number' ? line.id : null).filter((id): id is number => id !== null && id > 0)
+        : [];
+
+/** Parses every champion (with skins) from a version's championFull.json. */
+export const parseChampionManifest = (data: unknown, url: string): ChampionFull[] => {
+    if (!isRecord(data) || !isRecord(data.data)) throw invalid(url, 'missing champion data');
+    return Object.keys(data.data).map(championId => parseChampionDetail(data, championId, url));
+};
+
+/**
+ * Builds the skin info map from skins.json. Every skin gets an entry, priced or not, and each
+ * chroma gets its own entry keyed by chroma id so it can be priced like a skin.
+ */
+export const parseSkinInfo = (data: unknown, url = SKIN_PRICE_URL()): Map<number, SkinInfo> => {
+    if (!isRecord(data)) throw invalid(url, 'expected an object keyed by skin id');
+    const infoMap = new Map<number, SkinInfo>();
+    for (const skinId in data) {
+        const skinData = data[skinId];
+        if (!isRecord(skinData)) continue;
+        // `cost` is RP unless a currency says otherwise
+        const currency = parseCurrency(skinData.currency ?? skinData.costType);
+        const cost = typeof skinData.cost === 'number' && (!currency || currency === 'rp') ? skinData.cost : 0;
+        const saleCost = typeof skinData.saleCost === 'number' ? skinData.saleCost : -1;
+        const priced = cost !== 0 && (cost !== -1 || saleCost !== -1);
+        const onSale = cost > 0 && saleCost > 0 && saleCost < cost;
+        const chromas = Array.isArray(skinData.chromas)
+            ? skinData.chromas.map(parseChroma).filter((c): c is ChromaInfo => c !== null)
+            : [];
+        const skinLineIds = parseSkinLineIds(skinData.skinLines);
+        const isBase = skinData.isBase === true || parseInt(skinId) % 1000 === 0;
+        const isLegacy = skinData.isLegacy === true;
+        const price = !priced ? 0 : cost === -1 || onSale ? saleCost : cost;
+
+        infoMap.set(parseInt(skinId), {
+            price,
+            ...(onSale && { fullPrice: cost }),
+            costs: [...(price > 0 ? [{ currency: 'rp' as const, amount: price }] : []), ...parseOtherCosts(skinData)],
+            // Newer files carry a `rarity` code; older ones only the display name in `rarityGem`
+            rarity: parseRarity(skinData.rarity ?? skinData.rarityGem),
+            isBase,
+            isLegacy,
+            isLimited: !isBase && !isLegacy && !priced,
+            ...(chromas.length > 0 && { chromas }),
+            ...(skinLineIds.length > 0 && { skinLineIds }),
+        });
+        for (const chroma of chromas) {
+            infoMap.set(chroma.id, {
+                price: chroma.price,
+                costs: chroma.price > 0 ? [{ currency: 'rp', amount: chroma.price }] : [],
+                rarity: 'none',
+                isBase: false,
+                isLegacy: false,
+                isLimited: chroma.price === 0,
+            });
+        }
+    }
+    return infoMap;
+};
+
+export const parseSkinLines = (data: unknown, url = SKIN_LINES_URL()): SkinLine[] => {
+    if (!Array.isArray(data)) throw invalid(url, 'expected a list of skin lines');
+    return data.flatMap(raw => {
+        if (!isRecord(raw) || typeof raw.id !== 'number' || typeof raw.name !== 'string' || raw.id <= 0 || !raw.name) return [];
+        return [{ id: raw.id, name: raw.name, description: typeof raw.description === 'string' ? raw.description : '' }];
+    });
+};
+
+
+// --- Client ---
+export const fetchVersions = async (options?: RequestOptions): Promise<string[]> =>
+    parseVersions(await fetchJson(VERSIONS_URL, options));
+
+export const fetchChampionSummary = async (version: string, locale: string, options?: RequestOptions): Promise<Champion[]> => {
+    const url = CHAMPION_SUMMARY_URL(version, locale);
+    return parseChampionSummary(await fetchJson(url, options), url);
+};
+
+export const fetchChampionDetail = async (version: string, championId: string, locale: string, options?: RequestOptions): Promise<ChampionFull> => {
+    const url = CHAMPION_DETAIL_URL(version, championId, locale);
+    return parseChampionDetail(await fetchJson(url, options), championId, url);
+};
+
+/** Fetches every champion with its skins for a version in one request, for comparing versions. */
+export const fetchChampionManifest = async (version: string, locale: string, options?: RequestOptions): Promise<ChampionFull[]> => {
+    const url = CHAMPION_FULL_URL(version, locale);
+    return parseChampionManifest(await fetchJson(url, { timeoutMs: 60000, ...options }), url);
+};
+
+export const fetchSkinInfo = async (locale: string, options?: RequestOptions): Promise<Map<number, SkinInfo>> => {
+    const url = SKIN_PRICE_URL(locale);
+    return parseSkinInfo(await fetchJson(url, options), url);
+};
+
+export const fetchSkinLines = async (locale: string, options?: RequestOptions): Promise<SkinLine[]> => {
+    const url = SKIN_LINES_URL(locale);
+    return parseSkinLines(await fetchJson(url, options), url);
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import type { FavoriteSkin, SkinInfo } from '../types';
+import { collectTags, subtotalsBy } from './favoriteOrganizer';
+
+const favorite = (id: string, tags?: string[]): FavoriteSkin =>
+    ({ id, num: 1, name: `Skin ${id}`, chromas: false, championId: 'Ahri', championName: 'Ahri', tags });
+
+const price = (amount: number): SkinInfo =>
+    ({ price: amount, costs: [{ currency: 'rp', amount }], rarity: 'none', isBase: false, isLegacy: false, isLimited: false });
+
+const skinInfo = new Map([[103001, price(520)], [103002, price(1350)], [103003, price(975)]]);
+
+describe('subtotalsBy', () => {
+    it('groups tags that differ only in case, like collectTags', () => {
+        const favorites = [favorite('103001', ['Gift']), favorite('103002', ['gift', 'Main']), favorite('103003')];
+        expect(collectTags(favorites)).toEqual(['Gift', 'Main']);
+        expect(subtotalsBy(favorites, skinInfo, 'tag')).toEqual([
+            { key: 'Gift', total: 1870, count: 2 },
+            { key: 'Main', total: 1350, count: 1 },
+            { key: null, total: 975, count: 1 },
+        ]);
+    });
+
+    it('orders priorities from high to low, then favorites without one', () => {
+        const favorites = [
+            { ...favorite('103001'), priority: 'low' as const },
+            { ...favorite('103002'), priority: 'high' as const },
+            favorite('103003'),
+        ];
+        expect(subtotalsBy(favorites, skinInfo, 'priority').map(subtotal => subtotal.key)).toEqual(['high', 'low', null]);
+    });
+});
@@ -0,0 +1,112 @@
+import type { FavoritePriority, FavoriteSkin, SkinInfo, SkinRarity } from '../types';
+import { isSkinRarity, rarityRank } from './skinMetadata';
+
+// --- Annotations ---
+export const PRIORITIES: readonly FavoritePriority[] = ['high', 'medium', 'low'];
+
+export const isFavoritePriority = (value: unknown): value is FavoritePriority => PRIORITIES.includes(value as FavoritePriority);
+
+/** Splits comma-separated input into trimmed, de-duplicated tags (case-insensitively). */
+export const parseTags = (text: string): string[] => {
+    const seen = new Set<string>();
+    return text.split(',').map(tag => tag.trim()).filter(tag => {
+        const key = tag.toLowerCase();
+        if (!tag || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+/** Every tag used in `favorites`, alphabetically. */
+export const collectTags = (favorites: FavoriteSkin[]): string[] =>
+    parseTags(favorites.flatMap(fav => fav.tags ?? []).join(',')).sort((a, b) => a.localeCompare(b));
+
+
+// --- Sorting and Filtering ---
+export type FavoriteSort = 'manual' | 'champion' | 'price' | 'rarity' | 'priority';
+
+export interface FavoriteView {
+    sort: FavoriteSort;
+    /** Matches champion and skin names. */
+    query: string;
+    priority: FavoritePriority | 'any';
+    rarity: SkinRarity | 'any';
+    tag: string | null;
+    maxPrice: number | null;
+}
+
+export const DEFAULT_FAVORITE_VIEW: FavoriteView = { sort: 'manual', query: '', priority: 'any', rarity: 'any', tag: null, maxPrice: null };
+
+/** Drag-and-drop and keyboard moves only make sense on the full list in its own order. */
+export const isManualOrder = (view: FavoriteView) =>
+    view.sort === 'manual' && !view.query.trim() && view.priority === 'any' && view.rarity === 'any' && view.tag === null && view.maxPrice === null;
+
+const priorityRank = (fav: FavoriteSkin) => fav.priority ? PRIORITIES.indexOf(fav.priority) : PRIORITIES.length;
+
+export const organizeFavorites = (favorites: FavoriteSkin[], skinInfo: Map<number, SkinInfo>, view: FavoriteView): FavoriteSkin[] => {
+    const query = view.query.trim().toLowerCase();
+    const tag = view.tag?.toLowerCase();
+    const infoOf = (fav: FavoriteSkin) => skinInfo.get(parseInt(fav.id));
+    const filtered = favorites.filter(fav => {
+        const info = infoOf(fav);
+        if (query && !`${fav.championName} ${fav.name}`.toLowerCase().includes(query)) return false;
+        if (view.priority !== 'any' && fav.priority !== view.priority) return false;
+        if (view.rarity !== 'any' && info?.rarity !== view.rarity) return false;
+        if (tag && !fav.tags?.some(t => t.toLowerCase() === tag)) return false;
+        if (view.maxPrice !== null && (!info || info.price === 0 || info.price > view.maxPrice)) return false;
+        return true;
+    });
+
+    // Array.prototype.sort is stable, so ties keep the manual order
+    switch (view.sort) {
+        case 'champion':
+            return filtered.sort((a, b) => a.championName.localeCompare(b.championName));
+        case 'price':
+            return filtered.sort((a, b) => (infoOf(a)?.price ?? 0) - (infoOf(b)?.price ?? 0));
+        case 'rarity':
+            return filtered.sort((a, b) => rarityRank(infoOf(b)?.rarity ?? 'none') - rarityRank(infoOf(a)?.rarity ?? 'none'));
+        case 'priority':
+            return filtered.sort((a, b) => priorityRank(a) - priorityRank(b));
+        default:
+            return filtered;
+    }
+};
+
+export const parseFavoriteRarity = (value: string): SkinRarity | 'any' => isSkinRarity(value) ? value : 'any';
+
+
+// --- Subtotals ---
+export type SubtotalGrouping = 'none' | 'tag' | 'priority';
+
+export interface Subtotal {
+    /** A tag or priority; null collects favorites without one. */
+    key: string | null;
+    total: number;
+    count: number;
+}
+
+/**
+ * RP totals per tag or per priority. A favorite with several tags counts towards each of them,
+ * so tag subtotals can add up to more than the list total. Tags are grouped case-insensitively,
+ * like `collectTags`, and keep the first spelling seen.
+ */
+export const subtotalsBy = (favorites: FavoriteSkin[], skinInfo: Map<number, SkinInfo>, grouping: Exclude<SubtotalGrouping, 'none'>): Subtotal[] => {
+    const groups = new Map<string | null, Subtotal>();
+    const add = (key: string | null, price: number) => {
+        const groupKey = key?.toLowerCase() ?? null;
+        const group = groups.get(groupKey) ?? { key, total: 0, count: 0 };
+        group.total += price;
+        group.count++;
+        groups.set(groupKey, group);
+    };
+    for (const fav of favorites) {
+        const price = skinInfo.get(parseInt(fav.id))?.price ?? 0;
+        const keys = grouping === 'tag' ? (fav.tags?.length ? fav.tags : [null]) : [fav.priority ?? null];
+        for (const key of keys) add(key, price);
+    }
+    const order = (key: string | null) => grouping === 'priority' && key ? PRIORITIES.indexOf(key as FavoritePriority) : 0;
+    return Array.from(groups.values()).sort((a, b) => {
+        if (a.key === null || b.key === null) return a.key === null ? 1 : -1;
+        return order(a.key) - order(b.key) || a.key.localeCompare(b.key);
+    });
+};
@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import type { FavoriteSkin, Wishlist } from '../types';
+import {
+    SyncAdapter,
+    SyncConflictError,
+    SyncError,
+    SyncSnapshot,
+    hasPendingChanges,
+    mergeWishlists,
+    recordLocalChange,
+    reconcile,
+    synchronize,
+} from './favoritesSync';
+
+const skin = (id: string, note?: string): FavoriteSkin =>
+    ({ id, num: Number(id) % 1000, name: `Skin ${id}`, chromas: false, championId: 'Ahri', championName: 'Ahri', ...(note ? { note } : {}) });
+
+const list = (id: string, skinIds: string[], name = id): Wishlist => ({ id, name, skins: skinIds.map(skinId => skin(skinId)) });
+
+const snapshot = (lists: Wishlist[], revision: number, updatedAt = 1000): SyncSnapshot => ({ lists, revision, updatedAt });
+
+const skinIds = (lists: Wishlist[]) => Object.fromEntries(lists.map(l => [l.id, l.skins.map(s => s.id)]));
+
+/** An in-memory remote that behaves like the REST adapter, including 409s for stale pushes. */
+const memoryRemote = (initial: SyncSnapshot | null) => {
+    const remote = {
+        snapshot: initial,
+        pushes: 0,
+        /** Runs once before the next push is checked, to simulate another device pushing first. */
+        beforePush: null as (() => void) | null,
+    };
+    const adapter: SyncAdapter = {
+        name: 'memory',
+        pull: async () => remote.snapshot,
+        push: async (lists, updatedAt, baseRevision) => {
+            remote.pushes += 1;
+            const interrupt = remote.beforePush;
+            remote.beforePush = null;
+            interrupt?.();
+            if (remote.snapshot && baseRevision !== remote.snapshot.revision) throw new SyncConflictError(remote.snapshot);
+            remote.snapshot = snapshot(lists, (remote.snapshot?.revision ?? 0) + 1, updatedAt);
+            return remote.snapshot;
+        },
+    };
+    return { remote, adapter };
+};
+
+/** Stores the sync state as if `base` had been synced last. */
+const syncedAt = (base: SyncSnapshot, localUpdatedAt = 500, pending = false) =>
+    localStorage.setItem('favoritesSync', JSON.stringify({ remote: 'memory', base, localUpdatedAt, pending }));
+
+describe('mergeWishlists', () => {
+    it('keeps edits from both sides', () => {
+        const base = [list('a', ['1', '2'], 'Wishlist')];
+        const local = [{ ...list('a', ['1', '2', '3']), name: 'Mains' }];
+        const remote = [list('a', ['1', '4'], 'Wishlist')];
+        const merged = mergeWishlists(base, local, remote);
+        expect(merged[0].name).toBe('Mains');
+        expect(skinIds(merged)).toEqual({ a: ['1', '3', '4'] });
+    });
+
+    it("takes the remote's edit to a skin only when the local copy is unchanged", () => {
+        const base = [list('a', ['1', '2'])];
+        const local = [{ ...list('a', []), skins: [skin('1', 'mine'), skin('2')] }];
+        const remote = [{ ...list('a', []), skins: [skin('1', 'theirs'), skin('2', 'theirs')] }];
+        const merged = mergeWishlists(base, local, remote);
+        expect(merged[0].skins.map(s => s.note)).toEqual(['mine', 'theirs']);
+    });
+
+    it('keeps a removal even when the other side edited what was removed', () => {
+        const base = [list('a', ['1', '2']), list('b', ['3'])];
+        const local = [list('a', ['2'])];
+        const remote = [{ ...list('a', []), skins: [skin('1', 'edited'), skin('2')] }, list('b', ['3', '5'])];
+        expect(skinIds(mergeWishlists(base, local, remote))).toEqual({ a: ['2'] });
+    });
+
+    it('puts lists added locally in place and lists added remotely after them', () => {
+        const base = [list('a', [])];
+        const local = [list('new-local', []), list('a', [])];
+        const remote = [list('a', []), list('new-remote', [])];
+        expect(mergeWishlists(base, local, remote).map(l => l.id)).toEqual(['new-local', 'a', 'new-remote']);
+    });
+
+    it('keeps the local lists when both sides removed every list between them', () => {
+        const base = [list('a', []), list('b', [])];
+        const local = [list('a', [])];
+        const remote = [list('b', [])];
+        expect(mergeWishlists(base, local, remote)).toBe(local);
+    });
+});
+
+describe('reconcile', () => {
+    const base = snapshot([list('a', ['1'])], 1);
+
+    it('takes whichever side changed when only one did', () => {
+        const local = [list('a', ['1', '2'])];
+        expect(reconcile(base, local, 2000, base, 'merge')).toBe(local);
+        const remote = snapshot([list('a', ['1', '3'])], 2);
+        expect(reconcile(base, base.lists, 500, remote, 'merge')).toBe(remote.lists);
+    });
+
+    it('merges when both sides changed', () => {
+        const remote = snapshot([list('a', ['1', '3'])], 2);
+        expect(skinIds(reconcile(base, [list('a', ['1', '2'])], 2000, remote, 'merge'))).toEqual({ a: ['1', '2', '3'] });
+    });
+
+    it('keeps the side that changed last with last-writer-wins', () => {
+        const local = [list('a', ['1', '2'])];
+        const remote = snapshot([list('a', ['1', '3'])], 2, 3000);
+        expect(reconcile(base, local, 2000, remote, 'last-writer-wins')).toBe(remote.lists);
+        expect(reconcile(base, local, 4000, remote, 'last-writer-wins')).toBe(local);
+    });
+
+    it('lets a device with only empty lists join without pushing them', () => {
+        const remote = snapshot([list('a', ['1'])], 3);
+        expect(reconcile(null, [list('default', [])], 0, remote, 'merge')).toBe(remote.lists);
+    });
+});
+
+describe('recordLocalChange', () => {
+    it('marks changes as pending and clears the flag when the lists go back to what was synced', () => {
+        const { adapter } = memoryRemote(null);
+        const base = snapshot([list('a', ['1'])], 1);
+        syncedAt(base);
+
+        expect(recordLocalChange(adapter, [list('a', ['1', '2'])])).toBe(true);
+        expect(hasPendingChanges(adapter)).toBe(true);
+
+        expect(recordLocalChange(adapter, base.lists)).toBe(false);
+        expect(hasPendingChanges(adapter)).toBe(false);
+    });
+});
+
+describe('synchronize', () => {
+    it('pushes the merged lists and records them as synced', async () => {
+        const base = snapshot([list('a', ['1'])], 1);
+        const { remote, adapter } = memoryRemote(snapshot([list('a', ['1', '3'])], 2));
+        syncedAt(base, 500, true);
+
+        const resolved = await synchronize(adapter, 'merge', [list('a', ['1', '2'])]);
+        expect(skinIds(resolved)).toEqual({ a: ['1', '2', '3'] });
+        expect(remote.snapshot?.revision).toBe(3);
+        expect(skinIds(remote.snapshot!.lists)).toEqual({ a: ['1', '2', '3'] });
+        expect(hasPendingChanges(adapter)).toBe(false);
+    });
+
+    it('starts over from the new remote lists after a 409', async () => {
+        const base = snapshot([list('a', ['1'])], 1);
+        const { remote, adapter } = memoryRemote(base);
+        syncedAt(base, 500, true);
+        remote.beforePush = () => {
+            remote.snapshot = snapshot([list('a', ['1', '4'])], 2);
+        };
+
+        const resolved = await synchronize(adapter, 'merge', [list('a', ['1', '2'])]);
+        expect(remote.pushes).toBe(2);
+        expect(skinIds(resolved)).toEqual({ a: ['1', '2', '4'] });
+        expect(remote.snapshot?.revision).toBe(3);
+    });
+
+    it('gives up when every push conflicts', async () => {
+        const base = snapshot([list('a', ['1'])], 1);
+        const { remote, adapter } = memoryRemote(base);
+        syncedAt(base, 500, true);
+        const push = adapter.push;
+        adapter.push = async (...args) => {
+            remote.beforePush = () => {
+                remote.snapshot = snapshot(remote.snapshot!.lists, remote.snapshot!.revision + 1);
+            };
+            return push(...args);
+        };
+
+        await expect(synchronize(adapter, 'merge', [list('a', ['1', '2'])])).rejects.toMatchObject({ kind: 'busy' });
+        expect(remote.pushes).toBe(3);
+        expect(hasPendingChanges(adapter)).toBe(true);
+    });
+
+    it('leaves pending changes recorded when the remote is out of reach', async () => {
+        const { adapter } = memoryRemote(null);
+        adapter.pull = () => Promise.reject(new SyncError('Could not reach the sync server.', 'offline'));
+        syncedAt(snapshot([list('a', ['1'])], 1), 500, true);
+
+        await expect(synchronize(adapter, 'merge', [list('a', ['1', '2'])])).rejects.toBeInstanceOf(SyncError);
+        expect(hasPendingChanges(adapter)).toBe(true);
+    });
+});
@@ -0,0 +1,247 @@
+import type { FavoriteSkin, Wishlist } from '../types';
+import { parseWishlists } from './wishlistStorage';
+
+// --- Errors ---
+export type SyncErrorKind = 'offline' | 'http' | 'invalid' | 'conflict' | 'busy';
+
+export class SyncError extends Error {
+    constructor(message: string, public readonly kind: SyncErrorKind, public readonly status?: number) {
+        super(message);
+        this.name = 'SyncError';
+    }
+
+    /** The server couldn't be reached; changes stay queued until it can. */
+    get offline(): boolean {
+        return this.kind === 'offline';
+    }
+}
+
+/** The server has moved on since the revision a push was based on. */
+export class SyncConflictError extends SyncError {
+    constructor(public readonly remote: SyncSnapshot) {
+        super('The favorites were changed elsewhere.', 'conflict');
+        this.name = 'SyncConflictError';
+    }
+}
+
+
+// --- Adapters ---
+export interface SyncSnapshot {
+    lists: Wishlist[];
+    /** Increases with every stored push; a push names the revision it was based on. */
+    revision: number;
+    /** When the lists were last changed, in milliseconds since the epoch. */
+    updatedAt: number;
+}
+
+/** Where favorites are synced to. The REST adapter below is the only one so far. */
+export interface SyncAdapter {
+    /** Identifies the remote, so sync state from another remote isn't reused. */
+    readonly name: string;
+    /** The stored lists, or null if nothing has been pushed yet. */
+    pull(): Promise<SyncSnapshot | null>;
+    /** Stores `lists` if the remote is still at `baseRevision`, and throws SyncConflictError otherwise. */
+    push(lists: Wishlist[], updatedAt: number, baseRevision: number | null): Promise<SyncSnapshot>;
+}
+
+const parseSnapshot = (value: unknown): SyncSnapshot => {
+    const snapshot = value as SyncSnapshot;
+    const lists = parseWishlists(snapshot?.lists);
+    if (lists.length === 0 || typeof snapshot.revision !== 'number' || typeof snapshot.updatedAt !== 'number') {
+        throw new SyncError('The sync server returned data in an unexpected format.', 'invalid');
+    }
+    return { lists, revision: snapshot.revision, updatedAt: snapshot.updatedAt };
+};
+
+/**
+ * Syncs with a server that serves the lists at `endpoint`: GET returns the current snapshot (or
+ * 404 before the first push), and PUT `{lists, updatedAt, baseRevision}` stores a new one, or
+ * answers 409 with the current snapshot if `baseRevision` is out of date. server/syncServer.mjs
+ * implements this for local use.
+ */
+export const createRestSyncAdapter = (endpoint: string): SyncAdapter => {
+    const request = async (init?: RequestInit): Promise<Response> => {
+        try {
+            return await fetch(endpoint, { ...init, headers: { 'Content-Type': 'application/json' } });
+        } catch (error) {
+            throw new SyncError('Could not reach the sync server.', 'offline');
+        }
+    };
+    const readSnapshot = async (response: Response) => {
+        try {
+            return parseSnapshot(await response.json());
+        } catch (error) {
+            if (error instanceof SyncError) throw error;
+            throw new SyncError('The sync server returned data in an unexpected format.', 'invalid');
+        }
+    };
+
+    return {
+        name: endpoint,
+        async pull() {
+            const response = await request();
+            if (response.status === 404) return null;
+            if (!response.ok) throw new SyncError(`The sync server responded with status ${response.status}.`, 'http', response.status);
+            return readSnapshot(response);
+        },
+        async push(lists, updatedAt, baseRevision) {
+            const response = await request({ method: 'PUT', body: JSON.stringify({ lists, updatedAt, baseRevision }) });
+            if (response.status === 409) throw new SyncConflictError(await readSnapshot(response));
+            if (!response.ok) throw new SyncError(`The sync server responded with status ${response.status}.`, 'http', response.status);
+            return readSnapshot(response);
+        },
+    };
+};
+
+/** Uses the REST adapter when a sync URL was configured at build time; without one, favorites stay local. */
+export const createSyncAdapter = (): SyncAdapter | null =>
+    process.env.SYNC_URL ? createRestSyncAdapter(process.env.SYNC_URL) : null;
+
+
+// --- Conflict Handling ---
+export type SyncStrategy = 'merge' | 'last-writer-wins';
+
+export const SYNC_STRATEGY: SyncStrategy = process.env.SYNC_STRATEGY === 'last-writer-wins' ? 'last-writer-wins' : 'merge';
+
+export const sameLists = (a: Wishlist[], b: Wishlist[]) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Three-way merge of items with ids. Items removed on either side since `base` stay removed, items
+ * added on either side are kept (local ones in their place, remote ones after them), and items on
+ * both sides are combined with `combine`.
+ */
+const mergeById = <T extends { id: string }>(base: T[], local: T[], remote: T[], combine: (local: T, remote: T, base?: T) => T): T[] => {
+    const baseById = new Map(base.map(item => [item.id, item]));
+    const remoteById = new Map(remote.map(item => [item.id, item]));
+    const localIds = new Set(local.map(item => item.id));
+    const merged: T[] = [];
+    for (const item of local) {
+        const other = remoteById.get(item.id);
+        if (other) merged.push(combine(item, other, baseById.get(item.id)));
+        else if (!baseById.has(item.id)) merged.push(item);
+    }
+    for (const item of remote) {
+        if (!localIds.has(item.id) && !baseById.has(item.id)) merged.push(item);
+    }
+    return merged;
+};
+
+/** Takes whichever side changed since `base`, preferring local when both did. */
+const pickChanged = <T>(local: T, remote: T, base?: T): T =>
+    base !== undefined && JSON.stringify(local) === JSON.stringify(base) ? remote : local;
+
+export const mergeWishlists = (base: Wishlist[], local: Wishlist[], remote: Wishlist[]): Wishlist[] => {
+    const merged = mergeById(base, local, remote, (localList, remoteList, baseList) => ({
+        ...localList,
+        name: pickChanged(localList.name, remoteList.name, baseList?.name),
+        skins: mergeById<FavoriteSkin>(baseList?.skins ?? [], localList.skins, remoteList.skins, pickChanged),
+    }));
+    // Both sides deleting different lists can leave nothing, and there's always at least one list
+    return merged.length > 0 ? merged : local;
+};
+
+/**
+ * Decides what both sides should end up with. When only one side changed since the last sync,
+ * that side wins; when both did, `strategy` decides.
+ */
+export const reconcile = (
+    base: SyncSnapshot | null,
+    local: Wishlist[],
+    localUpdatedAt: number,
+    remote: SyncSnapshot | null,
+    strategy: SyncStrategy,
+): Wishlist[] => {
+    if (!remote || sameLists(local, remote.lists)) return local;
+    // A device that only has empty lists and hasn't synced yet simply joins
+    if (!base && localUpdatedAt === 0 && local.every(list => list.skins.length === 0)) return remote.lists;
+    const localChanged = !base || !sameLists(local, base.lists);
+    const remoteChanged = !base || remote.revision !== base.revision;
+    if (!remoteChanged) return local;
+    if (!localChanged) return remote.lists;
+    if (strategy === 'last-writer-wins') return localUpdatedAt > remote.updatedAt ? local : remote.lists;
+    return mergeWishlists(base?.lists ?? [], local, remote.lists);
+};
+
+
+// --- Sync State ---
+// What the remote looked like after the last successful sync, and whether local changes are
+// waiting to go out. Pushes always send whole lists, so the offline queue collapses to the
+// latest lists plus this flag; it survives reloads and is shared by all tabs.
+const SYNC_STATE_KEY = 'favoritesSync';
+const MAX_CONFLICT_RETRIES = 3;
+
+interface SyncState {
+    remote: string;
+    base: SyncSnapshot | null;
+    localUpdatedAt: number;
+    pending: boolean;
+}
+
+const loadSyncState = (adapter: SyncAdapter): SyncState => {
+    const fresh: SyncState = { remote: adapter.name, base: null, localUpdatedAt: 0, pending: false };
+    try {
+        const saved = JSON.parse(localStorage.getItem(SYNC_STATE_KEY) ?? 'null');
+        if (saved?.remote !== adapter.name) return fresh;
+        return {
+            ...fresh,
+            base: saved.base ? parseSnapshot(saved.base) : null,
+            localUpdatedAt: typeof saved.localUpdatedAt === 'number' ? saved.localUpdatedAt : 0,
+            pending: saved.pending === true,
+        };
+    } catch (e) {
+        return fresh;
+    }
+};
+
+const saveSyncState = (state: SyncState) => {
+    try {
+        localStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+    } catch (e) {
+        // Storage full: the next sync treats everything as changed, which merges safely
+    }
+};
+
+export const hasPendingChanges = (adapter: SyncAdapter) => loadSyncState(adapter).pending;
+
+/**
+ * Records that the lists changed locally and returns true. Lists changed back to what was last
+ * synced leave nothing to push, so that clears the pending flag instead and returns false.
+ */
+export const recordLocalChange = (adapter: SyncAdapter, lists: Wishlist[]): boolean => {
+    const state = loadSyncState(adapter);
+    if (state.base && sameLists(lists, state.base.lists)) {
+        if (state.pending) saveSyncState({ ...state, pending: false });
+        return false;
+    }
+    saveSyncState({ ...state, localUpdatedAt: Date.now(), pending: true });
+    return true;
+};
+
+/**
+ * Pulls the remote lists, reconciles them with `local` and pushes the result if the remote
+ * doesn't have it yet. Returns the lists to use locally, which is `local` itself if nothing
+ * changed. Throws SyncError when the remote can't be reached; pending changes stay recorded.
+ */
+export const synchronize = async (adapter: SyncAdapter, strategy: SyncStrategy, local: Wishlist[]): Promise<Wishlist[]> => {
+    const state = loadSyncState(adapter);
+    for (let attempt = 0; attempt < MAX_CONFLICT_RETRIES; attempt++) {
+        const remote = await adapter.pull();
+        const resolved = reconcile(state.base, local, state.localUpdatedAt, remote, strategy);
+        let synced = remote;
+        if (!synced || !sameLists(resolved, synced.lists)) {
+            const updatedAt = resolved === local ? state.localUpdatedAt || Date.now() : Date.now();
+            try {
+                synced = await adapter.push(resolved, updatedAt, remote?.revision ?? null);
+            } catch (error) {
+                // Someone pushed in between; start over from their lists
+                if (error instanceof SyncConflictError) continue;
+                throw error;
+            }
+        }
+        // Changes recorded while this ran still need to go out
+        const current = loadSyncState(adapter);
+        saveSyncState({ ...current, base: synced, pending: current.localUpdatedAt !== state.localUpdatedAt });
+        return sameLists(resolved, local) ? local : resolved;
+    }
+    throw new SyncError('The favorites kept changing on the sync server. Try again in a moment.', 'busy');
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import type { ChampionFull, FavoriteSkin, SkinInfo } from '../types';
+import { exportFavoritesCsv, parseFavoritesImport } from './favoritesTransfer';
+
+const DETAILS: ChampionFull = {
+    id: 'Ahri',
+    key: '103',
+    name: 'Ahri',
+    skins: [
+        { id: '103001', num: 1, name: '=HYPERLINK("http://example.com")', chromas: false },
+        { id: '103002', num: 2, name: 'Ahri, "the Fox"', chromas: false },
+    ],
+};
+
+const favorite = (index: number): FavoriteSkin => ({ ...DETAILS.skins[index], championId: 'Ahri', championName: 'Ahri' });
+
+const SKIN_INFO = new Map<number, SkinInfo>([
+    [103001, { price: 1350, costs: [{ currency: 'rp', amount: 1350 }], rarity: 'epic', isBase: false, isLegacy: false, isLimited: false }],
+]);
+
+describe('exportFavoritesCsv', () => {
+    it('keeps spreadsheets from running fields as formulas', () => {
+        const names = ['=1+1', '+1', '-1', '@SUM(A1)'];
+        const favorites = names.map(name => ({ ...favorite(0), name }));
+        const fields = exportFavoritesCsv(favorites, SKIN_INFO).split('\r\n').slice(1).map(row => row.split(',')[1]);
+        expect(fields).toEqual([`"'=1+1"`, `"'+1"`, `"'-1"`, `"'@SUM(A1)"`]);
+    });
+
+    it('quotes fields with commas and quotes, and reads its own output back', () => {
+        const csv = exportFavoritesCsv([favorite(0), favorite(1)], SKIN_INFO);
+        expect(csv.split('\r\n')[2]).toBe('Ahri,"Ahri, ""the Fox""",103002,,');
+
+        const result = parseFavoritesImport(csv, new Map([[DETAILS.id, DETAILS]]), SKIN_INFO);
+        expect(result.skins.map(skin => skin.id)).toEqual(['103001', '103002']);
+        expect(result.unknown).toEqual([]);
+    });
+});
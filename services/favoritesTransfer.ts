@@ -0,0 +1,189 @@
+import type { ChampionFull, FavoriteSkin, SkinInfo } from '../types';
+import { buildSkinIndex, toFavoriteSkin } from './skinIndex';
+import { RARITY_LABELS } from './skinMetadata';
+
+// --- Favorites Import / Export ---
+export const EXPORT_SCHEMA_VERSION = 1;
+
+interface ExportedSkin {
+    id: string;
+    num: number;
+    name: string;
+    championId: string;
+    championName: string;
+    price: number | null;
+    rarity: string | null;
+}
+
+interface FavoritesExport {
+    schemaVersion: number;
+    exportedAt: string;
+    listName: string;
+    skins: ExportedSkin[];
+}
+
+export interface FavoritesImportResult {
+    skins: FavoriteSkin[];
+    /** Ids (or raw labels, when no id could be read) that don't match any current skin. */
+    unknown: string[];
+}
+
+export type FavoritesImportErrorKind = 'invalidJson' | 'notAnExport' | 'unsupportedVersion' | 'noIdColumn';
+
+export class FavoritesImportError extends Error {
+    constructor(message: string, public readonly kind: FavoritesImportErrorKind) {
+        super(message);
+        this.name = 'FavoritesImportError';
+    }
+}
+
+const CSV_COLUMNS = ['Champion', 'Skin Name', 'Skin ID', 'RP Price', 'Rarity'];
+
+const displayName = (fav: FavoriteSkin) => fav.name === 'default' ? fav.championName : fav.name;
+
+export const exportFavoritesJson = (listName: string, favorites: FavoriteSkin[], skinInfo: Map<number, SkinInfo>): string => {
+    const payload: FavoritesExport = {
+        schemaVersion: EXPORT_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        listName,
+        skins: favorites.map(fav => {
+            const info = skinInfo.get(parseInt(fav.id));
+            return {
+                id: fav.id,
+                num: fav.num,
+                name: fav.name,
+                championId: fav.championId,
+                championName: fav.championName,
+                price: info && info.price > 0 ? info.price : null,
+                rarity: info ? RARITY_LABELS[info.rarity] : null,
+            };
+        }),
+    };
+    return JSON.stringify(payload, null, 2);
+};
+
+/**
+ * Quotes fields that need it. Spreadsheets run fields starting with `=`, `+`, `-` or `@` as
+ * formulas, so those get a leading `'` (and quotes) to be shown as text.
+ */
+const escapeCsvField = (value: string) => {
+    if (/^[=+\-@]/.test(value)) return `"'${value.replace(/"/g, '""')}"`;
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const exportFavoritesCsv = (favorites: FavoriteSkin[], skinInfo: Map<number, SkinInfo>): string => {
+    const rows = favorites.map(fav => {
+        const info = skinInfo.get(parseInt(fav.id));
+        return [
+            fav.championName,
+            displayName(fav),
+            fav.id,
+            info && info.price > 0 ? String(info.price) : '',
+            info ? RARITY_LABELS[info.rarity] : '',
+        ];
+    });
+    return [CSV_COLUMNS, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+};
+
+/** Splits CSV text into rows of fields, handling quoted fields with embedded commas, quotes and newlines. */
+const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(f => f.trim() !== ''));
+};
+
+const readJsonIds = (text: string): string[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new FavoritesImportError('The file is not valid JSON.', 'invalidJson');
+    }
+    const payload = data as Partial<FavoritesExport>;
+    if (typeof payload !== 'object' || payload === null || !Array.isArray(payload.skins)) {
+        throw new FavoritesImportError('The file is not a favorites export.', 'notAnExport');
+    }
+    if (typeof payload.schemaVersion !== 'number' || payload.schemaVersion > EXPORT_SCHEMA_VERSION) {
+        throw new FavoritesImportError(`Unsupported export version: ${payload.schemaVersion}.`, 'unsupportedVersion');
+    }
+    return payload.skins.map(skin => String((skin as Partial<ExportedSkin>)?.id ?? ''));
+};
+
+const readCsvIds = (text: string): string[] => {
+    const [header, ...rows] = parseCsv(text);
+    const idColumn = header ? header.findIndex(h => h.trim().toLowerCase() === 'skin id') : -1;
+    if (idColumn === -1) throw new FavoritesImportError('The CSV file has no "Skin ID" column.', 'noIdColumn');
+    return rows.map(row => (row[idColumn] ?? '').trim());
+};
+
+/**
+ * Reads an exported JSON or CSV file and resolves its skin ids against the current
+ * champion data. Ids that no longer exist are reported rather than imported.
+ */
+export const parseFavoritesImport = (
+    text: string,
+    championDetailsCache: Map<string, ChampionFull>,
+    skinInfo: Map<number, SkinInfo>,
+): FavoritesImportResult => {
+    const trimmed = text.trim();
+    const ids = trimmed.startsWith('{') ? readJsonIds(trimmed) : readCsvIds(trimmed);
+    const index = buildSkinIndex(championDetailsCache, skinInfo);
+
+    const result: FavoritesImportResult = { skins: [], unknown: [] };
+    const seen = new Set<string>();
+    ids.forEach((id, row) => {
+        if (seen.has(id)) return;
+        seen.add(id);
+        const match = index.get(id);
+        if (match) {
+            result.skins.push(toFavoriteSkin(match.skin, match.champion, match.parentSkinId));
+        } else {
+            result.unknown.push(id || `row ${row + 1} (no id)`);
+        }
+    });
+    return result;
+};
+
+const REVOKE_DELAY_MS = 60_000;
+
+export const downloadTextFile = (fileName: string, content: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Revoking right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
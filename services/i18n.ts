@@ -0,0 +1,2032 @@
+import type { SkinCost } from '../types';
+import { DEFAULT_DATA_LOCALE, DataClientError } from './dataClient';
+import { FavoritesImportError } from './favoritesTransfer';
+import { SyncError } from './favoritesSync';
+import { RecommendationError } from './recommendations';
+import { ShareLinkError } from './shareLink';
+
+// --- Locales ---
+// Ids are Data Dragon language codes, so the selected locale also picks the champion and skin data files.
+// Only some have a message catalog below; the rest change the data and leave the interface in English.
+export const LOCALES = [
+    { id: 'en_US', label: 'English' },
+    { id: 'de_DE', label: 'Deutsch' },
+    { id: 'es_ES', label: 'Español' },
+    { id: 'fr_FR', label: 'Français' },
+    { id: 'it_IT', label: 'Italiano' },
+    { id: 'pl_PL', label: 'Polski' },
+    { id: 'pt_BR', label: 'Português (Brasil)' },
+    { id: 'ru_RU', label: 'Русский' },
+    { id: 'tr_TR', label: 'Türkçe' },
+    { id: 'ja_JP', label: '日本語' },
+    { id: 'ko_KR', label: '한국어' },
+    { id: 'zh_CN', label: '简体中文' },
+    { id: 'zh_TW', label: '繁體中文' },
+] as const;
+
+export type Locale = typeof LOCALES[number]['id'];
+
+export const DEFAULT_LOCALE: Locale = DEFAULT_DATA_LOCALE;
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(locale => locale.id === value);
+
+/** Data Dragon codes use an underscore; Intl and the `lang` attribute expect a BCP 47 tag. */
+export const toLanguageTag = (locale: Locale) => locale.replace('_', '-');
+
+
+// --- Message Catalog ---
+// English is the complete catalog; other locales may leave keys out and fall back to it.
+const EN_US = {
+    'app.loading': 'Loading latest skin data...',
+    'app.loadError': "Couldn't load champion data.",
+    'app.retry': 'Retry',
+    'app.pricesUnavailable': 'Prices unavailable: {error}',
+    'app.clearCache': 'Clear cached data',
+    'app.language': 'Language',
+    'app.loadingVersions': 'Loading versions...',
+    'app.newSinceLastVisit': '{count} new since your last visit',
+    'app.collection': 'Collection: {owned}/{total} skins owned ({percent}%)',
+    'app.collectionValue': '{value} value',
+    'app.championOwned': '{owned}/{total} owned',
+    'app.offline': 'Offline',
+    'app.dataVersion': 'Data: patch {version}',
+    'sync.synced': 'Synced',
+    'sync.syncing': 'Syncing...',
+    'sync.pending': 'Waiting to sync',
+    'sync.error': 'Sync failed',
+    'sync.now': 'Sync now',
+    'view.champions': 'Champions',
+    'view.skins': 'Skins',
+    'view.lines': 'Lines',
+    'view.patches': 'New',
+    'view.ask': 'Ask',
+    'title.champions': 'All Champions',
+    'title.skins': 'All Skins',
+    'title.lines': 'Skin Lines',
+    'title.patches': "What's New",
+    'title.ask': 'Ask for Skins',
+    'search.champion': 'Search Champion...',
+    'champions.roles': 'Roles',
+    'champions.allRoles': 'All roles',
+    'champions.sortBy': 'Sort champions by',
+    'champions.sortName': 'Name',
+    'champions.sortSkins': 'Most skins',
+    'champions.sortFavorites': 'Most favorites',
+    'champions.noMatches': 'No champions match these filters.',
+    'role.Assassin': 'Assassin',
+    'role.Fighter': 'Fighter',
+    'role.Mage': 'Mage',
+    'role.Marksman': 'Marksman',
+    'role.Support': 'Support',
+    'role.Tank': 'Tank',
+    'favorites.title': 'Favorite Skins',
+    'favorites.empty': 'Your favorite skins will appear here.',
+    'favorites.totalCost': 'Total Cost:',
+    'favorites.markOwned': 'Mark as owned',
+    'favorites.chroma': 'Chroma',
+    'price.rp': '{amount} RP',
+    'price.orangeEssence': '{amount} OE',
+    'price.mythicEssence': '{amount} ME',
+    'price.eventToken': '{amount} tokens',
+    'currency.rp': 'RP',
+    'currency.orangeEssence': 'Orange Essence',
+    'currency.mythicEssence': 'Mythic Essence',
+    'currency.eventToken': 'Event tokens',
+    'cost.edit': 'Correct the cost',
+    'cost.overridden': 'Cost entered by you',
+    'cost.add': 'Add currency',
+    'cost.remove': 'Remove',
+    'cost.save': 'Save',
+    'cost.reset': 'Use loaded data',
+    'cost.cancel': 'Cancel',
+    'price.sale': 'Sale',
+    'price.changed': 'Was {price} on your last visit',
+    'price.target': 'Target price',
+    'budget.open': 'Plan a budget',
+    'budget.title': 'Budget planner',
+    'budget.amount': 'Budget',
+    'budget.unit': 'Budget unit',
+    'budget.balance': 'RP on your account',
+    'budget.goal': 'Without priorities, prefer',
+    'budget.goalCount': 'Most skins',
+    'budget.goalRarity': 'Highest rarity',
+    'budget.buys': 'That buys up to {amount}.',
+    'budget.fits': '{count} skins for {total}',
+    'budget.buy': 'Buy:',
+    'budget.noBundles': 'Add an RP bundle to see what to buy.',
+    'budget.leftover': 'Left over afterwards: {amount}',
+    'budget.nothingFits': 'None of the favorites fit this budget.',
+    'budget.enterAmount': 'Enter a budget to get a suggestion.',
+    'budget.skipped': '{count} more favorites don\'t fit.',
+    'budget.bundles': 'RP bundles',
+    'budget.currency': 'Currency',
+    'budget.bundleRp': 'RP in bundle',
+    'budget.bundlePrice': 'Bundle price',
+    'budget.removeBundle': 'Remove bundle',
+    'budget.addBundle': 'Add bundle',
+    'budget.resetBundles': 'Reset to defaults',
+    'budget.close': 'Close',
+    'favorites.edit': 'Priority, note and tags',
+    'favorites.filter': 'Filter by name...',
+    'favorites.sort': 'Sort by',
+    'favorites.anyPriority': 'Any priority',
+    'favorites.anyRarity': 'Any rarity',
+    'favorites.anyTag': 'Any tag',
+    'favorites.maxPrice': 'Max RP',
+    'favorites.noMatches': 'No favorites match these filters.',
+    'favorites.reorderHint': 'Drag or press Alt+Up/Down to reorder',
+    'favorites.subtotals': 'Subtotals',
+    'favorites.untagged': 'No tag',
+    'favorites.noPriority': 'No priority',
+    'sort.manual': 'My order',
+    'sort.champion': 'Champion',
+    'sort.price': 'Price',
+    'sort.rarity': 'Rarity',
+    'sort.priority': 'Priority',
+    'subtotal.none': 'No subtotals',
+    'subtotal.tag': 'By tag',
+    'subtotal.priority': 'By priority',
+    'priority.none': 'No priority',
+    'priority.high': 'High',
+    'priority.medium': 'Medium',
+    'priority.low': 'Low',
+    'notes.title': 'Notes for {name}',
+    'notes.priority': 'Priority',
+    'notes.note': 'Note',
+    'notes.tags': 'Tags (comma-separated)',
+    'notes.save': 'Save',
+    'notes.cancel': 'Cancel',
+    'skin.legacy': 'Legacy',
+    'skin.limited': 'Limited',
+    'skin.firstSeen': 'New in {version}',
+    'price.setTarget': 'Alert me when {name} costs at most (RP). Leave empty to clear:',
+    'favorites.fullPriceTotal': '{total} at full price',
+    'favorites.targetReached': 'Target price reached:',
+    'notFound.title': 'Page not found',
+    'notFound.body': "There's no champion or skin at this address.",
+    'notFound.back': 'Back to all champions',
+    'title.compare': 'Compare Skins',
+    'compare.add': 'Add to comparison',
+    'compare.remove': 'Remove from comparison',
+    'compare.full': 'You can compare up to {max} skins',
+    'compare.open': 'Compare ({count})',
+    'compare.clear': 'Clear',
+    'compare.pickMore': "Pick at least two skins to compare, from a champion's skins or your favorites.",
+    'compare.chromas': '{count} chromas',
+    'compare.noChromas': 'No chromas',
+    'compare.chromaOf': 'Chroma of {name}',
+    'compare.unresolved': "Some skins in this link aren't in the current data.",
+    'app.close': 'Close',
+    'app.owned': 'Owned',
+    'app.needsAllData': 'Available once all champion data has loaded',
+    'app.confirmOwnedFavorite': 'You already own {name}. Add it to your wishlist anyway?',
+    'app.sharedList': 'Shared list',
+    'rarity.none': 'None',
+    'rarity.epic': 'Epic',
+    'rarity.legendary': 'Legendary',
+    'rarity.ultimate': 'Ultimate',
+    'rarity.mythic': 'Mythic',
+    'rarity.transcendent': 'Transcendent',
+    'rarity.exalted': 'Exalted',
+    'lists.current': 'Current list',
+    'lists.new': 'New list',
+    'lists.newPrompt': 'Name for the new list:',
+    'lists.rename': 'Rename list',
+    'lists.renamePrompt': 'Rename list:',
+    'lists.delete': 'Delete list',
+    'lists.deleteConfirm': 'Delete "{name}"? This can\'t be undone.',
+    'lists.exportJson': 'Export list as JSON',
+    'lists.exportCsv': 'Export list as CSV',
+    'lists.import': 'Import',
+    'lists.importHint': 'Import a JSON or CSV export into this list',
+    'lists.importFailed': 'Couldn\'t import {file}: {error}',
+    'lists.share': 'Share',
+    'lists.shareHint': 'Copy a read-only link to this list',
+    'lists.sharePrompt': 'Copy this link to share the list:',
+    'lists.copied': 'Copied!',
+    'lists.removeSkin': 'Remove from list',
+    'lists.addTo': 'Add to "{name}"',
+    'lists.favoriteIn': 'Favorite in "{name}"',
+    'import.title': 'Import into "{name}"',
+    'import.found': '{count} skins found.',
+    'import.found.one': '{count} skin found.',
+    'import.unknown': '{count} entries didn\'t match any current skin and will be skipped:',
+    'import.unknown.one': '{count} entry didn\'t match any current skin and will be skipped:',
+    'import.cancel': 'Cancel',
+    'import.replace': 'Replace list',
+    'import.merge': 'Merge',
+    'shared.title': 'Shared: {name}',
+    'shared.copy': 'Copy to my lists',
+    'shared.copyHint': 'Copy these skins into a new list of your own',
+    'shared.closeHint': 'Back to your own lists',
+    'shared.error': 'This share link couldn\'t be opened. {error}',
+    'shared.loading': 'Loading shared skins...',
+    'shared.unresolved': '{count} skins in this link no longer exist:',
+    'shared.unresolved.one': '{count} skin in this link no longer exists:',
+    'lines.loadError': 'Couldn\'t load skin lines. {error}',
+    'lines.loading': 'Loading skin lines...',
+    'lines.search': 'Search Skin Lines...',
+    'lines.favorited': '{favorited}/{total} favorited',
+    'lines.owned': '{count} owned',
+    'lines.toComplete': '{amount} to complete',
+    'lines.toCompleteHint': 'Cost of the skins still missing from this line',
+    'lines.addAll': 'Add all',
+    'lines.addRemaining': 'Add remaining ({count})',
+    'lines.none': 'No skin lines found.',
+    'patches.from': 'From',
+    'patches.to': 'To',
+    'patches.loadError': 'Couldn\'t compare these versions. {error}',
+    'patches.comparing': 'Comparing {from} and {to}...',
+    'patches.newChampions': 'New champions ({count})',
+    'patches.noChampions': 'No new champions.',
+    'patches.newSkins': 'New skins ({count})',
+    'patches.noSkins': 'No new skins.',
+    'patches.onWishlist': 'A champion on your wishlists',
+    'search.skins': 'Search Skins...',
+    'search.minPrice': 'Min',
+    'search.maxPrice': 'Max',
+    'search.hasChromas': 'Has chromas',
+    'search.favorited': 'Favorited',
+    'search.favoritedAny': 'Favorited or not',
+    'search.favoritedNo': 'Not favorited',
+    'search.availability': 'Availability',
+    'search.availabilityAny': 'Any availability',
+    'search.inStore': 'In the store',
+    'search.sortBy': 'Sort by',
+    'search.sortName': 'Name',
+    'search.sortChampion': 'Champion',
+    'search.sortPriceAsc': 'Price: low to high',
+    'search.sortPriceDesc': 'Price: high to low',
+    'search.noResults': 'No skins match these filters.',
+    'search.showMore': 'Show more ({count} remaining)',
+    'modal.skins': '{name} skins',
+    'modal.loadError': 'Couldn\'t load skins for {name}.',
+    'modal.loading': 'Loading skins...',
+    'modal.loadingArt': 'Loading skin art...',
+    'modal.previous': 'Previous skin',
+    'modal.next': 'Next skin',
+    'modal.position': '{name}, skin {index} of {total}',
+    'modal.positionChroma': '{name}, skin {index} of {total}, chroma',
+    'modal.base': 'Base',
+    'modal.baseHint': 'Base skin',
+    'modal.targetList': 'Wishlist to add this skin to',
+    'modal.markOwned': 'Mark as owned',
+    'modal.markNotOwned': 'Mark as not owned',
+    'modal.splashUnavailable': 'Splash art unavailable',
+    'ask.placeholder': 'e.g. "dark-themed mage skins under 1350 RP I don\'t have yet"',
+    'ask.label': 'Describe the skins you\'re looking for',
+    'ask.submit': 'Ask',
+    'ask.submitHint': 'Ask {name}',
+    'ask.asking': 'Asking...',
+    'ask.error': 'Couldn\'t get recommendations. {error}',
+    'ask.addAll': 'Add all ({count})',
+    'ask.rejected': '{count} suggestions didn\'t match a current skin and were left out.',
+    'ask.rejected.one': '{count} suggestion didn\'t match a current skin and was left out.',
+    'ask.noResults': 'No skins matched that request.',
+    'rating.label': 'Ratings',
+    'rating.attack': 'Attack',
+    'rating.defense': 'Defense',
+    'rating.magic': 'Magic',
+    'rating.difficulty': 'Difficulty',
+    'rating.value': '{value} of 10',
+    'error.unknown': 'Something went wrong.',
+    'error.data.timeout': 'The request timed out.',
+    'error.data.network': 'Could not reach the server. Check your connection.',
+    'error.data.http': 'The server responded with status {status}.',
+    'error.data.invalid': 'The server returned data in an unexpected format.',
+    'error.share.unsupportedVersion': 'This link was made by an unsupported version of the app.',
+    'error.share.malformed': 'This link is incomplete or malformed.',
+    'error.share.invalidId': 'The link contains an invalid skin id.',
+    'error.share.tooManySkins': 'This link contains too many skins.',
+    'error.import.invalidJson': 'The file is not valid JSON.',
+    'error.import.notAnExport': 'The file is not a favorites export.',
+    'error.import.unsupportedVersion': 'The file was exported by an unsupported version of the app.',
+    'error.import.noIdColumn': 'The CSV file has no "Skin ID" column.',
+    'error.sync.offline': 'Could not reach the sync server.',
+    'error.sync.http': 'The sync server responded with status {status}.',
+    'error.sync.invalid': 'The sync server returned data in an unexpected format.',
+    'error.sync.conflict': 'The favorites were changed elsewhere.',
+    'error.sync.busy': 'The favorites kept changing on the sync server. Try again in a moment.',
+    'error.recommendation.unreadable': 'The model returned an answer that could not be read.',
+    'ask.criteria': 'Skins {criteria}.',
+    'ask.criteria.matching': 'matching “{words}”',
+    'ask.criteria.maxPrice': 'costing at most {price}',
+    'ask.criteria.notOwned': 'you don\'t own yet',
+    'ask.criteria.all': 'All skins.',
+    'app.interfaceLanguages': 'Interface and data',
+    'app.dataOnlyLanguages': 'Champion and skin data only (interface in English)',
+};
+
+export type MessageKey = keyof typeof EN_US;
+
+const MESSAGES: Partial<Record<Locale, Partial<Record<MessageKey, string>>>> = {
+    de_DE: {
+        'app.loading': 'Aktuelle Skin-Daten werden geladen...',
+        'app.loadError': 'Champion-Daten konnten nicht geladen werden.',
+        'app.retry': 'Erneut versuchen',
+        'app.pricesUnavailable': 'Preise nicht verfügbar: {error}',
+        'app.clearCache': 'Zwischengespeicherte Daten löschen',
+        'app.language': 'Sprache',
+        'app.loadingVersions': 'Versionen werden geladen...',
+        'app.newSinceLastVisit': '{count} neu seit deinem letzten Besuch',
+        'app.collection': 'Sammlung: {owned}/{total} Skins im Besitz ({percent} %)',
+        'app.collectionValue': 'Wert: {value}',
+        'app.championOwned': '{owned}/{total} im Besitz',
+        'app.offline': 'Offline',
+        'app.dataVersion': 'Daten: Patch {version}',
+        'sync.synced': 'Synchronisiert',
+        'sync.syncing': 'Synchronisiere...',
+        'sync.pending': 'Wartet auf Synchronisierung',
+        'sync.error': 'Synchronisierung fehlgeschlagen',
+        'sync.now': 'Jetzt synchronisieren',
+        'view.champions': 'Champions',
+        'view.skins': 'Skins',
+        'view.lines': 'Reihen',
+        'view.patches': 'Neu',
+        'view.ask': 'Fragen',
+        'title.champions': 'Alle Champions',
+        'title.skins': 'Alle Skins',
+        'title.lines': 'Skin-Reihen',
+        'title.patches': 'Neuigkeiten',
+        'title.ask': 'Skins finden',
+        'search.champion': 'Champion suchen...',
+        'champions.roles': 'Rollen',
+        'champions.allRoles': 'Alle Rollen',
+        'champions.sortBy': 'Champions sortieren nach',
+        'champions.sortName': 'Name',
+        'champions.sortSkins': 'Meiste Skins',
+        'champions.sortFavorites': 'Meiste Favoriten',
+        'champions.noMatches': 'Keine Champions entsprechen diesen Filtern.',
+        'role.Assassin': 'Assassine',
+        'role.Fighter': 'Kämpfer',
+        'role.Mage': 'Magier',
+        'role.Marksman': 'Schütze',
+        'role.Support': 'Unterstützer',
+        'role.Tank': 'Tank',
+        'favorites.title': 'Lieblings-Skins',
+        'favorites.empty': 'Deine Lieblings-Skins erscheinen hier.',
+        'favorites.totalCost': 'Gesamtkosten:',
+        'favorites.markOwned': 'Als im Besitz markieren',
+        'favorites.chroma': 'Chroma',
+        'notFound.title': 'Seite nicht gefunden',
+        'notFound.body': 'Unter dieser Adresse gibt es keinen Champion oder Skin.',
+        'notFound.back': 'Zurück zu allen Champions',
+        'title.compare': 'Skins vergleichen',
+        'compare.add': 'Zum Vergleich hinzufügen',
+        'compare.remove': 'Aus dem Vergleich entfernen',
+        'compare.full': 'Du kannst bis zu {max} Skins vergleichen',
+        'compare.open': 'Vergleichen ({count})',
+        'compare.clear': 'Leeren',
+        'compare.pickMore': 'Wähle mindestens zwei Skins zum Vergleichen aus, bei den Skins eines Champions oder in deinen Favoriten.',
+        'compare.chromas': '{count} Chromas',
+        'compare.noChromas': 'Keine Chromas',
+        'compare.chromaOf': 'Chroma von {name}',
+        'compare.unresolved': 'Einige Skins aus diesem Link sind nicht in den aktuellen Daten.',
+        'price.sale': 'Angebot',
+        'price.eventToken': '{amount} Marken',
+        'currency.rp': 'RP',
+        'currency.orangeEssence': 'Orange Essenz',
+        'currency.mythicEssence': 'Mythische Essenz',
+        'currency.eventToken': 'Event-Marken',
+        'cost.edit': 'Kosten korrigieren',
+        'cost.overridden': 'Von dir eingegebene Kosten',
+        'cost.add': 'Währung hinzufügen',
+        'cost.remove': 'Entfernen',
+        'cost.save': 'Speichern',
+        'cost.reset': 'Geladene Daten verwenden',
+        'cost.cancel': 'Abbrechen',
+        'price.changed': 'Bei deinem letzten Besuch {price}',
+        'price.target': 'Zielpreis',
+        'budget.open': 'Budget planen',
+        'budget.title': 'Budgetplaner',
+        'budget.amount': 'Budget',
+        'budget.unit': 'Budgeteinheit',
+        'budget.balance': 'RP auf deinem Konto',
+        'budget.goal': 'Ohne Prioritäten bevorzugen',
+        'budget.goalCount': 'Möglichst viele Skins',
+        'budget.goalRarity': 'Höchste Seltenheit',
+        'budget.buys': 'Dafür gibt es bis zu {amount}.',
+        'budget.fits': '{count} Skins für {total}',
+        'budget.buy': 'Kaufen:',
+        'budget.noBundles': 'Füge ein RP-Paket hinzu, um zu sehen, was du kaufen solltest.',
+        'budget.leftover': 'Danach übrig: {amount}',
+        'budget.nothingFits': 'Keiner der Favoriten passt in dieses Budget.',
+        'budget.enterAmount': 'Gib ein Budget ein, um einen Vorschlag zu erhalten.',
+        'budget.skipped': '{count} weitere Favoriten passen nicht.',
+        'budget.bundles': 'RP-Pakete',
+        'budget.currency': 'Währung',
+        'budget.bundleRp': 'RP im Paket',
+        'budget.bundlePrice': 'Paketpreis',
+        'budget.removeBundle': 'Paket entfernen',
+        'budget.addBundle': 'Paket hinzufügen',
+        'budget.resetBundles': 'Auf Standard zurücksetzen',
+        'budget.close': 'Schließen',
+        'favorites.edit': 'Priorität, Notiz und Tags',
+        'favorites.filter': 'Nach Namen filtern...',
+        'favorites.sort': 'Sortieren nach',
+        'favorites.anyPriority': 'Jede Priorität',
+        'favorites.anyRarity': 'Jede Seltenheit',
+        'favorites.anyTag': 'Jeder Tag',
+        'favorites.maxPrice': 'Max. RP',
+        'favorites.noMatches': 'Keine Favoriten passen zu diesen Filtern.',
+        'favorites.reorderHint': 'Ziehen oder Alt+Pfeil hoch/runter zum Umsortieren',
+        'favorites.subtotals': 'Zwischensummen',
+        'favorites.untagged': 'Ohne Tag',
+        'favorites.noPriority': 'Ohne Priorität',
+        'sort.manual': 'Meine Reihenfolge',
+        'sort.champion': 'Champion',
+        'sort.price': 'Preis',
+        'sort.rarity': 'Seltenheit',
+        'sort.priority': 'Priorität',
+        'subtotal.none': 'Keine Zwischensummen',
+        'subtotal.tag': 'Nach Tag',
+        'subtotal.priority': 'Nach Priorität',
+        'priority.none': 'Keine Priorität',
+        'priority.high': 'Hoch',
+        'priority.medium': 'Mittel',
+        'priority.low': 'Niedrig',
+        'notes.title': 'Notizen zu {name}',
+        'notes.priority': 'Priorität',
+        'notes.note': 'Notiz',
+        'notes.tags': 'Tags (durch Kommas getrennt)',
+        'notes.save': 'Speichern',
+        'notes.cancel': 'Abbrechen',
+        'skin.legacy': 'Legacy',
+        'skin.limited': 'Limitiert',
+        'skin.firstSeen': 'Neu in {version}',
+        'price.setTarget': 'Benachrichtige mich, wenn {name} höchstens so viel kostet (RP). Leer lassen zum Entfernen:',
+        'favorites.fullPriceTotal': '{total} zum vollen Preis',
+        'favorites.targetReached': 'Zielpreis erreicht:',
+        'app.close': 'Schließen',
+        'app.owned': 'Im Besitz',
+        'app.needsAllData': 'Verfügbar, sobald alle Champion-Daten geladen sind',
+        'app.confirmOwnedFavorite': 'Du besitzt {name} bereits. Trotzdem zur Wunschliste hinzufügen?',
+        'app.sharedList': 'Geteilte Liste',
+        'rarity.none': 'Keine',
+        'rarity.epic': 'Episch',
+        'rarity.legendary': 'Legendär',
+        'rarity.ultimate': 'Ultimativ',
+        'rarity.mythic': 'Mythisch',
+        'rarity.transcendent': 'Transzendent',
+        'rarity.exalted': 'Erhaben',
+        'lists.current': 'Aktuelle Liste',
+        'lists.new': 'Neue Liste',
+        'lists.newPrompt': 'Name der neuen Liste:',
+        'lists.rename': 'Liste umbenennen',
+        'lists.renamePrompt': 'Liste umbenennen:',
+        'lists.delete': 'Liste löschen',
+        'lists.deleteConfirm': '„{name}“ löschen? Das kann nicht rückgängig gemacht werden.',
+        'lists.exportJson': 'Liste als JSON exportieren',
+        'lists.exportCsv': 'Liste als CSV exportieren',
+        'lists.import': 'Importieren',
+        'lists.importHint': 'Einen JSON- oder CSV-Export in diese Liste importieren',
+        'lists.importFailed': '{file} konnte nicht importiert werden: {error}',
+        'lists.share': 'Teilen',
+        'lists.shareHint': 'Einen schreibgeschützten Link zu dieser Liste kopieren',
+        'lists.sharePrompt': 'Kopiere diesen Link, um die Liste zu teilen:',
+        'lists.copied': 'Kopiert!',
+        'lists.removeSkin': 'Aus der Liste entfernen',
+        'lists.addTo': 'Zu „{name}“ hinzufügen',
+        'lists.favoriteIn': 'Favorit in „{name}“',
+        'import.title': 'In „{name}“ importieren',
+        'import.found': '{count} Skins gefunden.',
+        'import.found.one': '{count} Skin gefunden.',
+        'import.unknown': '{count} Einträge passen zu keinem aktuellen Skin und werden übersprungen:',
+        'import.unknown.one': '{count} Eintrag passt zu keinem aktuellen Skin und wird übersprungen:',
+        'import.cancel': 'Abbrechen',
+        'import.replace': 'Liste ersetzen',
+        'import.merge': 'Zusammenführen',
+        'shared.title': 'Geteilt: {name}',
+        'shared.copy': 'In meine Listen kopieren',
+        'shared.copyHint': 'Diese Skins in eine neue eigene Liste kopieren',
+        'shared.closeHint': 'Zurück zu deinen Listen',
+        'shared.error': 'Dieser Link konnte nicht geöffnet werden. {error}',
+        'shared.loading': 'Geteilte Skins werden geladen...',
+        'shared.unresolved': '{count} Skins aus diesem Link gibt es nicht mehr:',
+        'shared.unresolved.one': '{count} Skin aus diesem Link gibt es nicht mehr:',
+        'lines.loadError': 'Skin-Reihen konnten nicht geladen werden. {error}',
+        'lines.loading': 'Skin-Reihen werden geladen...',
+        'lines.search': 'Skin-Reihen suchen...',
+        'lines.favorited': '{favorited}/{total} favorisiert',
+        'lines.owned': '{count} im Besitz',
+        'lines.toComplete': '{amount} bis zur Vervollständigung',
+        'lines.toCompleteHint': 'Kosten der Skins, die in dieser Reihe noch fehlen',
+        'lines.addAll': 'Alle hinzufügen',
+        'lines.addRemaining': 'Restliche hinzufügen ({count})',
+        'lines.none': 'Keine Skin-Reihen gefunden.',
+        'patches.from': 'Von',
+        'patches.to': 'Bis',
+        'patches.loadError': 'Diese Versionen konnten nicht verglichen werden. {error}',
+        'patches.comparing': '{from} und {to} werden verglichen...',
+        'patches.newChampions': 'Neue Champions ({count})',
+        'patches.noChampions': 'Keine neuen Champions.',
+        'patches.newSkins': 'Neue Skins ({count})',
+        'patches.noSkins': 'Keine neuen Skins.',
+        'patches.onWishlist': 'Ein Champion auf deinen Wunschlisten',
+        'search.skins': 'Skins suchen...',
+        'search.minPrice': 'Min.',
+        'search.maxPrice': 'Max.',
+        'search.hasChromas': 'Mit Chromas',
+        'search.favorited': 'Favorisiert',
+        'search.favoritedAny': 'Favorisiert oder nicht',
+        'search.favoritedNo': 'Nicht favorisiert',
+        'search.availability': 'Verfügbarkeit',
+        'search.availabilityAny': 'Jede Verfügbarkeit',
+        'search.inStore': 'Im Shop',
+        'search.sortBy': 'Sortieren nach',
+        'search.sortName': 'Name',
+        'search.sortChampion': 'Champion',
+        'search.sortPriceAsc': 'Preis: aufsteigend',
+        'search.sortPriceDesc': 'Preis: absteigend',
+        'search.noResults': 'Keine Skins entsprechen diesen Filtern.',
+        'search.showMore': 'Mehr anzeigen (noch {count})',
+        'modal.skins': 'Skins von {name}',
+        'modal.loadError': 'Skins für {name} konnten nicht geladen werden.',
+        'modal.loading': 'Skins werden geladen...',
+        'modal.loadingArt': 'Skin-Artwork wird geladen...',
+        'modal.previous': 'Vorheriger Skin',
+        'modal.next': 'Nächster Skin',
+        'modal.position': '{name}, Skin {index} von {total}',
+        'modal.positionChroma': '{name}, Skin {index} von {total}, Chroma',
+        'modal.base': 'Basis',
+        'modal.baseHint': 'Basis-Skin',
+        'modal.targetList': 'Wunschliste für diesen Skin',
+        'modal.markOwned': 'Als im Besitz markieren',
+        'modal.markNotOwned': 'Als nicht im Besitz markieren',
+        'modal.splashUnavailable': 'Splash-Art nicht verfügbar',
+        'ask.placeholder': 'z. B. „düstere Magier-Skins unter 1350 RP, die ich noch nicht habe“',
+        'ask.label': 'Beschreibe die gesuchten Skins',
+        'ask.submit': 'Fragen',
+        'ask.submitHint': '{name} fragen',
+        'ask.asking': 'Frage läuft...',
+        'ask.error': 'Empfehlungen konnten nicht abgerufen werden. {error}',
+        'ask.addAll': 'Alle hinzufügen ({count})',
+        'ask.rejected': '{count} Vorschläge passten zu keinem aktuellen Skin und wurden weggelassen.',
+        'ask.rejected.one': '{count} Vorschlag passte zu keinem aktuellen Skin und wurde weggelassen.',
+        'ask.noResults': 'Keine Skins passen zu dieser Anfrage.',
+        'rating.label': 'Bewertungen',
+        'rating.attack': 'Angriff',
+        'rating.defense': 'Verteidigung',
+        'rating.magic': 'Magie',
+        'rating.difficulty': 'Schwierigkeit',
+        'rating.value': '{value} von 10',
+        'error.unknown': 'Etwas ist schiefgelaufen.',
+        'error.data.timeout': 'Die Anfrage hat zu lange gedauert.',
+        'error.data.network': 'Der Server ist nicht erreichbar. Prüfe deine Verbindung.',
+        'error.data.http': 'Der Server antwortete mit Status {status}.',
+        'error.data.invalid': 'Der Server lieferte Daten in einem unerwarteten Format.',
+        'error.share.unsupportedVersion': 'Dieser Link stammt von einer nicht unterstützten Version der App.',
+        'error.share.malformed': 'Dieser Link ist unvollständig oder fehlerhaft.',
+        'error.share.invalidId': 'Der Link enthält eine ungültige Skin-ID.',
+        'error.share.tooManySkins': 'Dieser Link enthält zu viele Skins.',
+        'error.import.invalidJson': 'Die Datei ist kein gültiges JSON.',
+        'error.import.notAnExport': 'Die Datei ist kein Favoriten-Export.',
+        'error.import.unsupportedVersion': 'Die Datei wurde von einer nicht unterstützten Version der App exportiert.',
+        'error.import.noIdColumn': 'Die CSV-Datei hat keine Spalte „Skin ID“.',
+        'error.sync.offline': 'Der Sync-Server ist nicht erreichbar.',
+        'error.sync.http': 'Der Sync-Server antwortete mit Status {status}.',
+        'error.sync.invalid': 'Der Sync-Server lieferte Daten in einem unerwarteten Format.',
+        'error.sync.conflict': 'Die Favoriten wurden an anderer Stelle geändert.',
+        'error.sync.busy': 'Die Favoriten haben sich auf dem Sync-Server ständig geändert. Versuche es gleich noch einmal.',
+        'error.recommendation.unreadable': 'Das Modell lieferte eine Antwort, die nicht gelesen werden konnte.',
+        'ask.criteria': 'Skins {criteria}.',
+        'ask.criteria.matching': 'passend zu „{words}“',
+        'ask.criteria.maxPrice': 'für höchstens {price}',
+        'ask.criteria.notOwned': 'die du noch nicht besitzt',
+        'ask.criteria.all': 'Alle Skins.',
+        'app.interfaceLanguages': 'Oberfläche und Daten',
+        'app.dataOnlyLanguages': 'Nur Champion- und Skin-Daten (Oberfläche auf Englisch)',
+    },
+    es_ES: {
+        'app.loading': 'Cargando los últimos datos de aspectos...',
+        'app.loadError': 'No se pudieron cargar los datos de campeones.',
+        'app.retry': 'Reintentar',
+        'app.pricesUnavailable': 'Precios no disponibles: {error}',
+        'app.clearCache': 'Borrar datos en caché',
+        'app.language': 'Idioma',
+        'app.loadingVersions': 'Cargando versiones...',
+        'app.newSinceLastVisit': '{count} novedades desde tu última visita',
+        'app.collection': 'Colección: {owned}/{total} aspectos obtenidos ({percent} %)',
+        'app.collectionValue': 'valor: {value}',
+        'app.championOwned': '{owned}/{total} obtenidos',
+        'app.offline': 'Sin conexión',
+        'app.dataVersion': 'Datos: parche {version}',
+        'sync.synced': 'Sincronizado',
+        'sync.syncing': 'Sincronizando...',
+        'sync.pending': 'Pendiente de sincronizar',
+        'sync.error': 'Error al sincronizar',
+        'sync.now': 'Sincronizar ahora',
+        'view.champions': 'Campeones',
+        'view.skins': 'Aspectos',
+        'view.lines': 'Temáticas',
+        'view.patches': 'Novedades',
+        'view.ask': 'Preguntar',
+        'title.champions': 'Todos los campeones',
+        'title.skins': 'Todos los aspectos',
+        'title.lines': 'Temáticas de aspectos',
+        'title.patches': 'Novedades',
+        'title.ask': 'Pedir aspectos',
+        'search.champion': 'Buscar campeón...',
+        'champions.roles': 'Roles',
+        'champions.allRoles': 'Todos los roles',
+        'champions.sortBy': 'Ordenar campeones por',
+        'champions.sortName': 'Nombre',
+        'champions.sortSkins': 'Más aspectos',
+        'champions.sortFavorites': 'Más favoritos',
+        'champions.noMatches': 'Ningún campeón coincide con estos filtros.',
+        'role.Assassin': 'Asesino',
+        'role.Fighter': 'Luchador',
+        'role.Mage': 'Mago',
+        'role.Marksman': 'Tirador',
+        'role.Support': 'Apoyo',
+        'role.Tank': 'Tanque',
+        'favorites.title': 'Aspectos favoritos',
+        'favorites.empty': 'Tus aspectos favoritos aparecerán aquí.',
+        'favorites.totalCost': 'Coste total:',
+        'favorites.markOwned': 'Marcar como obtenido',
+        'favorites.chroma': 'Croma',
+        'notFound.title': 'Página no encontrada',
+        'notFound.body': 'No hay ningún campeón ni aspecto en esta dirección.',
+        'notFound.back': 'Volver a todos los campeones',
+        'title.compare': 'Comparar aspectos',
+        'compare.add': 'Añadir a la comparación',
+        'compare.remove': 'Quitar de la comparación',
+        'compare.full': 'Puedes comparar hasta {max} aspectos',
+        'compare.open': 'Comparar ({count})',
+        'compare.clear': 'Vaciar',
+        'compare.pickMore': 'Elige al menos dos aspectos para comparar, desde los aspectos de un campeón o tus favoritos.',
+        'compare.chromas': '{count} chromas',
+        'compare.noChromas': 'Sin chromas',
+        'compare.chromaOf': 'Chroma de {name}',
+        'compare.unresolved': 'Algunos aspectos de este enlace no están en los datos actuales.',
+        'price.sale': 'Oferta',
+        'price.eventToken': '{amount} fichas',
+        'currency.rp': 'RP',
+        'currency.orangeEssence': 'Esencia naranja',
+        'currency.mythicEssence': 'Esencia mítica',
+        'currency.eventToken': 'Fichas de evento',
+        'cost.edit': 'Corregir el coste',
+        'cost.overridden': 'Coste introducido por ti',
+        'cost.add': 'Añadir moneda',
+        'cost.remove': 'Quitar',
+        'cost.save': 'Guardar',
+        'cost.reset': 'Usar datos cargados',
+        'cost.cancel': 'Cancelar',
+        'price.changed': 'Costaba {price} en tu última visita',
+        'price.target': 'Precio objetivo',
+        'budget.open': 'Planificar presupuesto',
+        'budget.title': 'Planificador de presupuesto',
+        'budget.amount': 'Presupuesto',
+        'budget.unit': 'Unidad del presupuesto',
+        'budget.balance': 'RP en tu cuenta',
+        'budget.goal': 'Sin prioridades, preferir',
+        'budget.goalCount': 'Más aspectos',
+        'budget.goalRarity': 'Mayor rareza',
+        'budget.buys': 'Eso compra hasta {amount}.',
+        'budget.fits': '{count} aspectos por {total}',
+        'budget.buy': 'Comprar:',
+        'budget.noBundles': 'Añade un paquete de RP para ver qué comprar.',
+        'budget.leftover': 'Sobrante después: {amount}',
+        'budget.nothingFits': 'Ningún favorito cabe en este presupuesto.',
+        'budget.enterAmount': 'Introduce un presupuesto para obtener una sugerencia.',
+        'budget.skipped': '{count} favoritos más no caben.',
+        'budget.bundles': 'Paquetes de RP',
+        'budget.currency': 'Moneda',
+        'budget.bundleRp': 'RP del paquete',
+        'budget.bundlePrice': 'Precio del paquete',
+        'budget.removeBundle': 'Quitar paquete',
+        'budget.addBundle': 'Añadir paquete',
+        'budget.resetBundles': 'Restablecer valores',
+        'budget.close': 'Cerrar',
+        'favorites.edit': 'Prioridad, nota y etiquetas',
+        'favorites.filter': 'Filtrar por nombre...',
+        'favorites.sort': 'Ordenar por',
+        'favorites.anyPriority': 'Cualquier prioridad',
+        'favorites.anyRarity': 'Cualquier rareza',
+        'favorites.anyTag': 'Cualquier etiqueta',
+        'favorites.maxPrice': 'RP máx.',
+        'favorites.noMatches': 'Ningún favorito coincide con estos filtros.',
+        'favorites.reorderHint': 'Arrastra o pulsa Alt+Arriba/Abajo para reordenar',
+        'favorites.subtotals': 'Subtotales',
+        'favorites.untagged': 'Sin etiqueta',
+        'favorites.noPriority': 'Sin prioridad',
+        'sort.manual': 'Mi orden',
+        'sort.champion': 'Campeón',
+        'sort.price': 'Precio',
+        'sort.rarity': 'Rareza',
+        'sort.priority': 'Prioridad',
+        'subtotal.none': 'Sin subtotales',
+        'subtotal.tag': 'Por etiqueta',
+        'subtotal.priority': 'Por prioridad',
+        'priority.none': 'Sin prioridad',
+        'priority.high': 'Alta',
+        'priority.medium': 'Media',
+        'priority.low': 'Baja',
+        'notes.title': 'Notas de {name}',
+        'notes.priority': 'Prioridad',
+        'notes.note': 'Nota',
+        'notes.tags': 'Etiquetas (separadas por comas)',
+        'notes.save': 'Guardar',
+        'notes.cancel': 'Cancelar',
+        'skin.legacy': 'Legado',
+        'skin.limited': 'Limitado',
+        'skin.firstSeen': 'Nuevo en {version}',
+        'price.setTarget': 'Avísame cuando {name} cueste como máximo (RP). Déjalo vacío para quitarlo:',
+        'favorites.fullPriceTotal': '{total} a precio completo',
+        'favorites.targetReached': 'Precio objetivo alcanzado:',
+        'app.close': 'Cerrar',
+        'app.owned': 'Obtenido',
+        'app.needsAllData': 'Disponible cuando se hayan cargado todos los datos de campeones',
+        'app.confirmOwnedFavorite': 'Ya tienes {name}. ¿Añadirlo a tu lista de deseos de todos modos?',
+        'app.sharedList': 'Lista compartida',
+        'rarity.none': 'Ninguna',
+        'rarity.epic': 'Épica',
+        'rarity.legendary': 'Legendaria',
+        'rarity.ultimate': 'Definitiva',
+        'rarity.mythic': 'Mítica',
+        'rarity.transcendent': 'Trascendente',
+        'rarity.exalted': 'Exaltada',
+        'lists.current': 'Lista actual',
+        'lists.new': 'Nueva lista',
+        'lists.newPrompt': 'Nombre de la nueva lista:',
+        'lists.rename': 'Renombrar lista',
+        'lists.renamePrompt': 'Renombrar lista:',
+        'lists.delete': 'Eliminar lista',
+        'lists.deleteConfirm': '¿Eliminar «{name}»? No se puede deshacer.',
+        'lists.exportJson': 'Exportar lista como JSON',
+        'lists.exportCsv': 'Exportar lista como CSV',
+        'lists.import': 'Importar',
+        'lists.importHint': 'Importar una exportación JSON o CSV a esta lista',
+        'lists.importFailed': 'No se pudo importar {file}: {error}',
+        'lists.share': 'Compartir',
+        'lists.shareHint': 'Copiar un enlace de solo lectura a esta lista',
+        'lists.sharePrompt': 'Copia este enlace para compartir la lista:',
+        'lists.copied': '¡Copiado!',
+        'lists.removeSkin': 'Quitar de la lista',
+        'lists.addTo': 'Añadir a «{name}»',
+        'lists.favoriteIn': 'Favorito en «{name}»',
+        'import.title': 'Importar a «{name}»',
+        'import.found': '{count} aspectos encontrados.',
+        'import.found.one': '{count} aspecto encontrado.',
+        'import.unknown': '{count} entradas no coinciden con ningún aspecto actual y se omitirán:',
+        'import.unknown.one': '{count} entrada no coincide con ningún aspecto actual y se omitirá:',
+        'import.cancel': 'Cancelar',
+        'import.replace': 'Reemplazar lista',
+        'import.merge': 'Combinar',
+        'shared.title': 'Compartida: {name}',
+        'shared.copy': 'Copiar a mis listas',
+        'shared.copyHint': 'Copiar estos aspectos a una nueva lista propia',
+        'shared.closeHint': 'Volver a tus listas',
+        'shared.error': 'No se pudo abrir este enlace. {error}',
+        'shared.loading': 'Cargando aspectos compartidos...',
+        'shared.unresolved': '{count} aspectos de este enlace ya no existen:',
+        'shared.unresolved.one': '{count} aspecto de este enlace ya no existe:',
+        'lines.loadError': 'No se pudieron cargar las líneas de aspectos. {error}',
+        'lines.loading': 'Cargando líneas de aspectos...',
+        'lines.search': 'Buscar líneas de aspectos...',
+        'lines.favorited': '{favorited}/{total} en favoritos',
+        'lines.owned': '{count} obtenidos',
+        'lines.toComplete': '{amount} para completar',
+        'lines.toCompleteHint': 'Coste de los aspectos que aún faltan en esta línea',
+        'lines.addAll': 'Añadir todos',
+        'lines.addRemaining': 'Añadir los restantes ({count})',
+        'lines.none': 'No se encontraron líneas de aspectos.',
+        'patches.from': 'Desde',
+        'patches.to': 'Hasta',
+        'patches.loadError': 'No se pudieron comparar estas versiones. {error}',
+        'patches.comparing': 'Comparando {from} y {to}...',
+        'patches.newChampions': 'Nuevos campeones ({count})',
+        'patches.noChampions': 'No hay campeones nuevos.',
+        'patches.newSkins': 'Nuevos aspectos ({count})',
+        'patches.noSkins': 'No hay aspectos nuevos.',
+        'patches.onWishlist': 'Un campeón de tus listas de deseos',
+        'search.skins': 'Buscar aspectos...',
+        'search.minPrice': 'Mín.',
+        'search.maxPrice': 'Máx.',
+        'search.hasChromas': 'Con cromas',
+        'search.favorited': 'En favoritos',
+        'search.favoritedAny': 'En favoritos o no',
+        'search.favoritedNo': 'No en favoritos',
+        'search.availability': 'Disponibilidad',
+        'search.availabilityAny': 'Cualquier disponibilidad',
+        'search.inStore': 'En la tienda',
+        'search.sortBy': 'Ordenar por',
+        'search.sortName': 'Nombre',
+        'search.sortChampion': 'Campeón',
+        'search.sortPriceAsc': 'Precio: de menor a mayor',
+        'search.sortPriceDesc': 'Precio: de mayor a menor',
+        'search.noResults': 'Ningún aspecto coincide con estos filtros.',
+        'search.showMore': 'Mostrar más (quedan {count})',
+        'modal.skins': 'Aspectos de {name}',
+        'modal.loadError': 'No se pudieron cargar los aspectos de {name}.',
+        'modal.loading': 'Cargando aspectos...',
+        'modal.loadingArt': 'Cargando arte del aspecto...',
+        'modal.previous': 'Aspecto anterior',
+        'modal.next': 'Aspecto siguiente',
+        'modal.position': '{name}, aspecto {index} de {total}',
+        'modal.positionChroma': '{name}, aspecto {index} de {total}, croma',
+        'modal.base': 'Base',
+        'modal.baseHint': 'Aspecto base',
+        'modal.targetList': 'Lista de deseos a la que añadir este aspecto',
+        'modal.markOwned': 'Marcar como obtenido',
+        'modal.markNotOwned': 'Marcar como no obtenido',
+        'modal.splashUnavailable': 'Arte no disponible',
+        'ask.placeholder': 'p. ej. «aspectos oscuros de magos por menos de 1350 RP que aún no tengo»',
+        'ask.label': 'Describe los aspectos que buscas',
+        'ask.submit': 'Preguntar',
+        'ask.submitHint': 'Preguntar a {name}',
+        'ask.asking': 'Preguntando...',
+        'ask.error': 'No se pudieron obtener recomendaciones. {error}',
+        'ask.addAll': 'Añadir todos ({count})',
+        'ask.rejected': '{count} sugerencias no coincidían con ningún aspecto actual y se omitieron.',
+        'ask.rejected.one': '{count} sugerencia no coincidía con ningún aspecto actual y se omitió.',
+        'ask.noResults': 'Ningún aspecto coincide con esa petición.',
+        'rating.label': 'Valoraciones',
+        'rating.attack': 'Ataque',
+        'rating.defense': 'Defensa',
+        'rating.magic': 'Magia',
+        'rating.difficulty': 'Dificultad',
+        'rating.value': '{value} de 10',
+        'error.unknown': 'Algo salió mal.',
+        'error.data.timeout': 'La solicitud tardó demasiado.',
+        'error.data.network': 'No se pudo contactar con el servidor. Comprueba tu conexión.',
+        'error.data.http': 'El servidor respondió con el estado {status}.',
+        'error.data.invalid': 'El servidor devolvió datos en un formato inesperado.',
+        'error.share.unsupportedVersion': 'Este enlace se creó con una versión no compatible de la aplicación.',
+        'error.share.malformed': 'Este enlace está incompleto o mal formado.',
+        'error.share.invalidId': 'El enlace contiene un ID de aspecto no válido.',
+        'error.share.tooManySkins': 'Este enlace contiene demasiados aspectos.',
+        'error.import.invalidJson': 'El archivo no es un JSON válido.',
+        'error.import.notAnExport': 'El archivo no es una exportación de favoritos.',
+        'error.import.unsupportedVersion': 'El archivo se exportó con una versión no compatible de la aplicación.',
+        'error.import.noIdColumn': 'El archivo CSV no tiene una columna "Skin ID".',
+        'error.sync.offline': 'No se pudo contactar con el servidor de sincronización.',
+        'error.sync.http': 'El servidor de sincronización respondió con el estado {status}.',
+        'error.sync.invalid': 'El servidor de sincronización devolvió datos en un formato inesperado.',
+        'error.sync.conflict': 'Los favoritos se cambiaron en otro lugar.',
+        'error.sync.busy': 'Los favoritos no dejaban de cambiar en el servidor de sincronización. Inténtalo de nuevo en un momento.',
+        'error.recommendation.unreadable': 'El modelo devolvió una respuesta que no se pudo leer.',
+        'ask.criteria': 'Aspectos {criteria}.',
+        'ask.criteria.matching': 'que coinciden con «{words}»',
+        'ask.criteria.maxPrice': 'que cuestan como máximo {price}',
+        'ask.criteria.notOwned': 'que aún no tienes',
+        'ask.criteria.all': 'Todos los aspectos.',
+        'app.interfaceLanguages': 'Interfaz y datos',
+        'app.dataOnlyLanguages': 'Solo datos de campeones y aspectos (interfaz en inglés)',
+    },
+    fr_FR: {
+        'app.loading': 'Chargement des dernières données de skins...',
+        'app.loadError': 'Impossible de charger les données des champions.',
+        'app.retry': 'Réessayer',
+        'app.pricesUnavailable': 'Prix indisponibles : {error}',
+        'app.clearCache': 'Vider les données en cache',
+        'app.language': 'Langue',
+        'app.loadingVersions': 'Chargement des versions...',
+        'app.newSinceLastVisit': '{count} nouveautés depuis votre dernière visite',
+        'app.collection': 'Collection : {owned}/{total} skins possédés ({percent} %)',
+        'app.collectionValue': 'valeur : {value}',
+        'app.championOwned': '{owned}/{total} possédés',
+        'app.offline': 'Hors ligne',
+        'app.dataVersion': 'Données : patch {version}',
+        'sync.synced': 'Synchronisé',
+        'sync.syncing': 'Synchronisation...',
+        'sync.pending': 'En attente de synchronisation',
+        'sync.error': 'Échec de la synchronisation',
+        'sync.now': 'Synchroniser maintenant',
+        'view.champions': 'Champions',
+        'view.skins': 'Skins',
+        'view.lines': 'Gammes',
+        'view.patches': 'Nouveautés',
+        'view.ask': 'Demander',
+        'title.champions': 'Tous les champions',
+        'title.skins': 'Tous les skins',
+        'title.lines': 'Gammes de skins',
+        'title.patches': 'Nouveautés',
+        'title.ask': 'Trouver des skins',
+        'search.champion': 'Rechercher un champion...',
+        'champions.roles': 'Rôles',
+        'champions.allRoles': 'Tous les rôles',
+        'champions.sortBy': 'Trier les champions par',
+        'champions.sortName': 'Nom',
+        'champions.sortSkins': 'Le plus de skins',
+        'champions.sortFavorites': 'Le plus de favoris',
+        'champions.noMatches': 'Aucun champion ne correspond à ces filtres.',
+        'role.Assassin': 'Assassin',
+        'role.Fighter': 'Combattant',
+        'role.Mage': 'Mage',
+        'role.Marksman': 'Tireur',
+        'role.Support': 'Support',
+        'role.Tank': 'Tank',
+        'favorites.title': 'Skins favoris',
+        'favorites.empty': 'Vos skins favoris apparaîtront ici.',
+        'favorites.totalCost': 'Coût total :',
+        'favorites.markOwned': 'Marquer comme possédé',
+        'favorites.chroma': 'Chroma',
+        'notFound.title': 'Page introuvable',
+        'notFound.body': 'Aucun champion ni skin ne correspond à cette adresse.',
+        'notFound.back': 'Retour à tous les champions',
+        'title.compare': 'Comparer des skins',
+        'compare.add': 'Ajouter à la comparaison',
+        'compare.remove': 'Retirer de la comparaison',
+        'compare.full': "Vous pouvez comparer jusqu'à {max} skins",
+        'compare.open': 'Comparer ({count})',
+        'compare.clear': 'Vider',
+        'compare.pickMore': "Choisissez au moins deux skins à comparer, depuis les skins d'un champion ou vos favoris.",
+        'compare.chromas': '{count} chromas',
+        'compare.noChromas': 'Aucun chroma',
+        'compare.chromaOf': 'Chroma de {name}',
+        'compare.unresolved': 'Certains skins de ce lien ne figurent pas dans les données actuelles.',
+        'price.sale': 'Promo',
+        'price.eventToken': '{amount} jetons',
+        'currency.rp': 'RP',
+        'currency.orangeEssence': 'Essence orange',
+        'currency.mythicEssence': 'Essence mythique',
+        'currency.eventToken': 'Jetons d\'événement',
+        'cost.edit': 'Corriger le coût',
+        'cost.overridden': 'Coût saisi par vous',
+        'cost.add': 'Ajouter une devise',
+        'cost.remove': 'Retirer',
+        'cost.save': 'Enregistrer',
+        'cost.reset': 'Utiliser les données chargées',
+        'cost.cancel': 'Annuler',
+        'price.changed': '{price} lors de votre dernière visite',
+        'price.target': 'Prix cible',
+        'budget.open': 'Planifier un budget',
+        'budget.title': 'Planificateur de budget',
+        'budget.amount': 'Budget',
+        'budget.unit': 'Unité du budget',
+        'budget.balance': 'RP sur votre compte',
+        'budget.goal': 'Sans priorités, privilégier',
+        'budget.goalCount': 'Le plus de skins',
+        'budget.goalRarity': 'La plus haute rareté',
+        'budget.buys': 'Cela permet d\'acheter jusqu\'à {amount}.',
+        'budget.fits': '{count} skins pour {total}',
+        'budget.buy': 'Acheter :',
+        'budget.noBundles': 'Ajoutez un pack de RP pour voir quoi acheter.',
+        'budget.leftover': 'Restant ensuite : {amount}',
+        'budget.nothingFits': 'Aucun favori ne rentre dans ce budget.',
+        'budget.enterAmount': 'Saisissez un budget pour obtenir une suggestion.',
+        'budget.skipped': '{count} autres favoris ne rentrent pas.',
+        'budget.bundles': 'Packs de RP',
+        'budget.currency': 'Devise',
+        'budget.bundleRp': 'RP du pack',
+        'budget.bundlePrice': 'Prix du pack',
+        'budget.removeBundle': 'Retirer le pack',
+        'budget.addBundle': 'Ajouter un pack',
+        'budget.resetBundles': 'Rétablir les valeurs par défaut',
+        'budget.close': 'Fermer',
+        'favorites.edit': 'Priorité, note et tags',
+        'favorites.filter': 'Filtrer par nom...',
+        'favorites.sort': 'Trier par',
+        'favorites.anyPriority': 'Toute priorité',
+        'favorites.anyRarity': 'Toute rareté',
+        'favorites.anyTag': 'Tout tag',
+        'favorites.maxPrice': 'RP max.',
+        'favorites.noMatches': 'Aucun favori ne correspond à ces filtres.',
+        'favorites.reorderHint': 'Glissez ou appuyez sur Alt+Haut/Bas pour réordonner',
+        'favorites.subtotals': 'Sous-totaux',
+        'favorites.untagged': 'Sans tag',
+        'favorites.noPriority': 'Sans priorité',
+        'sort.manual': 'Mon ordre',
+        'sort.champion': 'Champion',
+        'sort.price': 'Prix',
+        'sort.rarity': 'Rareté',
+        'sort.priority': 'Priorité',
+        'subtotal.none': 'Pas de sous-totaux',
+        'subtotal.tag': 'Par tag',
+        'subtotal.priority': 'Par priorité',
+        'priority.none': 'Aucune priorité',
+        'priority.high': 'Haute',
+        'priority.medium': 'Moyenne',
+        'priority.low': 'Basse',
+        'notes.title': 'Notes pour {name}',
+        'notes.priority': 'Priorité',
+        'notes.note': 'Note',
+        'notes.tags': 'Tags (séparés par des virgules)',
+        'notes.save': 'Enregistrer',
+        'notes.cancel': 'Annuler',
+        'skin.legacy': 'Héritage',
+        'skin.limited': 'Limité',
+        'skin.firstSeen': 'Nouveau en {version}',
+        'price.setTarget': 'Me prévenir quand {name} coûte au plus (RP). Laisser vide pour retirer :',
+        'favorites.fullPriceTotal': '{total} au prix normal',
+        'favorites.targetReached': 'Prix cible atteint :',
+        'app.close': 'Fermer',
+        'app.owned': 'Possédé',
+        'app.needsAllData': 'Disponible une fois toutes les données des champions chargées',
+        'app.confirmOwnedFavorite': 'Vous possédez déjà {name}. L\'ajouter quand même à votre liste ?',
+        'app.sharedList': 'Liste partagée',
+        'rarity.none': 'Aucune',
+        'rarity.epic': 'Épique',
+        'rarity.legendary': 'Légendaire',
+        'rarity.ultimate': 'Ultime',
+        'rarity.mythic': 'Mythique',
+        'rarity.transcendent': 'Transcendant',
+        'rarity.exalted': 'Exaltée',
+        'lists.current': 'Liste actuelle',
+        'lists.new': 'Nouvelle liste',
+        'lists.newPrompt': 'Nom de la nouvelle liste :',
+        'lists.rename': 'Renommer la liste',
+        'lists.renamePrompt': 'Renommer la liste :',
+        'lists.delete': 'Supprimer la liste',
+        'lists.deleteConfirm': 'Supprimer « {name} » ? Cette action est irréversible.',
+        'lists.exportJson': 'Exporter la liste en JSON',
+        'lists.exportCsv': 'Exporter la liste en CSV',
+        'lists.import': 'Importer',
+        'lists.importHint': 'Importer un export JSON ou CSV dans cette liste',
+        'lists.importFailed': 'Impossible d\'importer {file} : {error}',
+        'lists.share': 'Partager',
+        'lists.shareHint': 'Copier un lien en lecture seule vers cette liste',
+        'lists.sharePrompt': 'Copiez ce lien pour partager la liste :',
+        'lists.copied': 'Copié !',
+        'lists.removeSkin': 'Retirer de la liste',
+        'lists.addTo': 'Ajouter à « {name} »',
+        'lists.favoriteIn': 'Favori dans « {name} »',
+        'import.title': 'Importer dans « {name} »',
+        'import.found': '{count} skins trouvés.',
+        'import.found.one': '{count} skin trouvé.',
+        'import.unknown': '{count} entrées ne correspondent à aucun skin actuel et seront ignorées :',
+        'import.unknown.one': '{count} entrée ne correspond à aucun skin actuel et sera ignorée :',
+        'import.cancel': 'Annuler',
+        'import.replace': 'Remplacer la liste',
+        'import.merge': 'Fusionner',
+        'shared.title': 'Partagée : {name}',
+        'shared.copy': 'Copier dans mes listes',
+        'shared.copyHint': 'Copier ces skins dans une nouvelle liste à vous',
+        'shared.closeHint': 'Retour à vos listes',
+        'shared.error': 'Impossible d\'ouvrir ce lien de partage. {error}',
+        'shared.loading': 'Chargement des skins partagés...',
+        'shared.unresolved': '{count} skins de ce lien n\'existent plus :',
+        'shared.unresolved.one': '{count} skin de ce lien n\'existe plus :',
+        'lines.loadError': 'Impossible de charger les gammes de skins. {error}',
+        'lines.loading': 'Chargement des gammes de skins...',
+        'lines.search': 'Rechercher une gamme...',
+        'lines.favorited': '{favorited}/{total} en favoris',
+        'lines.owned': '{count} possédés',
+        'lines.toComplete': '{amount} pour compléter',
+        'lines.toCompleteHint': 'Coût des skins qui manquent encore dans cette gamme',
+        'lines.addAll': 'Tout ajouter',
+        'lines.addRemaining': 'Ajouter le reste ({count})',
+        'lines.none': 'Aucune gamme trouvée.',
+        'patches.from': 'De',
+        'patches.to': 'À',
+        'patches.loadError': 'Impossible de comparer ces versions. {error}',
+        'patches.comparing': 'Comparaison de {from} et {to}...',
+        'patches.newChampions': 'Nouveaux champions ({count})',
+        'patches.noChampions': 'Aucun nouveau champion.',
+        'patches.newSkins': 'Nouveaux skins ({count})',
+        'patches.noSkins': 'Aucun nouveau skin.',
+        'patches.onWishlist': 'Un champion de vos listes',
+        'search.skins': 'Rechercher un skin...',
+        'search.minPrice': 'Min',
+        'search.maxPrice': 'Max',
+        'search.hasChromas': 'Avec chromas',
+        'search.favorited': 'En favoris',
+        'search.favoritedAny': 'En favoris ou non',
+        'search.favoritedNo': 'Pas en favoris',
+        'search.availability': 'Disponibilité',
+        'search.availabilityAny': 'Toute disponibilité',
+        'search.inStore': 'En boutique',
+        'search.sortBy': 'Trier par',
+        'search.sortName': 'Nom',
+        'search.sortChampion': 'Champion',
+        'search.sortPriceAsc': 'Prix : croissant',
+        'search.sortPriceDesc': 'Prix : décroissant',
+        'search.noResults': 'Aucun skin ne correspond à ces filtres.',
+        'search.showMore': 'Afficher plus ({count} restants)',
+        'modal.skins': 'Skins de {name}',
+        'modal.loadError': 'Impossible de charger les skins de {name}.',
+        'modal.loading': 'Chargement des skins...',
+        'modal.loadingArt': 'Chargement de l\'illustration...',
+        'modal.previous': 'Skin précédent',
+        'modal.next': 'Skin suivant',
+        'modal.position': '{name}, skin {index} sur {total}',
+        'modal.positionChroma': '{name}, skin {index} sur {total}, chroma',
+        'modal.base': 'Base',
+        'modal.baseHint': 'Skin de base',
+        'modal.targetList': 'Liste à laquelle ajouter ce skin',
+        'modal.markOwned': 'Marquer comme possédé',
+        'modal.markNotOwned': 'Marquer comme non possédé',
+        'modal.splashUnavailable': 'Illustration indisponible',
+        'ask.placeholder': 'p. ex. « skins sombres de mages à moins de 1350 RP que je n\'ai pas encore »',
+        'ask.label': 'Décrivez les skins que vous cherchez',
+        'ask.submit': 'Demander',
+        'ask.submitHint': 'Demander à {name}',
+        'ask.asking': 'Question en cours...',
+        'ask.error': 'Impossible d\'obtenir des recommandations. {error}',
+        'ask.addAll': 'Tout ajouter ({count})',
+        'ask.rejected': '{count} suggestions ne correspondaient à aucun skin actuel et ont été ignorées.',
+        'ask.rejected.one': '{count} suggestion ne correspondait à aucun skin actuel et a été ignorée.',
+        'ask.noResults': 'Aucun skin ne correspond à cette demande.',
+        'rating.label': 'Évaluations',
+        'rating.attack': 'Attaque',
+        'rating.defense': 'Défense',
+        'rating.magic': 'Magie',
+        'rating.difficulty': 'Difficulté',
+        'rating.value': '{value} sur 10',
+        'error.unknown': 'Une erreur s\'est produite.',
+        'error.data.timeout': 'La requête a expiré.',
+        'error.data.network': 'Impossible de joindre le serveur. Vérifie ta connexion.',
+        'error.data.http': 'Le serveur a répondu avec le statut {status}.',
+        'error.data.invalid': 'Le serveur a renvoyé des données dans un format inattendu.',
+        'error.share.unsupportedVersion': 'Ce lien a été créé par une version non prise en charge de l\'application.',
+        'error.share.malformed': 'Ce lien est incomplet ou mal formé.',
+        'error.share.invalidId': 'Le lien contient un identifiant de skin invalide.',
+        'error.share.tooManySkins': 'Ce lien contient trop de skins.',
+        'error.import.invalidJson': 'Le fichier n\'est pas un JSON valide.',
+        'error.import.notAnExport': 'Le fichier n\'est pas un export de favoris.',
+        'error.import.unsupportedVersion': 'Le fichier a été exporté par une version non prise en charge de l\'application.',
+        'error.import.noIdColumn': 'Le fichier CSV n\'a pas de colonne « Skin ID ».',
+        'error.sync.offline': 'Impossible de joindre le serveur de synchronisation.',
+        'error.sync.http': 'Le serveur de synchronisation a répondu avec le statut {status}.',
+        'error.sync.invalid': 'Le serveur de synchronisation a renvoyé des données dans un format inattendu.',
+        'error.sync.conflict': 'Les favoris ont été modifiés ailleurs.',
+        'error.sync.busy': 'Les favoris changeaient sans cesse sur le serveur de synchronisation. Réessaie dans un instant.',
+        'error.recommendation.unreadable': 'Le modèle a renvoyé une réponse illisible.',
+        'ask.criteria': 'Skins {criteria}.',
+        'ask.criteria.matching': 'correspondant à « {words} »',
+        'ask.criteria.maxPrice': 'coûtant au plus {price}',
+        'ask.criteria.notOwned': 'que tu ne possèdes pas encore',
+        'ask.criteria.all': 'Tous les skins.',
+        'app.interfaceLanguages': 'Interface et données',
+        'app.dataOnlyLanguages': 'Données des champions et skins uniquement (interface en anglais)',
+    },
+    pt_BR: {
+        'app.loading': 'Carregando os dados de skins mais recentes...',
+        'app.loadError': 'Não foi possível carregar os dados dos campeões.',
+        'app.retry': 'Tentar novamente',
+        'app.pricesUnavailable': 'Preços indisponíveis: {error}',
+        'app.clearCache': 'Limpar dados em cache',
+        'app.language': 'Idioma',
+        'app.loadingVersions': 'Carregando versões...',
+        'app.newSinceLastVisit': '{count} novidades desde sua última visita',
+        'app.collection': 'Coleção: {owned}/{total} skins adquiridas ({percent}%)',
+        'app.collectionValue': 'valor: {value}',
+        'app.championOwned': '{owned}/{total} adquiridas',
+        'app.offline': 'Offline',
+        'app.dataVersion': 'Dados: patch {version}',
+        'sync.synced': 'Sincronizado',
+        'sync.syncing': 'Sincronizando...',
+        'sync.pending': 'Aguardando sincronização',
+        'sync.error': 'Falha ao sincronizar',
+        'sync.now': 'Sincronizar agora',
+        'view.champions': 'Campeões',
+        'view.skins': 'Skins',
+        'view.lines': 'Linhas',
+        'view.patches': 'Novidades',
+        'view.ask': 'Perguntar',
+        'title.champions': 'Todos os campeões',
+        'title.skins': 'Todas as skins',
+        'title.lines': 'Linhas de skins',
+        'title.patches': 'Novidades',
+        'title.ask': 'Pedir skins',
+        'search.champion': 'Buscar campeão...',
+        'champions.roles': 'Funções',
+        'champions.allRoles': 'Todas as funções',
+        'champions.sortBy': 'Ordenar campeões por',
+        'champions.sortName': 'Nome',
+        'champions.sortSkins': 'Mais skins',
+        'champions.sortFavorites': 'Mais favoritos',
+        'champions.noMatches': 'Nenhum campeão corresponde a esses filtros.',
+        'role.Assassin': 'Assassino',
+        'role.Fighter': 'Lutador',
+        'role.Mage': 'Mago',
+        'role.Marksman': 'Atirador',
+        'role.Support': 'Suporte',
+        'role.Tank': 'Tanque',
+        'favorites.title': 'Skins favoritas',
+        'favorites.empty': 'Suas skins favoritas aparecerão aqui.',
+        'favorites.totalCost': 'Custo total:',
+        'favorites.markOwned': 'Marcar como adquirida',
+        'favorites.chroma': 'Croma',
+        'notFound.title': 'Página não encontrada',
+        'notFound.body': 'Não há campeão nem skin neste endereço.',
+        'notFound.back': 'Voltar para todos os campeões',
+        'title.compare': 'Comparar skins',
+        'compare.add': 'Adicionar à comparação',
+        'compare.remove': 'Remover da comparação',
+        'compare.full': 'Você pode comparar até {max} skins',
+        'compare.open': 'Comparar ({count})',
+        'compare.clear': 'Limpar',
+        'compare.pickMore': 'Escolha pelo menos duas skins para comparar, nas skins de um campeão ou nos seus favoritos.',
+        'compare.chromas': '{count} chromas',
+        'compare.noChromas': 'Sem chromas',
+        'compare.chromaOf': 'Chroma de {name}',
+        'compare.unresolved': 'Algumas skins deste link não estão nos dados atuais.',
+        'price.sale': 'Promoção',
+        'price.eventToken': '{amount} fichas',
+        'currency.rp': 'RP',
+        'currency.orangeEssence': 'Essência Laranja',
+        'currency.mythicEssence': 'Essência Mítica',
+        'currency.eventToken': 'Fichas de evento',
+        'cost.edit': 'Corrigir o custo',
+        'cost.overridden': 'Custo informado por você',
+        'cost.add': 'Adicionar moeda',
+        'cost.remove': 'Remover',
+        'cost.save': 'Salvar',
+        'cost.reset': 'Usar dados carregados',
+        'cost.cancel': 'Cancelar',
+        'price.changed': 'Custava {price} na sua última visita',
+        'price.target': 'Preço-alvo',
+        'budget.open': 'Planejar orçamento',
+        'budget.title': 'Planejador de orçamento',
+        'budget.amount': 'Orçamento',
+        'budget.unit': 'Unidade do orçamento',
+        'budget.balance': 'RP na sua conta',
+        'budget.goal': 'Sem prioridades, preferir',
+        'budget.goalCount': 'Mais skins',
+        'budget.goalRarity': 'Maior raridade',
+        'budget.buys': 'Isso compra até {amount}.',
+        'budget.fits': '{count} skins por {total}',
+        'budget.buy': 'Comprar:',
+        'budget.noBundles': 'Adicione um pacote de RP para ver o que comprar.',
+        'budget.leftover': 'Sobra depois: {amount}',
+        'budget.nothingFits': 'Nenhum favorito cabe neste orçamento.',
+        'budget.enterAmount': 'Informe um orçamento para receber uma sugestão.',
+        'budget.skipped': 'Mais {count} favoritos não cabem.',
+        'budget.bundles': 'Pacotes de RP',
+        'budget.currency': 'Moeda',
+        'budget.bundleRp': 'RP no pacote',
+        'budget.bundlePrice': 'Preço do pacote',
+        'budget.removeBundle': 'Remover pacote',
+        'budget.addBundle': 'Adicionar pacote',
+        'budget.resetBundles': 'Restaurar padrões',
+        'budget.close': 'Fechar',
+        'favorites.edit': 'Prioridade, nota e tags',
+        'favorites.filter': 'Filtrar por nome...',
+        'favorites.sort': 'Ordenar por',
+        'favorites.anyPriority': 'Qualquer prioridade',
+        'favorites.anyRarity': 'Qualquer raridade',
+        'favorites.anyTag': 'Qualquer tag',
+        'favorites.maxPrice': 'RP máx.',
+        'favorites.noMatches': 'Nenhum favorito corresponde a esses filtros.',
+        'favorites.reorderHint': 'Arraste ou pressione Alt+Cima/Baixo para reordenar',
+        'favorites.subtotals': 'Subtotais',
+        'favorites.untagged': 'Sem tag',
+        'favorites.noPriority': 'Sem prioridade',
+        'sort.manual': 'Minha ordem',
+        'sort.champion': 'Campeão',
+        'sort.price': 'Preço',
+        'sort.rarity': 'Raridade',
+        'sort.priority': 'Prioridade',
+        'subtotal.none': 'Sem subtotais',
+        'subtotal.tag': 'Por tag',
+        'subtotal.priority': 'Por prioridade',
+        'priority.none': 'Sem prioridade',
+        'priority.high': 'Alta',
+        'priority.medium': 'Média',
+        'priority.low': 'Baixa',
+        'notes.title': 'Notas de {name}',
+        'notes.priority': 'Prioridade',
+        'notes.note': 'Nota',
+        'notes.tags': 'Tags (separadas por vírgulas)',
+        'notes.save': 'Salvar',
+        'notes.cancel': 'Cancelar',
+        'skin.legacy': 'Legado',
+        'skin.limited': 'Limitada',
+        'skin.firstSeen': 'Nova em {version}',
+        'price.setTarget': 'Avise-me quando {name} custar no máximo (RP). Deixe vazio para remover:',
+        'favorites.fullPriceTotal': '{total} a preço cheio',
+        'favorites.targetReached': 'Preço-alvo atingido:',
+        'app.close': 'Fechar',
+        'app.owned': 'Adquirida',
+        'app.needsAllData': 'Disponível quando todos os dados de campeões forem carregados',
+        'app.confirmOwnedFavorite': 'Você já tem {name}. Adicionar à lista de desejos mesmo assim?',
+        'app.sharedList': 'Lista compartilhada',
+        'rarity.none': 'Nenhuma',
+        'rarity.epic': 'Épica',
+        'rarity.legendary': 'Lendária',
+        'rarity.ultimate': 'Suprema',
+        'rarity.mythic': 'Mítica',
+        'rarity.transcendent': 'Transcendente',
+        'rarity.exalted': 'Exaltada',
+        'lists.current': 'Lista atual',
+        'lists.new': 'Nova lista',
+        'lists.newPrompt': 'Nome da nova lista:',
+        'lists.rename': 'Renomear lista',
+        'lists.renamePrompt': 'Renomear lista:',
+        'lists.delete': 'Excluir lista',
+        'lists.deleteConfirm': 'Excluir "{name}"? Isso não pode ser desfeito.',
+        'lists.exportJson': 'Exportar lista como JSON',
+        'lists.exportCsv': 'Exportar lista como CSV',
+        'lists.import': 'Importar',
+        'lists.importHint': 'Importar uma exportação JSON ou CSV para esta lista',
+        'lists.importFailed': 'Não foi possível importar {file}: {error}',
+        'lists.share': 'Compartilhar',
+        'lists.shareHint': 'Copiar um link somente leitura para esta lista',
+        'lists.sharePrompt': 'Copie este link para compartilhar a lista:',
+        'lists.copied': 'Copiado!',
+        'lists.removeSkin': 'Remover da lista',
+        'lists.addTo': 'Adicionar a "{name}"',
+        'lists.favoriteIn': 'Favorito em "{name}"',
+        'import.title': 'Importar para "{name}"',
+        'import.found': '{count} skins encontradas.',
+        'import.found.one': '{count} skin encontrada.',
+        'import.unknown': '{count} entradas não correspondem a nenhuma skin atual e serão ignoradas:',
+        'import.unknown.one': '{count} entrada não corresponde a nenhuma skin atual e será ignorada:',
+        'import.cancel': 'Cancelar',
+        'import.replace': 'Substituir lista',
+        'import.merge': 'Mesclar',
+        'shared.title': 'Compartilhada: {name}',
+        'shared.copy': 'Copiar para minhas listas',
+        'shared.copyHint': 'Copiar estas skins para uma nova lista sua',
+        'shared.closeHint': 'Voltar para suas listas',
+        'shared.error': 'Não foi possível abrir este link. {error}',
+        'shared.loading': 'Carregando skins compartilhadas...',
+        'shared.unresolved': '{count} skins deste link não existem mais:',
+        'shared.unresolved.one': '{count} skin deste link não existe mais:',
+        'lines.loadError': 'Não foi possível carregar as linhas de skins. {error}',
+        'lines.loading': 'Carregando linhas de skins...',
+        'lines.search': 'Buscar linhas de skins...',
+        'lines.favorited': '{favorited}/{total} favoritadas',
+        'lines.owned': '{count} adquiridas',
+        'lines.toComplete': '{amount} para completar',
+        'lines.toCompleteHint': 'Custo das skins que ainda faltam nesta linha',
+        'lines.addAll': 'Adicionar todas',
+        'lines.addRemaining': 'Adicionar restantes ({count})',
+        'lines.none': 'Nenhuma linha de skins encontrada.',
+        'patches.from': 'De',
+        'patches.to': 'Até',
+        'patches.loadError': 'Não foi possível comparar estas versões. {error}',
+        'patches.comparing': 'Comparando {from} e {to}...',
+        'patches.newChampions': 'Novos campeões ({count})',
+        'patches.noChampions': 'Nenhum campeão novo.',
+        'patches.newSkins': 'Novas skins ({count})',
+        'patches.noSkins': 'Nenhuma skin nova.',
+        'patches.onWishlist': 'Um campeão das suas listas de desejos',
+        'search.skins': 'Buscar skins...',
+        'search.minPrice': 'Mín.',
+        'search.maxPrice': 'Máx.',
+        'search.hasChromas': 'Com cromas',
+        'search.favorited': 'Favoritadas',
+        'search.favoritedAny': 'Favoritadas ou não',
+        'search.favoritedNo': 'Não favoritadas',
+        'search.availability': 'Disponibilidade',
+        'search.availabilityAny': 'Qualquer disponibilidade',
+        'search.inStore': 'Na loja',
+        'search.sortBy': 'Ordenar por',
+        'search.sortName': 'Nome',
+        'search.sortChampion': 'Campeão',
+        'search.sortPriceAsc': 'Preço: menor para maior',
+        'search.sortPriceDesc': 'Preço: maior para menor',
+        'search.noResults': 'Nenhuma skin corresponde a esses filtros.',
+        'search.showMore': 'Mostrar mais ({count} restantes)',
+        'modal.skins': 'Skins de {name}',
+        'modal.loadError': 'Não foi possível carregar as skins de {name}.',
+        'modal.loading': 'Carregando skins...',
+        'modal.loadingArt': 'Carregando arte da skin...',
+        'modal.previous': 'Skin anterior',
+        'modal.next': 'Próxima skin',
+        'modal.position': '{name}, skin {index} de {total}',
+        'modal.positionChroma': '{name}, skin {index} de {total}, croma',
+        'modal.base': 'Base',
+        'modal.baseHint': 'Skin base',
+        'modal.targetList': 'Lista de desejos para adicionar esta skin',
+        'modal.markOwned': 'Marcar como adquirida',
+        'modal.markNotOwned': 'Marcar como não adquirida',
+        'modal.splashUnavailable': 'Splash art indisponível',
+        'ask.placeholder': 'ex.: "skins sombrias de magos abaixo de 1350 RP que ainda não tenho"',
+        'ask.label': 'Descreva as skins que você procura',
+        'ask.submit': 'Perguntar',
+        'ask.submitHint': 'Perguntar a {name}',
+        'ask.asking': 'Perguntando...',
+        'ask.error': 'Não foi possível obter recomendações. {error}',
+        'ask.addAll': 'Adicionar todas ({count})',
+        'ask.rejected': '{count} sugestões não correspondiam a nenhuma skin atual e foram omitidas.',
+        'ask.rejected.one': '{count} sugestão não correspondia a nenhuma skin atual e foi omitida.',
+        'ask.noResults': 'Nenhuma skin corresponde a esse pedido.',
+        'rating.label': 'Avaliações',
+        'rating.attack': 'Ataque',
+        'rating.defense': 'Defesa',
+        'rating.magic': 'Magia',
+        'rating.difficulty': 'Dificuldade',
+        'rating.value': '{value} de 10',
+        'error.unknown': 'Algo deu errado.',
+        'error.data.timeout': 'A solicitação expirou.',
+        'error.data.network': 'Não foi possível acessar o servidor. Verifique sua conexão.',
+        'error.data.http': 'O servidor respondeu com o status {status}.',
+        'error.data.invalid': 'O servidor retornou dados em um formato inesperado.',
+        'error.share.unsupportedVersion': 'Este link foi criado por uma versão não suportada do aplicativo.',
+        'error.share.malformed': 'Este link está incompleto ou malformado.',
+        'error.share.invalidId': 'O link contém um ID de skin inválido.',
+        'error.share.tooManySkins': 'Este link contém skins demais.',
+        'error.import.invalidJson': 'O arquivo não é um JSON válido.',
+        'error.import.notAnExport': 'O arquivo não é uma exportação de favoritos.',
+        'error.import.unsupportedVersion': 'O arquivo foi exportado por uma versão não suportada do aplicativo.',
+        'error.import.noIdColumn': 'O arquivo CSV não tem a coluna "Skin ID".',
+        'error.sync.offline': 'Não foi possível acessar o servidor de sincronização.',
+        'error.sync.http': 'O servidor de sincronização respondeu com o status {status}.',
+        'error.sync.invalid': 'O servidor de sincronização retornou dados em um formato inesperado.',
+        'error.sync.conflict': 'Os favoritos foram alterados em outro lugar.',
+        'error.sync.busy': 'Os favoritos continuaram mudando no servidor de sincronização. Tente novamente em instantes.',
+        'error.recommendation.unreadable': 'O modelo retornou uma resposta que não pôde ser lida.',
+        'ask.criteria': 'Skins {criteria}.',
+        'ask.criteria.matching': 'que correspondem a “{words}”',
+        'ask.criteria.maxPrice': 'que custam no máximo {price}',
+        'ask.criteria.notOwned': 'que você ainda não tem',
+        'ask.criteria.all': 'Todas as skins.',
+        'app.interfaceLanguages': 'Interface e dados',
+        'app.dataOnlyLanguages': 'Somente dados de campeões e skins (interface em inglês)',
+    },
+    ja_JP: {
+        'app.loading': '最新のスキンデータを読み込み中...',
+        'app.loadError': 'チャンピオンデータを読み込めませんでした。',
+        'app.retry': '再試行',
+        'app.pricesUnavailable': '価格を取得できません: {error}',
+        'app.clearCache': 'キャッシュを削除',
+        'app.language': '言語',
+        'app.loadingVersions': 'バージョンを読み込み中...',
+        'app.newSinceLastVisit': '前回の訪問から{count}件の新着',
+        'app.collection': 'コレクション: {owned}/{total} スキン所持 ({percent}%)',
+        'app.collectionValue': '価値 {value}',
+        'app.championOwned': '{owned}/{total} 所持',
+        'app.offline': 'オフライン',
+        'app.dataVersion': 'データ: パッチ {version}',
+        'sync.synced': '同期済み',
+        'sync.syncing': '同期中...',
+        'sync.pending': '同期待ち',
+        'sync.error': '同期に失敗しました',
+        'sync.now': '今すぐ同期',
+        'view.champions': 'チャンピオン',
+        'view.skins': 'スキン',
+        'view.lines': 'シリーズ',
+        'view.patches': '新着',
+        'view.ask': '質問',
+        'title.champions': 'すべてのチャンピオン',
+        'title.skins': 'すべてのスキン',
+        'title.lines': 'スキンシリーズ',
+        'title.patches': '新着',
+        'title.ask': 'スキンを探す',
+        'search.champion': 'チャンピオンを検索...',
+        'champions.roles': 'ロール',
+        'champions.allRoles': 'すべてのロール',
+        'champions.sortBy': 'チャンピオンの並び順',
+        'champions.sortName': '名前',
+        'champions.sortSkins': 'スキンが多い順',
+        'champions.sortFavorites': 'お気に入りが多い順',
+        'champions.noMatches': '条件に一致するチャンピオンはありません。',
+        'role.Assassin': 'アサシン',
+        'role.Fighter': 'ファイター',
+        'role.Mage': 'メイジ',
+        'role.Marksman': 'マークスマン',
+        'role.Support': 'サポート',
+        'role.Tank': 'タンク',
+        'favorites.title': 'お気に入りスキン',
+        'favorites.empty': 'お気に入りのスキンがここに表示されます。',
+        'favorites.totalCost': '合計:',
+        'favorites.markOwned': '所持済みにする',
+        'favorites.chroma': 'クロマ',
+        'notFound.title': 'ページが見つかりません',
+        'notFound.body': 'このアドレスにはチャンピオンやスキンがありません。',
+        'notFound.back': 'すべてのチャンピオンに戻る',
+        'title.compare': 'スキンを比較',
+        'compare.add': '比較に追加',
+        'compare.remove': '比較から外す',
+        'compare.full': '比較できるスキンは{max}個までです',
+        'compare.open': '比較 ({count})',
+        'compare.clear': 'クリア',
+        'compare.pickMore': 'チャンピオンのスキンやお気に入りから、比較するスキンを2つ以上選んでください。',
+        'compare.chromas': 'クロマ{count}種',
+        'compare.noChromas': 'クロマなし',
+        'compare.chromaOf': '{name}のクロマ',
+        'compare.unresolved': 'このリンクの一部のスキンは現在のデータにありません。',
+        'price.sale': 'セール',
+        'price.eventToken': '{amount}トークン',
+        'currency.rp': 'RP',
+        'currency.orangeEssence': 'オレンジエッセンス',
+        'currency.mythicEssence': 'ミシックエッセンス',
+        'currency.eventToken': 'イベントトークン',
+        'cost.edit': '価格を修正',
+        'cost.overridden': '手動で入力した価格',
+        'cost.add': '通貨を追加',
+        'cost.remove': '削除',
+        'cost.save': '保存',
+        'cost.reset': '読み込んだデータを使用',
+        'cost.cancel': 'キャンセル',
+        'price.changed': '前回の訪問時は{price}',
+        'price.target': '目標価格',
+        'budget.open': '予算を計画',
+        'budget.title': '予算プランナー',
+        'budget.amount': '予算',
+        'budget.unit': '予算の単位',
+        'budget.balance': 'アカウントのRP',
+        'budget.goal': '優先度がない場合の優先',
+        'budget.goalCount': 'スキン数',
+        'budget.goalRarity': 'レア度',
+        'budget.buys': '{amount}まで購入できます。',
+        'budget.fits': '{count}個のスキンで{total}',
+        'budget.buy': '購入:',
+        'budget.noBundles': '購入内容を表示するにはRPパックを追加してください。',
+        'budget.leftover': '購入後の残り: {amount}',
+        'budget.nothingFits': 'この予算に収まるお気に入りはありません。',
+        'budget.enterAmount': '予算を入力すると提案が表示されます。',
+        'budget.skipped': 'ほかに{count}個のお気に入りは収まりません。',
+        'budget.bundles': 'RPパック',
+        'budget.currency': '通貨',
+        'budget.bundleRp': 'パックのRP',
+        'budget.bundlePrice': 'パックの価格',
+        'budget.removeBundle': 'パックを削除',
+        'budget.addBundle': 'パックを追加',
+        'budget.resetBundles': '初期設定に戻す',
+        'budget.close': '閉じる',
+        'favorites.edit': '優先度・メモ・タグ',
+        'favorites.filter': '名前で絞り込み...',
+        'favorites.sort': '並べ替え',
+        'favorites.anyPriority': 'すべての優先度',
+        'favorites.anyRarity': 'すべてのレア度',
+        'favorites.anyTag': 'すべてのタグ',
+        'favorites.maxPrice': '最大RP',
+        'favorites.noMatches': '条件に合うお気に入りはありません。',
+        'favorites.reorderHint': 'ドラッグまたはAlt+上下キーで並べ替え',
+        'favorites.subtotals': '小計',
+        'favorites.untagged': 'タグなし',
+        'favorites.noPriority': '優先度なし',
+        'sort.manual': '自分の順番',
+        'sort.champion': 'チャンピオン',
+        'sort.price': '価格',
+        'sort.rarity': 'レア度',
+        'sort.priority': '優先度',
+        'subtotal.none': '小計なし',
+        'subtotal.tag': 'タグ別',
+        'subtotal.priority': '優先度別',
+        'priority.none': '優先度なし',
+        'priority.high': '高',
+        'priority.medium': '中',
+        'priority.low': '低',
+        'notes.title': '{name}のメモ',
+        'notes.priority': '優先度',
+        'notes.note': 'メモ',
+        'notes.tags': 'タグ (カンマ区切り)',
+        'notes.save': '保存',
+        'notes.cancel': 'キャンセル',
+        'skin.legacy': 'レガシー',
+        'skin.limited': '限定',
+        'skin.firstSeen': '{version}で追加',
+        'price.setTarget': '{name}がこの価格(RP)以下になったら通知します。空欄で解除:',
+        'favorites.fullPriceTotal': '通常価格で{total}',
+        'favorites.targetReached': '目標価格に到達:',
+        'app.close': '閉じる',
+        'app.owned': '所持',
+        'app.needsAllData': 'すべてのチャンピオンデータの読み込み後に利用できます',
+        'app.confirmOwnedFavorite': '{name}はすでに所持しています。それでもウィッシュリストに追加しますか？',
+        'app.sharedList': '共有リスト',
+        'rarity.none': 'なし',
+        'rarity.epic': 'エピック',
+        'rarity.legendary': 'レジェンダリー',
+        'rarity.ultimate': 'アルティメット',
+        'rarity.mythic': 'ミシック',
+        'rarity.transcendent': 'トランセンデント',
+        'rarity.exalted': 'エグザルテッド',
+        'lists.current': '現在のリスト',
+        'lists.new': '新しいリスト',
+        'lists.newPrompt': '新しいリストの名前:',
+        'lists.rename': 'リスト名を変更',
+        'lists.renamePrompt': 'リスト名を変更:',
+        'lists.delete': 'リストを削除',
+        'lists.deleteConfirm': '「{name}」を削除しますか？元に戻せません。',
+        'lists.exportJson': 'リストをJSONで書き出す',
+        'lists.exportCsv': 'リストをCSVで書き出す',
+        'lists.import': '読み込む',
+        'lists.importHint': 'JSONまたはCSVの書き出しをこのリストに読み込む',
+        'lists.importFailed': '{file}を読み込めませんでした: {error}',
+        'lists.share': '共有',
+        'lists.shareHint': 'このリストの閲覧専用リンクをコピー',
+        'lists.sharePrompt': 'このリンクをコピーしてリストを共有:',
+        'lists.copied': 'コピーしました',
+        'lists.removeSkin': 'リストから削除',
+        'lists.addTo': '「{name}」に追加',
+        'lists.favoriteIn': '「{name}」のお気に入り',
+        'import.title': '「{name}」に読み込む',
+        'import.found': '{count}件のスキンが見つかりました。',
+        'import.found.one': '{count}件のスキンが見つかりました。',
+        'import.unknown': '{count}件の項目が現在のスキンと一致しないため、スキップされます:',
+        'import.unknown.one': '{count}件の項目が現在のスキンと一致しないため、スキップされます:',
+        'import.cancel': 'キャンセル',
+        'import.replace': 'リストを置き換え',
+        'import.merge': '統合',
+        'shared.title': '共有: {name}',
+        'shared.copy': '自分のリストにコピー',
+        'shared.copyHint': 'これらのスキンを自分の新しいリストにコピー',
+        'shared.closeHint': '自分のリストに戻る',
+        'shared.error': 'この共有リンクを開けませんでした。{error}',
+        'shared.loading': '共有スキンを読み込み中...',
+        'shared.unresolved': 'このリンクの{count}件のスキンはもう存在しません:',
+        'shared.unresolved.one': 'このリンクの{count}件のスキンはもう存在しません:',
+        'lines.loadError': 'スキンラインを読み込めませんでした。{error}',
+        'lines.loading': 'スキンラインを読み込み中...',
+        'lines.search': 'スキンラインを検索...',
+        'lines.favorited': '{favorited}/{total} お気に入り',
+        'lines.owned': '{count} 所持',
+        'lines.toComplete': 'コンプリートまで{amount}',
+        'lines.toCompleteHint': 'このラインでまだ持っていないスキンの費用',
+        'lines.addAll': 'すべて追加',
+        'lines.addRemaining': '残りを追加 ({count})',
+        'lines.none': 'スキンラインが見つかりません。',
+        'patches.from': '比較元',
+        'patches.to': '比較先',
+        'patches.loadError': 'これらのバージョンを比較できませんでした。{error}',
+        'patches.comparing': '{from}と{to}を比較中...',
+        'patches.newChampions': '新チャンピオン ({count})',
+        'patches.noChampions': '新チャンピオンはありません。',
+        'patches.newSkins': '新スキン ({count})',
+        'patches.noSkins': '新スキンはありません。',
+        'patches.onWishlist': 'ウィッシュリストにあるチャンピオン',
+        'search.skins': 'スキンを検索...',
+        'search.minPrice': '最小',
+        'search.maxPrice': '最大',
+        'search.hasChromas': 'クロマあり',
+        'search.favorited': 'お気に入り',
+        'search.favoritedAny': 'お気に入りを問わない',
+        'search.favoritedNo': 'お気に入り以外',
+        'search.availability': '入手方法',
+        'search.availabilityAny': '入手方法を問わない',
+        'search.inStore': 'ストアで販売中',
+        'search.sortBy': '並び順',
+        'search.sortName': '名前',
+        'search.sortChampion': 'チャンピオン',
+        'search.sortPriceAsc': '価格: 安い順',
+        'search.sortPriceDesc': '価格: 高い順',
+        'search.noResults': '条件に一致するスキンはありません。',
+        'search.showMore': 'さらに表示 (残り{count}件)',
+        'modal.skins': '{name}のスキン',
+        'modal.loadError': '{name}のスキンを読み込めませんでした。',
+        'modal.loading': 'スキンを読み込み中...',
+        'modal.loadingArt': 'スキンアートを読み込み中...',
+        'modal.previous': '前のスキン',
+        'modal.next': '次のスキン',
+        'modal.position': '{name}、スキン {index}/{total}',
+        'modal.positionChroma': '{name}、スキン {index}/{total}、クロマ',
+        'modal.base': 'ベース',
+        'modal.baseHint': 'ベーススキン',
+        'modal.targetList': 'このスキンを追加するウィッシュリスト',
+        'modal.markOwned': '所持済みにする',
+        'modal.markNotOwned': '未所持にする',
+        'modal.splashUnavailable': 'スプラッシュアートを表示できません',
+        'ask.placeholder': '例:「まだ持っていない1350 RP以下のダークなメイジスキン」',
+        'ask.label': '探しているスキンを説明してください',
+        'ask.submit': '質問',
+        'ask.submitHint': '{name}に質問',
+        'ask.asking': '問い合わせ中...',
+        'ask.error': 'おすすめを取得できませんでした。{error}',
+        'ask.addAll': 'すべて追加 ({count})',
+        'ask.rejected': '{count}件の提案は現在のスキンと一致しなかったため除外されました。',
+        'ask.rejected.one': '{count}件の提案は現在のスキンと一致しなかったため除外されました。',
+        'ask.noResults': 'そのリクエストに一致するスキンはありません。',
+        'rating.label': '評価',
+        'rating.attack': '攻撃',
+        'rating.defense': '防御',
+        'rating.magic': '魔力',
+        'rating.difficulty': '難易度',
+        'rating.value': '10段階中{value}',
+        'error.unknown': '問題が発生しました。',
+        'error.data.timeout': 'リクエストがタイムアウトしました。',
+        'error.data.network': 'サーバーに接続できません。接続を確認してください。',
+        'error.data.http': 'サーバーがステータス {status} を返しました。',
+        'error.data.invalid': 'サーバーが予期しない形式のデータを返しました。',
+        'error.share.unsupportedVersion': 'このリンクはサポートされていないバージョンのアプリで作成されました。',
+        'error.share.malformed': 'このリンクは不完全か、形式が正しくありません。',
+        'error.share.invalidId': 'リンクに無効なスキンIDが含まれています。',
+        'error.share.tooManySkins': 'このリンクに含まれるスキンが多すぎます。',
+        'error.import.invalidJson': 'ファイルが有効なJSONではありません。',
+        'error.import.notAnExport': 'ファイルはお気に入りのエクスポートではありません。',
+        'error.import.unsupportedVersion': 'ファイルはサポートされていないバージョンのアプリでエクスポートされました。',
+        'error.import.noIdColumn': 'CSVファイルに「Skin ID」列がありません。',
+        'error.sync.offline': '同期サーバーに接続できません。',
+        'error.sync.http': '同期サーバーがステータス {status} を返しました。',
+        'error.sync.invalid': '同期サーバーが予期しない形式のデータを返しました。',
+        'error.sync.conflict': 'お気に入りが別の場所で変更されました。',
+        'error.sync.busy': '同期サーバー上でお気に入りが変更され続けています。しばらくしてからもう一度お試しください。',
+        'error.recommendation.unreadable': 'モデルの回答を読み取れませんでした。',
+        'ask.criteria': '{criteria}スキン。',
+        'ask.criteria.matching': '「{words}」に一致する',
+        'ask.criteria.maxPrice': '{price}以下の',
+        'ask.criteria.notOwned': '未所持の',
+        'ask.criteria.all': 'すべてのスキン。',
+        'app.interfaceLanguages': '画面とデータ',
+        'app.dataOnlyLanguages': 'チャンピオンとスキンのデータのみ（画面は英語）',
+    },
+    ko_KR: {
+        'app.loading': '최신 스킨 데이터를 불러오는 중...',
+        'app.loadError': '챔피언 데이터를 불러오지 못했습니다.',
+        'app.retry': '다시 시도',
+        'app.pricesUnavailable': '가격 정보를 사용할 수 없음: {error}',
+        'app.clearCache': '캐시 데이터 삭제',
+        'app.language': '언어',
+        'app.loadingVersions': '버전을 불러오는 중...',
+        'app.newSinceLastVisit': '마지막 방문 이후 새 항목 {count}개',
+        'app.collection': '컬렉션: 스킨 {owned}/{total}개 보유 ({percent}%)',
+        'app.collectionValue': '가치 {value}',
+        'app.championOwned': '{owned}/{total} 보유',
+        'app.offline': '오프라인',
+        'app.dataVersion': '데이터: 패치 {version}',
+        'sync.synced': '동기화됨',
+        'sync.syncing': '동기화 중...',
+        'sync.pending': '동기화 대기 중',
+        'sync.error': '동기화 실패',
+        'sync.now': '지금 동기화',
+        'view.champions': '챔피언',
+        'view.skins': '스킨',
+        'view.lines': '테마',
+        'view.patches': '신규',
+        'view.ask': '질문',
+        'title.champions': '모든 챔피언',
+        'title.skins': '모든 스킨',
+        'title.lines': '스킨 테마',
+        'title.patches': '새로운 소식',
+        'title.ask': '스킨 찾기',
+        'search.champion': '챔피언 검색...',
+        'champions.roles': '역할군',
+        'champions.allRoles': '모든 역할군',
+        'champions.sortBy': '챔피언 정렬 기준',
+        'champions.sortName': '이름',
+        'champions.sortSkins': '스킨 많은 순',
+        'champions.sortFavorites': '즐겨찾기 많은 순',
+        'champions.noMatches': '필터와 일치하는 챔피언이 없습니다.',
+        'role.Assassin': '암살자',
+        'role.Fighter': '전사',
+        'role.Mage': '마법사',
+        'role.Marksman': '원거리 딜러',
+        'role.Support': '서포터',
+        'role.Tank': '탱커',
+        'favorites.title': '즐겨찾는 스킨',
+        'favorites.empty': '즐겨찾는 스킨이 여기에 표시됩니다.',
+        'favorites.totalCost': '총 비용:',
+        'favorites.markOwned': '보유함으로 표시',
+        'favorites.chroma': '크로마',
+        'notFound.title': '페이지를 찾을 수 없음',
+        'notFound.body': '이 주소에 해당하는 챔피언이나 스킨이 없습니다.',
+        'notFound.back': '모든 챔피언으로 돌아가기',
+        'title.compare': '스킨 비교',
+        'compare.add': '비교에 추가',
+        'compare.remove': '비교에서 제거',
+        'compare.full': '최대 {max}개의 스킨을 비교할 수 있습니다',
+        'compare.open': '비교 ({count})',
+        'compare.clear': '비우기',
+        'compare.pickMore': '챔피언 스킨이나 즐겨찾기에서 비교할 스킨을 두 개 이상 선택하세요.',
+        'compare.chromas': '크로마 {count}개',
+        'compare.noChromas': '크로마 없음',
+        'compare.chromaOf': '{name}의 크로마',
+        'compare.unresolved': '이 링크의 일부 스킨은 현재 데이터에 없습니다.',
+        'price.sale': '할인',
+        'price.eventToken': '토큰 {amount}개',
+        'currency.rp': 'RP',
+        'currency.orangeEssence': '주황 정수',
+        'currency.mythicEssence': '신화 정수',
+        'currency.eventToken': '이벤트 토큰',
+        'cost.edit': '가격 수정',
+        'cost.overridden': '직접 입력한 가격',
+        'cost.add': '통화 추가',
+        'cost.remove': '삭제',
+        'cost.save': '저장',
+        'cost.reset': '불러온 데이터 사용',
+        'cost.cancel': '취소',
+        'price.changed': '지난 방문 때 {price}',
+        'price.target': '목표 가격',
+        'budget.open': '예산 계획',
+        'budget.title': '예산 플래너',
+        'budget.amount': '예산',
+        'budget.unit': '예산 단위',
+        'budget.balance': '계정의 RP',
+        'budget.goal': '우선순위가 없을 때 선호',
+        'budget.goalCount': '스킨 수',
+        'budget.goalRarity': '희귀도',
+        'budget.buys': '최대 {amount}까지 구매할 수 있습니다.',
+        'budget.fits': '스킨 {count}개, {total}',
+        'budget.buy': '구매:',
+        'budget.noBundles': '구매할 항목을 보려면 RP 묶음을 추가하세요.',
+        'budget.leftover': '구매 후 남는 RP: {amount}',
+        'budget.nothingFits': '이 예산에 맞는 즐겨찾기가 없습니다.',
+        'budget.enterAmount': '예산을 입력하면 추천을 보여 드립니다.',
+        'budget.skipped': '즐겨찾기 {count}개는 예산에 맞지 않습니다.',
+        'budget.bundles': 'RP 묶음',
+        'budget.currency': '통화',
+        'budget.bundleRp': '묶음 RP',
+        'budget.bundlePrice': '묶음 가격',
+        'budget.removeBundle': '묶음 삭제',
+        'budget.addBundle': '묶음 추가',
+        'budget.resetBundles': '기본값으로 재설정',
+        'budget.close': '닫기',
+        'favorites.edit': '우선순위, 메모, 태그',
+        'favorites.filter': '이름으로 필터...',
+        'favorites.sort': '정렬 기준',
+        'favorites.anyPriority': '모든 우선순위',
+        'favorites.anyRarity': '모든 희귀도',
+        'favorites.anyTag': '모든 태그',
+        'favorites.maxPrice': '최대 RP',
+        'favorites.noMatches': '필터와 일치하는 즐겨찾기가 없습니다.',
+        'favorites.reorderHint': '드래그하거나 Alt+위/아래 키로 순서 변경',
+        'favorites.subtotals': '소계',
+        'favorites.untagged': '태그 없음',
+        'favorites.noPriority': '우선순위 없음',
+        'sort.manual': '내 순서',
+        'sort.champion': '챔피언',
+        'sort.price': '가격',
+        'sort.rarity': '희귀도',
+        'sort.priority': '우선순위',
+        'subtotal.none': '소계 없음',
+        'subtotal.tag': '태그별',
+        'subtotal.priority': '우선순위별',
+        'priority.none': '우선순위 없음',
+        'priority.high': '높음',
+        'priority.medium': '보통',
+        'priority.low': '낮음',
+        'notes.title': '{name} 메모',
+        'notes.priority': '우선순위',
+        'notes.note': '메모',
+        'notes.tags': '태그 (쉼표로 구분)',
+        'notes.save': '저장',
+        'notes.cancel': '취소',
+        'skin.legacy': '레거시',
+        'skin.limited': '한정판',
+        'skin.firstSeen': '{version} 신규',
+        'price.setTarget': '{name}의 가격이 이 금액(RP) 이하가 되면 알림. 비워 두면 해제:',
+        'favorites.fullPriceTotal': '정가 기준 {total}',
+        'favorites.targetReached': '목표 가격 도달:',
+        'app.close': '닫기',
+        'app.owned': '보유',
+        'app.needsAllData': '모든 챔피언 데이터를 불러온 후 사용할 수 있습니다',
+        'app.confirmOwnedFavorite': '{name}을(를) 이미 보유하고 있습니다. 그래도 위시리스트에 추가할까요?',
+        'app.sharedList': '공유된 목록',
+        'rarity.none': '없음',
+        'rarity.epic': '에픽',
+        'rarity.legendary': '전설급',
+        'rarity.ultimate': '궁극',
+        'rarity.mythic': '신화급',
+        'rarity.transcendent': '초월급',
+        'rarity.exalted': '고귀급',
+        'lists.current': '현재 목록',
+        'lists.new': '새 목록',
+        'lists.newPrompt': '새 목록 이름:',
+        'lists.rename': '목록 이름 변경',
+        'lists.renamePrompt': '목록 이름 변경:',
+        'lists.delete': '목록 삭제',
+        'lists.deleteConfirm': '"{name}"을(를) 삭제할까요? 되돌릴 수 없습니다.',
+        'lists.exportJson': '목록을 JSON으로 내보내기',
+        'lists.exportCsv': '목록을 CSV로 내보내기',
+        'lists.import': '가져오기',
+        'lists.importHint': 'JSON 또는 CSV 내보내기 파일을 이 목록으로 가져오기',
+        'lists.importFailed': '{file}을(를) 가져오지 못했습니다: {error}',
+        'lists.share': '공유',
+        'lists.shareHint': '이 목록의 읽기 전용 링크 복사',
+        'lists.sharePrompt': '목록을 공유하려면 이 링크를 복사하세요:',
+        'lists.copied': '복사됨',
+        'lists.removeSkin': '목록에서 제거',
+        'lists.addTo': '"{name}"에 추가',
+        'lists.favoriteIn': '"{name}"의 즐겨찾기',
+        'import.title': '"{name}"(으)로 가져오기',
+        'import.found': '스킨 {count}개를 찾았습니다.',
+        'import.found.one': '스킨 {count}개를 찾았습니다.',
+        'import.unknown': '{count}개 항목이 현재 스킨과 일치하지 않아 건너뜁니다:',
+        'import.unknown.one': '{count}개 항목이 현재 스킨과 일치하지 않아 건너뜁니다:',
+        'import.cancel': '취소',
+        'import.replace': '목록 바꾸기',
+        'import.merge': '병합',
+        'shared.title': '공유됨: {name}',
+        'shared.copy': '내 목록으로 복사',
+        'shared.copyHint': '이 스킨들을 내 새 목록으로 복사',
+        'shared.closeHint': '내 목록으로 돌아가기',
+        'shared.error': '이 공유 링크를 열 수 없습니다. {error}',
+        'shared.loading': '공유된 스킨을 불러오는 중...',
+        'shared.unresolved': '이 링크의 스킨 {count}개가 더 이상 존재하지 않습니다:',
+        'shared.unresolved.one': '이 링크의 스킨 {count}개가 더 이상 존재하지 않습니다:',
+        'lines.loadError': '스킨 라인을 불러오지 못했습니다. {error}',
+        'lines.loading': '스킨 라인을 불러오는 중...',
+        'lines.search': '스킨 라인 검색...',
+        'lines.favorited': '{favorited}/{total} 즐겨찾기',
+        'lines.owned': '{count} 보유',
+        'lines.toComplete': '완성까지 {amount}',
+        'lines.toCompleteHint': '이 라인에서 아직 없는 스킨의 비용',
+        'lines.addAll': '모두 추가',
+        'lines.addRemaining': '나머지 추가 ({count})',
+        'lines.none': '스킨 라인을 찾을 수 없습니다.',
+        'patches.from': '이전',
+        'patches.to': '이후',
+        'patches.loadError': '이 버전들을 비교하지 못했습니다. {error}',
+        'patches.comparing': '{from}와(과) {to} 비교 중...',
+        'patches.newChampions': '새 챔피언 ({count})',
+        'patches.noChampions': '새 챔피언이 없습니다.',
+        'patches.newSkins': '새 스킨 ({count})',
+        'patches.noSkins': '새 스킨이 없습니다.',
+        'patches.onWishlist': '위시리스트에 있는 챔피언',
+        'search.skins': '스킨 검색...',
+        'search.minPrice': '최소',
+        'search.maxPrice': '최대',
+        'search.hasChromas': '크로마 있음',
+        'search.favorited': '즐겨찾기',
+        'search.favoritedAny': '즐겨찾기 여부 무관',
+        'search.favoritedNo': '즐겨찾기 아님',
+        'search.availability': '구매 가능 여부',
+        'search.availabilityAny': '모든 구매 가능 여부',
+        'search.inStore': '상점 판매 중',
+        'search.sortBy': '정렬 기준',
+        'search.sortName': '이름',
+        'search.sortChampion': '챔피언',
+        'search.sortPriceAsc': '가격: 낮은 순',
+        'search.sortPriceDesc': '가격: 높은 순',
+        'search.noResults': '필터와 일치하는 스킨이 없습니다.',
+        'search.showMore': '더 보기 ({count}개 남음)',
+        'modal.skins': '{name} 스킨',
+        'modal.loadError': '{name} 스킨을 불러오지 못했습니다.',
+        'modal.loading': '스킨을 불러오는 중...',
+        'modal.loadingArt': '스킨 일러스트를 불러오는 중...',
+        'modal.previous': '이전 스킨',
+        'modal.next': '다음 스킨',
+        'modal.position': '{name}, 스킨 {index}/{total}',
+        'modal.positionChroma': '{name}, 스킨 {index}/{total}, 크로마',
+        'modal.base': '기본',
+        'modal.baseHint': '기본 스킨',
+        'modal.targetList': '이 스킨을 추가할 위시리스트',
+        'modal.markOwned': '보유로 표시',
+        'modal.markNotOwned': '미보유로 표시',
+        'modal.splashUnavailable': '스플래시 아트를 표시할 수 없습니다',
+        'ask.placeholder': '예: "아직 없는 1350 RP 이하의 어두운 마법사 스킨"',
+        'ask.label': '찾고 있는 스킨을 설명하세요',
+        'ask.submit': '질문',
+        'ask.submitHint': '{name}에게 질문',
+        'ask.asking': '질문하는 중...',
+        'ask.error': '추천을 가져오지 못했습니다. {error}',
+        'ask.addAll': '모두 추가 ({count})',
+        'ask.rejected': '{count}개의 제안이 현재 스킨과 일치하지 않아 제외되었습니다.',
+        'ask.rejected.one': '{count}개의 제안이 현재 스킨과 일치하지 않아 제외되었습니다.',
+        'ask.noResults': '요청과 일치하는 스킨이 없습니다.',
+        'rating.label': '능력치',
+        'rating.attack': '공격',
+        'rating.defense': '방어',
+        'rating.magic': '마법',
+        'rating.difficulty': '난이도',
+        'rating.value': '10점 중 {value}',
+        'error.unknown': '문제가 발생했습니다.',
+        'error.data.timeout': '요청 시간이 초과되었습니다.',
+        'error.data.network': '서버에 연결할 수 없습니다. 연결을 확인하세요.',
+        'error.data.http': '서버가 상태 {status}(으)로 응답했습니다.',
+        'error.data.invalid': '서버가 예상치 못한 형식의 데이터를 반환했습니다.',
+        'error.share.unsupportedVersion': '이 링크는 지원되지 않는 버전의 앱에서 만들어졌습니다.',
+        'error.share.malformed': '이 링크는 불완전하거나 형식이 잘못되었습니다.',
+        'error.share.invalidId': '링크에 잘못된 스킨 ID가 있습니다.',
+        'error.share.tooManySkins': '이 링크에 스킨이 너무 많습니다.',
+        'error.import.invalidJson': '파일이 올바른 JSON이 아닙니다.',
+        'error.import.notAnExport': '파일이 즐겨찾기 내보내기 파일이 아닙니다.',
+        'error.import.unsupportedVersion': '파일이 지원되지 않는 버전의 앱에서 내보내졌습니다.',
+        'error.import.noIdColumn': 'CSV 파일에 "Skin ID" 열이 없습니다.',
+        'error.sync.offline': '동기화 서버에 연결할 수 없습니다.',
+        'error.sync.http': '동기화 서버가 상태 {status}(으)로 응답했습니다.',
+        'error.sync.invalid': '동기화 서버가 예상치 못한 형식의 데이터를 반환했습니다.',
+        'error.sync.conflict': '즐겨찾기가 다른 곳에서 변경되었습니다.',
+        'error.sync.busy': '동기화 서버에서 즐겨찾기가 계속 변경되었습니다. 잠시 후 다시 시도하세요.',
+        'error.recommendation.unreadable': '모델이 읽을 수 없는 답변을 반환했습니다.',
+        'ask.criteria': '{criteria} 스킨.',
+        'ask.criteria.matching': '"{words}"와(과) 일치하는',
+        'ask.criteria.maxPrice': '{price} 이하인',
+        'ask.criteria.notOwned': '아직 보유하지 않은',
+        'ask.criteria.all': '모든 스킨.',
+        'app.interfaceLanguages': '화면 및 데이터',
+        'app.dataOnlyLanguages': '챔피언 및 스킨 데이터만 (화면은 영어)',
+    },
+};
+
+/** Whether the interface can be shown in `locale`, rather than only its champion and skin data. */
+export const hasCatalog = (locale: Locale) => locale === DEFAULT_LOCALE || MESSAGES[locale] !== undefined;
+
+export interface I18n {
+    /** Picks the champion and skin data. */
+    locale: Locale;
+    /** The language of messages and number formats: `locale` if it has a catalog, English otherwise. */
+    uiLocale: Locale;
+    t: (key: MessageKey, params?: Record<string, string | number>) => string;
+    formatNumber: (value: number) => string;
+    /** Formats an RP amount with the locale's digit grouping. */
+    formatRp: (amount: number) => string;
+    /** Formats an amount of any currency, e.g. "1,350 RP" or "125 ME". */
+    formatCost: (cost: SkinCost) => string;
+    /** Turns a failure from the services into a short message for the UI. */
+    describeError: (error: unknown) => string;
+}
+
+export const createI18n = (locale: Locale): I18n => {
+    const uiLocale = hasCatalog(locale) ? locale : DEFAULT_LOCALE;
+    const messages = MESSAGES[uiLocale] ?? {};
+    const numberFormat = new Intl.NumberFormat(toLanguageTag(uiLocale));
+    const t: I18n['t'] = (key, params) => {
+        // A count of one uses the `.one` variant where the locale has one, e.g. "1 skin found."
+        const one = params && String(params.count) === '1' ? `${key}.one` as MessageKey : null;
+        const template = (one && messages[one]) ?? messages[key] ?? (one && EN_US[one]) ?? EN_US[key];
+        return params ? template.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match) : template;
+    };
+    return {
+        locale,
+        uiLocale,
+        t,
+        formatNumber: value => numberFormat.format(value),
+        formatRp: amount => t('price.rp', { amount: numberFormat.format(amount) }),
+        formatCost: ({ currency, amount }) => t(`price.${currency}`, { amount: numberFormat.format(amount) }),
+        describeError: error => {
+            if (error instanceof DataClientError) return t(`error.data.${error.kind}`, { status: error.status ?? '' });
+            if (error instanceof SyncError) return t(`error.sync.${error.kind}`, { status: error.status ?? '' });
+            if (error instanceof ShareLinkError) return t(`error.share.${error.kind}`);
+            if (error instanceof FavoritesImportError) return t(`error.import.${error.kind}`);
+            if (error instanceof RecommendationError) return t('error.recommendation.unreadable');
+            // Anything else comes from outside the app (e.g. the Gemini client) and has only its own message
+            return error instanceof Error && error.message ? error.message : t('error.unknown');
+        },
+    };
+};
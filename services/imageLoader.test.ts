@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createImageLoader } from './imageLoader';
+
+/** Stands in for `Image`, recording each download so the test decides when it finishes. */
+class FakeImage {
+    static started: FakeImage[] = [];
+    onload: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    private url = '';
+
+    get src() {
+        return this.url;
+    }
+
+    set src(url: string) {
+        this.url = url;
+        if (url) FakeImage.started.push(this);
+    }
+}
+
+const finish = (url: string) => FakeImage.started.find(img => img.src === url)!.onload!();
+
+const startedUrls = () => FakeImage.started.map(img => img.src);
+
+describe('createImageLoader', () => {
+    beforeEach(() => {
+        FakeImage.started = [];
+        vi.stubGlobal('Image', FakeImage);
+    });
+
+    afterEach(() => vi.unstubAllGlobals());
+
+    it('serves requests in order, a few at a time', async () => {
+        const loader = createImageLoader(2);
+        const loads = ['a', 'b', 'c'].map(url => loader.load(url));
+        expect(startedUrls()).toEqual(['a', 'b']);
+
+        finish('a');
+        await loads[0];
+        expect(startedUrls()).toEqual(['a', 'b', 'c']);
+    });
+
+    it('starts priority requests before waiting ordinary ones, keeping their own order', () => {
+        const loader = createImageLoader(1);
+        for (const url of ['favorite-1', 'favorite-2', 'favorite-3']) loader.load(url);
+        loader.load('current', { priority: true });
+        loader.load('neighbor', { priority: true });
+
+        finish('favorite-1');
+        finish('current');
+        finish('neighbor');
+        expect(startedUrls()).toEqual(['favorite-1', 'current', 'neighbor', 'favorite-2']);
+    });
+
+    it('drops a cancelled request before it starts', async () => {
+        const loader = createImageLoader(1);
+        loader.load('a');
+        const controller = new AbortController();
+        const cancelled = loader.load('b', { signal: controller.signal, priority: true });
+        loader.load('c');
+
+        controller.abort();
+        await expect(cancelled).rejects.toMatchObject({ name: 'AbortError' });
+        finish('a');
+        expect(startedUrls()).toEqual(['a', 'c']);
+    });
+
+    it('shares one download between requests for the same image', async () => {
+        const loader = createImageLoader(1);
+        loader.load('a');
+        const first = loader.load('b');
+        const second = loader.load('b', { priority: true });
+        loader.load('c', { priority: true });
+
+        finish('a');
+        expect(startedUrls()).toEqual(['a', 'b']);
+        finish('b');
+        await Promise.all([first, second]);
+        expect(startedUrls()).toEqual(['a', 'b', 'c']);
+    });
+
+    it('keeps a shared download going until every request for it is cancelled', async () => {
+        const loader = createImageLoader(1);
+        const controllers = [new AbortController(), new AbortController()];
+        const loads = controllers.map(controller => loader.load('a', { signal: controller.signal }));
+        loader.load('b');
+
+        controllers[0].abort();
+        await expect(loads[0]).rejects.toMatchObject({ name: 'AbortError' });
+        expect(FakeImage.started[0].src).toBe('a');
+
+        controllers[1].abort();
+        await expect(loads[1]).rejects.toMatchObject({ name: 'AbortError' });
+        expect(FakeImage.started[0].src).toBe('');
+        expect(startedUrls()).toEqual(['', 'b']);
+    });
+
+    it("stops listening to the caller's signal once the image has loaded", async () => {
+        const loader = createImageLoader(1);
+        const controller = new AbortController();
+        const removeListener = vi.spyOn(controller.signal, 'removeEventListener');
+        const load = loader.load('a', { signal: controller.signal });
+
+        finish('a');
+        await load;
+        expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+    });
+});
@@ -0,0 +1,130 @@
+// --- Image Loader ---
+// Preloads images through a queue with a cap on concurrent downloads. Requests are served in the
+// order they're made, except that priority requests go ahead of every ordinary one still waiting,
+// so art the user is looking at doesn't sit behind background preloading. Requests for a URL
+// that's already queued or downloading share that download. Each request can be cancelled with
+// an AbortSignal; the download itself stops once no request wants it any more.
+
+export class ImageLoadError extends Error {
+    constructor(public readonly url: string) {
+        super(`Couldn't load image ${url}`);
+        this.name = 'ImageLoadError';
+    }
+}
+
+export interface ImageLoadOptions {
+    signal?: AbortSignal;
+    /** Queues ahead of ordinary requests, behind earlier priority ones. */
+    priority?: boolean;
+}
+
+export interface ImageLoader {
+    load: (url: string, options?: ImageLoadOptions) => Promise<void>;
+}
+
+interface Waiter {
+    resolve: () => void;
+    reject: (error: unknown) => void;
+    /** Stops listening to the caller's signal. */
+    release: () => void;
+}
+
+/** One download, shared by every request for its URL while it's queued or in progress. */
+interface PendingLoad {
+    url: string;
+    priority: boolean;
+    waiters: Set<Waiter>;
+    /** Stops the download once it has started. */
+    cancel?: () => void;
+}
+
+const abortError = () => new DOMException('Image load aborted', 'AbortError');
+
+export const createImageLoader = (concurrency: number): ImageLoader => {
+    const loaded = new Set<string>();
+    const pending = new Map<string, PendingLoad>();
+    const queue: PendingLoad[] = [];
+    let active = 0;
+
+    const enqueue = (item: PendingLoad) => {
+        const firstOrdinary = item.priority ? queue.findIndex(queued => !queued.priority) : -1;
+        if (firstOrdinary === -1) queue.push(item);
+        else queue.splice(firstOrdinary, 0, item);
+    };
+
+    const next = () => {
+        while (active < concurrency && queue.length > 0) {
+            const item = queue.shift()!;
+            active++;
+            const img = new Image();
+            const settle = (outcome: (waiter: Waiter) => void) => {
+                img.onload = img.onerror = null;
+                active--;
+                pending.delete(item.url);
+                for (const waiter of item.waiters) {
+                    waiter.release();
+                    outcome(waiter);
+                }
+                next();
+            };
+            item.cancel = () => {
+                settle(() => {});
+                img.src = ''; // Stops the download where the browser supports it
+            };
+            img.onload = () => {
+                loaded.add(item.url);
+                settle(waiter => waiter.resolve());
+            };
+            img.onerror = () => settle(waiter => waiter.reject(new ImageLoadError(item.url)));
+            img.src = item.url;
+        }
+    };
+
+    /** Called when every request for `item` was cancelled. */
+    const drop = (item: PendingLoad) => {
+        const index = queue.indexOf(item);
+        if (index !== -1) {
+            queue.splice(index, 1);
+            pending.delete(item.url);
+        } else {
+            item.cancel?.();
+        }
+    };
+
+    const load: ImageLoader['load'] = (url, options = {}) => {
+        const { signal, priority = false } = options;
+        if (loaded.has(url)) return Promise.resolve();
+        if (signal?.aborted) return Promise.reject(abortError());
+
+        let item = pending.get(url);
+        if (!item) {
+            item = { url, priority, waiters: new Set() };
+            pending.set(url, item);
+            enqueue(item);
+        } else if (priority && !item.priority && queue.includes(item)) {
+            // Already waiting as an ordinary request: move it up with the other priority ones
+            queue.splice(queue.indexOf(item), 1);
+            item.priority = true;
+            enqueue(item);
+        }
+
+        const shared = item;
+        const promise = new Promise<void>((resolve, reject) => {
+            const handleAbort = () => {
+                shared.waiters.delete(waiter);
+                reject(abortError());
+                if (shared.waiters.size === 0) drop(shared);
+            };
+            const waiter: Waiter = { resolve, reject, release: () => signal?.removeEventListener('abort', handleAbort) };
+            shared.waiters.add(waiter);
+            signal?.addEventListener('abort', handleAbort, { once: true });
+        });
+        next();
+        return promise;
+    };
+
+    return { load };
+};
+
+/** Shared by every view, so the cap applies to the whole app. */
+export const imageLoader = createImageLoader(4);
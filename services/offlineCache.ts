@@ -0,0 +1,29 @@
+// --- Offline Cache ---
+// Page side of the service worker in public/sw.js. It only runs in production builds; in
+// development every call here is a no-op.
+
+const ENABLED = process.env.SERVICE_WORKER === 'true' && 'serviceWorker' in navigator;
+
+export const registerServiceWorker = () => {
+    if (!ENABLED) return;
+    window.addEventListener('load', () => {
+        navigator.serviceWorker.register('/sw.js').catch(error => {
+            console.warn('Service worker registration failed; the app won\'t work offline:', error);
+        });
+    });
+};
+
+type ServiceWorkerMessage =
+    | { type: 'syncArt', urls: string[] }
+    | { type: 'pruneData', version: string };
+
+const postMessage = (message: ServiceWorkerMessage) => {
+    if (!ENABLED) return;
+    navigator.serviceWorker.ready.then(registration => registration.active?.postMessage(message));
+};
+
+/** Replaces the cached art with `urls`, most important first; the worker keeps as many as its quota allows. */
+export const syncCachedArt = (urls: string[]) => postMessage({ type: 'syncArt', urls });
+
+/** Drops cached Data Dragon files for every version but `version`. */
+export const pruneOfflineData = (version: string) => postMessage({ type: 'pruneData', version });
@@ -0,0 +1,83 @@
+import type { ChampionFull, Skin } from '../types';
+import { RequestOptions, fetchChampionManifest } from './dataClient';
+import { cacheVersion, loadCachedManifest, saveManifest } from './dataCache';
+
+// --- Patch Diff ---
+export interface AddedSkin {
+    champion: ChampionFull;
+    skin: Skin;
+}
+
+export interface CatalogDiff {
+    newChampions: ChampionFull[];
+    newSkins: AddedSkin[];
+}
+
+/** Lists the champions and (non-base) skins present in `to` but not in `from`. */
+export const diffCatalogs = (
+    from: { championIds: Set<string>, skinIds: Set<string> },
+    to: Iterable<ChampionFull>,
+): CatalogDiff => {
+    const diff: CatalogDiff = { newChampions: [], newSkins: [] };
+    for (const champion of to) {
+        if (!from.championIds.has(champion.id)) diff.newChampions.push(champion);
+        for (const skin of champion.skins) {
+            if (skin.num !== 0 && !from.skinIds.has(skin.id)) diff.newSkins.push({ champion, skin });
+        }
+    }
+    diff.newChampions.sort((a, b) => a.name.localeCompare(b.name));
+    diff.newSkins.sort((a, b) => a.champion.name.localeCompare(b.champion.name) || a.skin.num - b.skin.num);
+    return diff;
+};
+
+/** Loads every champion of a version, from the persistent cache when possible. */
+export const loadVersionManifest = async (version: string, locale: string, options?: RequestOptions): Promise<ChampionFull[]> => {
+    const cached = await loadCachedManifest(cacheVersion(version, locale));
+    if (cached) return cached;
+    const champions = await fetchChampionManifest(version, locale, options);
+    saveManifest(cacheVersion(version, locale), champions);
+    return champions;
+};
+
+export const catalogIds = (champions: Iterable<ChampionFull>) => {
+    const championIds = new Set<string>();
+    const skinIds = new Set<string>();
+    for (const champion of champions) {
+        championIds.add(champion.id);
+        for (const skin of champion.skins) skinIds.add(skin.id);
+    }
+    return { championIds, skinIds };
+};
+
+
+// --- Last Seen Catalog ---
+// What the user had seen on their previous visit, so new content can be flagged without
+// downloading an older version's data.
+const LAST_SEEN_KEY = 'lastSeenCatalog';
+
+export interface LastSeenCatalog {
+    version: string;
+    championIds: Set<string>;
+    skinIds: Set<string>;
+}
+
+export const loadLastSeenCatalog = (): LastSeenCatalog | null => {
+    try {
+        const saved = localStorage.getItem(LAST_SEEN_KEY);
+        if (!saved) return null;
+        const parsed = JSON.parse(saved);
+        if (typeof parsed?.version !== 'string' || !Array.isArray(parsed.championIds) || !Array.isArray(parsed.skinIds)) return null;
+        return { version: parsed.version, championIds: new Set(parsed.championIds), skinIds: new Set(parsed.skinIds) };
+    } catch (e) {
+        return null;
+    }
+};
+
+export const saveLastSeenCatalog = (version: string, champions: Iterable<ChampionFull>) => {
+    const { championIds, skinIds } = catalogIds(champions);
+    localStorage.setItem(LAST_SEEN_KEY, JSON.stringify({
+        version,
+        championIds: Array.from(championIds),
+        skinIds: Array.from(skinIds),
+    }));
+};
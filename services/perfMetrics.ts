@@ -0,0 +1,41 @@
+// --- Performance Metrics ---
+// Opt-in with `?perf` in the URL. Counts renders per component and records how long startup
+// takes, so changes to loading and rendering can be compared on the same data. Results are on
+// `window.skinPerf` and are logged once every champion's details have loaded.
+
+export interface PerfReport {
+    renders: Record<string, number>;
+    /** Milliseconds since navigation started. */
+    marks: Record<string, number>;
+}
+
+export const PERF_ENABLED = new URLSearchParams(window.location.search).has('perf');
+
+const report: PerfReport = { renders: {}, marks: {} };
+
+declare global {
+    interface Window {
+        skinPerf?: PerfReport;
+    }
+}
+
+if (PERF_ENABLED) window.skinPerf = report;
+
+/** Call from a component body; each call is one render. */
+export const countRender = (name: string) => {
+    if (PERF_ENABLED) report.renders[name] = (report.renders[name] ?? 0) + 1;
+};
+
+/** Records the first time `name` is reached and returns true; later calls are ignored. */
+export const markOnce = (name: string): boolean => {
+    if (!PERF_ENABLED || name in report.marks) return false;
+    performance.mark(name);
+    report.marks[name] = Math.round(performance.now());
+    return true;
+};
+
+export const logPerfReport = () => {
+    if (!PERF_ENABLED) return;
+    console.table(report.renders);
+    console.table(report.marks);
+};
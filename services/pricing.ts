@@ -0,0 +1,67 @@
+import type { FavoriteSkin, SkinCost, SkinCurrency, SkinInfo } from '../types';
+import { SKIN_CURRENCIES } from './skinMetadata';
+
+// --- Price Helpers ---
+export const isOnSale = (info: SkinInfo | undefined): info is SkinInfo & { fullPrice: number } =>
+    info?.fullPrice !== undefined && info.fullPrice > info.price;
+
+/** Sums the current RP price of every skin with known pricing. */
+export const totalRpFor = (skins: FavoriteSkin[], skinInfo: Map<number, SkinInfo>): number =>
+    skins.reduce((acc, fav) => {
+        const info = skinInfo.get(parseInt(fav.id));
+        if (info && info.price) {
+            return acc + info.price;
+        }
+        return acc;
+    }, 0);
+
+/** Like totalRpFor, but counts skins on sale at their regular price. */
+export const totalFullRpFor = (skins: FavoriteSkin[], skinInfo: Map<number, SkinInfo>): number =>
+    skins.reduce((acc, fav) => {
+        const info = skinInfo.get(parseInt(fav.id));
+        return acc + (info?.fullPrice ?? info?.price ?? 0);
+    }, 0);
+
+/** Sums each currency's costs, in SKIN_CURRENCIES order, leaving out currencies nothing costs. */
+export const totalsByCurrency = (skins: FavoriteSkin[], skinInfo: Map<number, SkinInfo>): SkinCost[] => {
+    const totals = new Map<SkinCurrency, number>();
+    for (const fav of skins) {
+        for (const { currency, amount } of skinInfo.get(parseInt(fav.id))?.costs ?? []) {
+            totals.set(currency, (totals.get(currency) ?? 0) + amount);
+        }
+    }
+    return SKIN_CURRENCIES.filter(currency => totals.has(currency)).map(currency => ({ currency, amount: totals.get(currency)! }));
+};
+
+
+// --- Cost Overrides ---
+/**
+ * Replaces the costs of skins the user has corrected. An override stands in for all of a skin's
+ * costs, so its RP price (and sale) comes from the override too.
+ */
+export const applyCostOverrides = (skinInfo: Map<number, SkinInfo>, overrides: Map<string, SkinCost[]>): Map<number, SkinInfo> => {
+    if (overrides.size === 0) return skinInfo;
+    const overridden = new Map(skinInfo);
+    for (const [skinId, costs] of overrides) {
+        const info = skinInfo.get(parseInt(skinId));
+        if (!info) continue;
+        const { fullPrice, ...rest } = info;
+        overridden.set(parseInt(skinId), {
+            ...rest,
+            costs,
+            price: costs.find(cost => cost.currency === 'rp')?.amount ?? 0,
+            costOverridden: true,
+        });
+    }
+    return overridden;
+};
+
+
+// --- Price History ---
+/** Today's local date as YYYY-MM-DD, the key price snapshots are stored under. */
+export const snapshotDate = (now = new Date()) =>
+    `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+
+/** A favorite's target price is reached once it's priced at or below the target. */
+export const isTargetReached = (info: SkinInfo | undefined, target: number | undefined) =>
+    target !== undefined && info !== undefined && info.price > 0 && info.price <= target;
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { ChampionFull, SkinInfo, SkinLine } from '../types';
+import { buildSkinIndex } from './skinIndex';
+import { buildCatalog, createLocalRecommender, resolveRecommendations } from './recommendations';
+
+const champion = (id: string, key: string, tags: string[], skins: [number, string][]): ChampionFull =>
+    ({ id, key, name: id, tags, skins: skins.map(([num, name]) => ({ id: String(Number(key) * 1000 + num), num, name, chromas: false })) });
+
+const CHAMPIONS = new Map([
+    ['Ahri', champion('Ahri', '103', ['Mage', 'Assassin'], [[0, 'default'], [1, 'Dynasty Ahri'], [2, 'Star Guardian Ahri'], [3, 'Arcade Ahri']])],
+    ['Lux', champion('Lux', '99', ['Mage', 'Support'], [[0, 'default'], [1, 'Star Guardian Lux'], [2, 'Elementalist Lux']])],
+]);
+
+const info = (price: number, extra: Partial<SkinInfo> = {}): SkinInfo => ({
+    price,
+    costs: price ? [{ currency: 'rp', amount: price }] : [],
+    rarity: 'epic',
+    isBase: false,
+    isLegacy: false,
+    isLimited: !price,
+    ...extra,
+});
+
+const SKIN_INFO = new Map<number, SkinInfo>([
+    [103001, info(975, { chromas: [{ id: 103011, name: 'Dynasty Ahri (Ruby)', colors: [], imageUrl: '', price: 290 }] })],
+    [103002, info(1350, { skinLineIds: [1] })],
+    [103003, info(0)],
+    [99001, info(1820, { skinLineIds: [1] })],
+    [99002, info(3250, { rarity: 'ultimate' })],
+]);
+
+const SKIN_LINES: SkinLine[] = [{ id: 1, name: 'Star Guardian', description: '' }];
+
+const recommend = (query: string, ownedIds: string[] = []) =>
+    createLocalRecommender().recommend(query, buildCatalog(CHAMPIONS, SKIN_INFO, new Set(ownedIds), SKIN_LINES));
+
+describe('createLocalRecommender', () => {
+    it('ranks skins by how many words they match and leaves out skins matching none', async () => {
+        const response = await recommend('star guardian support skins');
+        expect(response.skinIds).toEqual(['99001', '103002', '99002']);
+        expect(response.criteria).toEqual({ words: ['star', 'guardian', 'support'], maxPrice: null, unownedOnly: false });
+    });
+
+    it('keeps catalog order for ties', async () => {
+        const response = await recommend('mage');
+        expect(response.skinIds).toEqual(['103001', '103002', '103003', '99001', '99002']);
+    });
+
+    it('drops skins over the budget and skins without an RP price', async () => {
+        const response = await recommend('mage skins under 1,500 RP');
+        expect(response.skinIds).toEqual(['103001', '103002']);
+        expect(response.criteria).toEqual({ words: ['mage'], maxPrice: 1500, unownedOnly: false });
+    });
+
+    it("only suggests skins that aren't owned when asked to", async () => {
+        const response = await recommend("skins I don't have yet", ['103001', '99002']);
+        expect(response.skinIds).toEqual(['103002', '103003', '99001']);
+        expect(response.criteria).toEqual({ words: [], maxPrice: null, unownedOnly: true });
+    });
+});
+
+describe('resolveRecommendations', () => {
+    it('keeps loaded skins in order and rejects unknown ids, base skins, chromas and repeats', () => {
+        const index = buildSkinIndex(CHAMPIONS, SKIN_INFO);
+        const result = resolveRecommendations(
+            { skinIds: ['103002', '404404', '103000', '103011', '103002', '99001'], summary: 'Star Guardian skins.' },
+            index,
+        );
+        expect(result.skins.map(match => match.skin.id)).toEqual(['103002', '99001']);
+        expect(result.rejectedIds).toEqual(['404404', '103000', '103011', '103002']);
+        expect(result.summary).toBe('Star Guardian skins.');
+    });
+});
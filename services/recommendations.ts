@@ -0,0 +1,195 @@
+import type { ChampionFull, SkinInfo, SkinLine } from '../types';
+import type { IndexedSkin } from './skinIndex';
+import { RARITY_LABELS } from './skinMetadata';
+
+// --- Errors ---
+export class RecommendationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RecommendationError';
+    }
+}
+
+
+// --- Catalog ---
+// One pipe-separated row per skin keeps the prompt small enough to send the whole collection.
+// Base skins and chromas are left out.
+export const CATALOG_HEADER = 'id|champion|roles|skin|rp|rarity|lines|owned';
+
+export const buildCatalog = (
+    championDetailsCache: Map<string, ChampionFull>,
+    skinInfo: Map<number, SkinInfo>,
+    ownedIds: Set<string>,
+    skinLines: SkinLine[] | null,
+): string => {
+    const lineNames = new Map((skinLines ?? []).map(line => [line.id, line.name]));
+    const clean = (value: string) => value.replace(/[|\n]/g, ' ');
+    const rows = [CATALOG_HEADER];
+    for (const champion of championDetailsCache.values()) {
+        for (const skin of champion.skins) {
+            if (skin.num === 0) continue;
+            const info = skinInfo.get(parseInt(skin.id));
+            const lines = (info?.skinLineIds ?? []).map(id => lineNames.get(id)).filter(Boolean).join(', ');
+            rows.push([
+                skin.id,
+                clean(champion.name),
+                (champion.tags ?? []).join(', '),
+                clean(skin.name),
+                info?.price || '',
+                info && info.rarity !== 'none' ? RARITY_LABELS[info.rarity] : '',
+                clean(lines),
+                ownedIds.has(skin.id) ? 'yes' : '',
+            ].join('|'));
+        }
+    }
+    return rows.join('\n');
+};
+
+
+// --- Recommenders ---
+/** What the offline matcher read from a request, for the UI to put into words. */
+export interface MatchCriteria {
+    words: string[];
+    maxPrice: number | null;
+    unownedOnly: boolean;
+}
+
+export interface RecommendationResponse {
+    skinIds: string[];
+    /** The model's own one-sentence reading of the request; empty when `criteria` is set instead. */
+    summary: string;
+    criteria?: MatchCriteria;
+}
+
+/** Anything that can turn a request and a catalog into skin ids, so the model can be swapped out. */
+export interface SkinRecommender {
+    readonly name: string;
+    recommend(query: string, catalog: string, options?: { signal?: AbortSignal }): Promise<RecommendationResponse>;
+}
+
+export const MAX_RECOMMENDATIONS = 24;
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+const buildPrompt = (query: string, catalog: string) => `You recommend League of Legends skins from a catalog.
+Only use ids that appear in the catalog. Return at most ${MAX_RECOMMENDATIONS} skin ids, best matches first,
+and a one-sentence summary of how you interpreted the request. The "rp" column is the price in RP;
+"owned" is "yes" for skins the user already has.
+
+Request: ${query}
+
+Catalog:
+${catalog}`;
+
+const parseResponse = (text: string | undefined): RecommendationResponse => {
+    try {
+        const parsed = JSON.parse(text ?? '');
+        if (Array.isArray(parsed?.skinIds)) {
+            return {
+                skinIds: parsed.skinIds.filter((id: unknown): id is string => typeof id === 'string'),
+                summary: typeof parsed.summary === 'string' ? parsed.summary : '',
+            };
+        }
+    } catch (e) {
+        // Fall through to the error below
+    }
+    throw new RecommendationError('The model returned an answer that could not be read.');
+};
+
+export const createGeminiRecommender = (apiKey: string): SkinRecommender => ({
+    name: 'Gemini',
+    recommend: async (query, catalog, options) => {
+        // Loaded on first use so the SDK stays out of the main bundle
+        const { GoogleGenAI, Type } = await import('@google/genai');
+        const ai = new GoogleGenAI({ apiKey });
+        const response = await ai.models.generateContent({
+            model: GEMINI_MODEL,
+            contents: buildPrompt(query, catalog),
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        skinIds: { type: Type.ARRAY, items: { type: Type.STRING } },
+                        summary: { type: Type.STRING },
+                    },
+                    required: ['skinIds', 'summary'],
+                },
+                abortSignal: options?.signal,
+            },
+        });
+        return parseResponse(response.text);
+    },
+});
+
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'with', 'skin', 'that', 'are', 'any', 'yet', 'have', 'own', 'don', 'not',
+    'under', 'below', 'less', 'than', 'themed', 'some', 'show', 'want', 'like',
+]);
+
+/**
+ * Deterministic keyword matcher over the same catalog the model sees. Understands "under N RP"
+ * and "don't have/own"; rows are ranked by how many of the remaining words they contain.
+ */
+export const createLocalRecommender = (): SkinRecommender => ({
+    name: 'Offline matcher',
+    recommend: async (query, catalog) => {
+        const lowered = query.toLowerCase();
+        const priceMatch = /(?:under|below|less than|<)\s*(\d[\d,.]*)\s*(?:rp)?/.exec(lowered);
+        const maxPrice = priceMatch ? parseInt(priceMatch[1].replace(/[,.]/g, '')) : null;
+        const unownedOnly = /(?:don'?t|do not) (?:have|own)|not owned|unowned/.test(lowered);
+        const words = lowered
+            .replace(/(?:under|below|less than|<)\s*\d[\d,.]*\s*(?:rp)?/g, ' ')
+            .split(/[^\p{L}\p{N}]+/u)
+            .map(word => word.replace(/s$/, ''))
+            .filter(word => word.length >= 3 && !STOP_WORDS.has(word));
+
+        const skinIds = catalog.split('\n').slice(1)
+            .map(row => row.split('|'))
+            .filter(([, , , , rp, , , owned]) => {
+                if (unownedOnly && owned) return false;
+                return maxPrice === null || (rp !== '' && parseInt(rp) <= maxPrice);
+            })
+            .map(columns => {
+                const text = columns.slice(1, 7).join(' ').toLowerCase();
+                return { id: columns[0], score: words.filter(word => text.includes(word)).length };
+            })
+            .filter(({ score }) => words.length === 0 || score > 0)
+            .sort((a, b) => b.score - a.score) // Stable, so ties keep catalog order
+            .slice(0, MAX_RECOMMENDATIONS)
+            .map(({ id }) => id);
+
+        return { skinIds, summary: '', criteria: { words, maxPrice, unownedOnly } };
+    },
+});
+
+/** Uses Gemini when an API key was configured at build time, and the offline matcher otherwise. */
+export const createRecommender = (): SkinRecommender =>
+    process.env.GEMINI_API_KEY ? createGeminiRecommender(process.env.GEMINI_API_KEY) : createLocalRecommender();
+
+
+// --- Validation ---
+export interface Recommendations {
+    skins: IndexedSkin[];
+    /** Ids in the response that aren't in the loaded data (or were repeated). */
+    rejectedIds: string[];
+    summary: string;
+    criteria?: MatchCriteria;
+}
+
+/** Keeps only ids that resolve to a loaded, non-base skin, in the order given. */
+export const resolveRecommendations = (response: RecommendationResponse, skinIndex: Map<string, IndexedSkin>): Recommendations => {
+    const skins: IndexedSkin[] = [];
+    const rejectedIds: string[] = [];
+    const seen = new Set<string>();
+    for (const id of response.skinIds.slice(0, MAX_RECOMMENDATIONS)) {
+        const match = skinIndex.get(id);
+        if (!match || match.skin.num === 0 || match.parentSkinId || seen.has(id)) {
+            rejectedIds.push(id);
+            continue;
+        }
+        seen.add(id);
+        skins.push(match);
+    }
+    return { skins, rejectedIds, summary: response.summary, criteria: response.criteria };
+};
@@ -0,0 +1,64 @@
+// --- Shareable Wishlist Links ---
+// A shared list lives entirely in the URL hash: `#share=1~<name>~<ids>`, where the skin ids
+// are sorted, delta-encoded and written in base 36 to keep links short.
+
+const SHARE_PREFIX = '#share=';
+const SHARE_FORMAT_VERSION = '1';
+const MAX_SHARED_SKINS = 500;
+
+export interface SharedList {
+    /** Empty when the link carries no name; the UI shows its own default then. */
+    name: string;
+    ids: string[];
+}
+
+export type ShareLinkErrorKind = 'unsupportedVersion' | 'malformed' | 'invalidId' | 'tooManySkins';
+
+export class ShareLinkError extends Error {
+    constructor(message: string, public readonly kind: ShareLinkErrorKind) {
+        super(message);
+        this.name = 'ShareLinkError';
+    }
+}
+
+const encodeIds = (ids: string[]): string => {
+    const sorted = Array.from(new Set(ids.map(id => parseInt(id)).filter(Number.isFinite))).sort((a, b) => a - b);
+    return sorted.map((id, i) => (i === 0 ? id : id - sorted[i - 1]).toString(36)).join('.');
+};
+
+const decodeIds = (encoded: string): string[] => {
+    if (!encoded) return [];
+    const ids: string[] = [];
+    let previous = 0;
+    for (const part of encoded.split('.')) {
+        if (!/^[0-9a-z]+$/.test(part)) throw new ShareLinkError('The link contains an invalid skin id.', 'invalidId');
+        previous += parseInt(part, 36);
+        ids.push(String(previous));
+    }
+    return ids;
+};
+
+export const encodeShareHash = (name: string, ids: string[]): string =>
+    `${SHARE_PREFIX}${SHARE_FORMAT_VERSION}~${encodeURIComponent(name)}~${encodeIds(ids)}`;
+
+export const buildShareUrl = (name: string, ids: string[]): string =>
+    `${window.location.origin}${window.location.pathname}${encodeShareHash(name, ids)}`;
+
+export const isShareHash = (hash: string) => hash.startsWith(SHARE_PREFIX);
+
+/** Parses a share hash. Throws ShareLinkError if the link is malformed or from an unknown format. */
+export const decodeShareHash = (hash: string): SharedList => {
+    const [version, name, encodedIds, ...rest] = hash.slice(SHARE_PREFIX.length).split('~');
+    if (version !== SHARE_FORMAT_VERSION) throw new ShareLinkError('This link was made by an unsupported version of the app.', 'unsupportedVersion');
+    if (name === undefined || encodedIds === undefined || rest.length > 0) throw new ShareLinkError('This link is incomplete or malformed.', 'malformed');
+
+    let decodedName: string;
+    try {
+        decodedName = decodeURIComponent(name);
+    } catch {
+        throw new ShareLinkError('This link is incomplete or malformed.', 'malformed');
+    }
+    const ids = decodeIds(encodedIds);
+    if (ids.length > MAX_SHARED_SKINS) throw new ShareLinkError('This link contains too many skins.', 'tooManySkins');
+    return { name: decodedName, ids };
+};
@@ -0,0 +1,54 @@
+import type { ChampionFull, ChromaInfo, FavoriteSkin, Skin, SkinInfo } from '../types';
+
+// --- Skin Lookup ---
+export interface IndexedSkin {
+    skin: Skin;
+    champion: ChampionFull;
+    /** Set when the entry is a chroma of the skin with this id. */
+    parentSkinId?: string;
+}
+
+/** Represents a chroma as a skin of its parent, sharing the parent's number (and so its art). */
+export const chromaAsSkin = (chroma: ChromaInfo, parent: Skin): Skin => ({
+    id: String(chroma.id),
+    num: parent.num,
+    name: chroma.name,
+    chromas: false,
+});
+
+/**
+ * Maps every skin id in the loaded champion details to its skin and champion. When
+ * `skinInfo` is given, chroma ids are indexed too.
+ */
+export const buildSkinIndex = (championDetailsCache: Map<string, ChampionFull>, skinInfo?: Map<number, SkinInfo>): Map<string, IndexedSkin> => {
+    const index = new Map<string, IndexedSkin>();
+    for (const champion of championDetailsCache.values()) {
+        for (const skin of champion.skins) {
+            index.set(skin.id, { skin, champion });
+            for (const chroma of skinInfo?.get(parseInt(skin.id))?.chromas ?? []) {
+                index.set(String(chroma.id), { skin: chromaAsSkin(chroma, skin), champion, parentSkinId: skin.id });
+            }
+        }
+    }
+    return index;
+};
+
+/**
+ * Favorites store the names from when they were added; this swaps in the names from the
+ * currently loaded (possibly localized) data, leaving favorites that aren't loaded as stored.
+ * The user's priority, note and tags carry over.
+ */
+export const localizeFavorite = (favorite: FavoriteSkin, index: Map<string, IndexedSkin>): FavoriteSkin => {
+    const match = index.get(favorite.id);
+    return match ? { ...favorite, ...toFavoriteSkin(match.skin, match.champion, match.parentSkinId) } : favorite;
+};
+
+export const toFavoriteSkin = (skin: Skin, championInfo: { id: string, name: string }, parentSkinId?: string): FavoriteSkin => ({
+    id: skin.id,
+    num: skin.num,
+    name: skin.name,
+    chromas: skin.chromas,
+    championId: championInfo.id,
+    championName: championInfo.name,
+    ...(parentSkinId && { parentSkinId }),
+});
@@ -0,0 +1,59 @@
+import type { ChampionFull, FavoriteSkin, SkinInfo, SkinLine } from '../types';
+import { toFavoriteSkin } from './skinIndex';
+
+// --- Skin Lines ---
+export interface SkinLineMember {
+    favorite: FavoriteSkin;
+    info: SkinInfo;
+    favorited: boolean;
+    owned: boolean;
+}
+
+export interface SkinLineEntry {
+    line: SkinLine;
+    members: SkinLineMember[];
+    favoritedCount: number;
+    ownedCount: number;
+    /** RP cost of every priced member that is neither favorited nor owned. */
+    missingCost: number;
+}
+
+/**
+ * Joins skin lines to the loaded champion data through each skin's `skinLineIds`.
+ * Lines with no loaded skins are left out.
+ */
+export const buildSkinLineEntries = (
+    skinLines: SkinLine[],
+    championDetailsCache: Map<string, ChampionFull>,
+    skinInfo: Map<number, SkinInfo>,
+    favoriteIds: Set<string>,
+    ownedIds: Set<string>,
+): SkinLineEntry[] => {
+    const membersByLine = new Map<number, SkinLineMember[]>();
+    for (const champion of championDetailsCache.values()) {
+        for (const skin of champion.skins) {
+            const info = skinInfo.get(parseInt(skin.id));
+            if (!info?.skinLineIds) continue;
+            for (const lineId of info.skinLineIds) {
+                const members = membersByLine.get(lineId) ?? [];
+                members.push({ favorite: toFavoriteSkin(skin, champion), info, favorited: favoriteIds.has(skin.id), owned: ownedIds.has(skin.id) });
+                membersByLine.set(lineId, members);
+            }
+        }
+    }
+
+    return skinLines
+        .filter(line => membersByLine.has(line.id))
+        .map(line => {
+            const members = membersByLine.get(line.id)!
+                .sort((a, b) => a.favorite.championName.localeCompare(b.favorite.championName));
+            return {
+                line,
+                members,
+                favoritedCount: members.filter(m => m.favorited).length,
+                ownedCount: members.filter(m => m.owned).length,
+                missingCost: members.reduce((acc, m) => m.favorited || m.owned ? acc : acc + m.info.price, 0),
+            };
+        })
+        .sort((a, b) => a.line.name.localeCompare(b.line.name));
+};
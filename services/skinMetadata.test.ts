@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { parseCurrency, parseRarity } from './skinMetadata';
+
+describe('parseRarity', () => {
+    it('reads CommunityDragon rarity codes', () => {
+        expect(parseRarity('kNoRarity')).toBe('none');
+        expect(parseRarity('kEpic')).toBe('epic');
+        expect(parseRarity('kLegendary')).toBe('legendary');
+        expect(parseRarity('kUltimate')).toBe('ultimate');
+        expect(parseRarity('kMythic')).toBe('mythic');
+        expect(parseRarity('kTranscendent')).toBe('transcendent');
+        expect(parseRarity('kExalted')).toBe('exalted');
+    });
+
+    it('reads the display names older files use', () => {
+        expect(parseRarity('None')).toBe('none');
+        expect(parseRarity('Epic')).toBe('epic');
+        expect(parseRarity('Legendary')).toBe('legendary');
+    });
+
+    it('counts anything unrecognized as no rarity', () => {
+        expect(parseRarity('kSomethingNew')).toBe('none');
+        expect(parseRarity('')).toBe('none');
+        expect(parseRarity(undefined)).toBe('none');
+        expect(parseRarity(3)).toBe('none');
+    });
+});
+
+describe('parseCurrency', () => {
+    it('reads the codes used next to costs, whatever their case and separators', () => {
+        expect(parseCurrency('RP')).toBe('rp');
+        expect(parseCurrency('riot_points')).toBe('rp');
+        expect(parseCurrency('OE')).toBe('orangeEssence');
+        expect(parseCurrency('cosmetic-essence')).toBe('orangeEssence');
+        expect(parseCurrency('ME')).toBe('mythicEssence');
+        expect(parseCurrency('MYTHIC_ESSENCE')).toBe('mythicEssence');
+        expect(parseCurrency('lol_event_token')).toBe('eventToken');
+        expect(parseCurrency('EventPass')).toBe('eventToken');
+    });
+
+    it('returns null for anything unrecognized', () => {
+        expect(parseCurrency('GEMSTONE')).toBeNull();
+        expect(parseCurrency(undefined)).toBeNull();
+        expect(parseCurrency(1350)).toBeNull();
+    });
+});
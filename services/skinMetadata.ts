@@ -0,0 +1,108 @@
+import type { SkinCurrency, SkinInfo, SkinRarity } from '../types';
+
+// --- Rarity ---
+export const SKIN_RARITIES: readonly SkinRarity[] = ['none', 'epic', 'legendary', 'ultimate', 'mythic', 'transcendent', 'exalted'];
+
+/** English names, for exports and recommendation prompts; the UI uses the `rarity.*` messages. */
+export const RARITY_LABELS: Record<SkinRarity, string> = {
+    none: 'None',
+    epic: 'Epic',
+    legendary: 'Legendary',
+    ultimate: 'Ultimate',
+    mythic: 'Mythic',
+    transcendent: 'Transcendent',
+    exalted: 'Exalted',
+};
+
+export const isSkinRarity = (value: unknown): value is SkinRarity => SKIN_RARITIES.includes(value as SkinRarity);
+
+/**
+ * Reads CommunityDragon's `rarity` codes (`kEpic`, `kNoRarity`) as well as display names
+ * (`Epic`, `None`). Anything unrecognized counts as no rarity.
+ */
+export const parseRarity = (value: unknown): SkinRarity => {
+    if (typeof value !== 'string') return 'none';
+    const normalized = value.replace(/^k(?=[A-Z])/, '').toLowerCase();
+    if (normalized === 'norarity') return 'none';
+    return isSkinRarity(normalized) ? normalized : 'none';
+};
+
+/** Lowest first, for sorting and for weighing skins against each other. */
+export const rarityRank = (rarity: SkinRarity) => SKIN_RARITIES.indexOf(rarity);
+
+
+// --- Currencies ---
+export const SKIN_CURRENCIES: readonly SkinCurrency[] = ['rp', 'orangeEssence', 'mythicEssence', 'eventToken'];
+
+export const isSkinCurrency = (value: unknown): value is SkinCurrency => SKIN_CURRENCIES.includes(value as SkinCurrency);
+
+const CURRENCY_CODES: Record<string, SkinCurrency> = {
+    rp: 'rp',
+    riotpoints: 'rp',
+    oe: 'orangeEssence',
+    orangeessence: 'orangeEssence',
+    cosmeticessence: 'orangeEssence',
+    me: 'mythicEssence',
+    mythicessence: 'mythicEssence',
+    eventtoken: 'eventToken',
+    eventpass: 'eventToken',
+    token: 'eventToken',
+};
+
+/**
+ * Reads the currency codes used next to CommunityDragon costs (`RP`, `ME`, `MYTHIC_ESSENCE`,
+ * `lol_event_token`...). Returns null for anything unrecognized.
+ */
+export const parseCurrency = (value: unknown): SkinCurrency | null => {
+    if (typeof value !== 'string') return null;
+    const normalized = value.toLowerCase().replace(/^lol/, '').replace(/[^a-z]/g, '');
+    return CURRENCY_CODES[normalized] ?? null;
+};
+
+
+// --- First Seen ---
+// CommunityDragon has no release dates, so the app notes the version in which each skin first
+// shows up. The first visit only records what already exists.
+const FIRST_SEEN_KEY = 'skinFirstSeen';
+
+interface FirstSeenRecord {
+    known: number[];
+    firstSeen: Record<string, string>;
+}
+
+const loadFirstSeen = (): FirstSeenRecord | null => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(FIRST_SEEN_KEY) ?? 'null');
+        if (!Array.isArray(saved?.known) || typeof saved.firstSeen !== 'object' || saved.firstSeen === null) return null;
+        return { known: saved.known.filter((id: unknown): id is number => typeof id === 'number'), firstSeen: saved.firstSeen };
+    } catch (e) {
+        return null;
+    }
+};
+
+/** Records skins that are new since the last call and returns the info with `firstSeenVersion` filled in. */
+export const annotateFirstSeen = (version: string, skinInfo: Map<number, SkinInfo>): Map<number, SkinInfo> => {
+    const record = loadFirstSeen();
+    const known = new Set(record?.known ?? []);
+    const firstSeen = { ...record?.firstSeen };
+    let changed = !record;
+    for (const id of skinInfo.keys()) {
+        if (known.has(id)) continue;
+        known.add(id);
+        if (record) firstSeen[id] = version;
+        changed = true;
+    }
+    if (changed) {
+        try {
+            localStorage.setItem(FIRST_SEEN_KEY, JSON.stringify({ known: Array.from(known), firstSeen }));
+        } catch (e) {
+            // Storage full: dates just won't be recorded this time
+        }
+    }
+
+    const annotated = new Map<number, SkinInfo>();
+    for (const [id, info] of skinInfo) {
+        annotated.set(id, firstSeen[id] ? { ...info, firstSeenVersion: firstSeen[id] } : info);
+    }
+    return annotated;
+};
@@ -0,0 +1,143 @@
+import type { ChampionFull, Skin, SkinInfo, SkinRarity } from '../types';
+import { SKIN_RARITIES, isSkinRarity } from './skinMetadata';
+
+// --- Skin Search ---
+export type SkinSort = 'name' | 'champion' | 'price-asc' | 'price-desc';
+export type FavoritedFilter = 'any' | 'yes' | 'no';
+/** How a skin can be had: sold for RP now, vaulted (legacy), or limited to events and loot. */
+export type AvailabilityFilter = 'any' | 'store' | 'legacy' | 'limited';
+
+export interface SkinFilters {
+    query: string;
+    rarities: SkinRarity[];
+    availability: AvailabilityFilter;
+    minPrice: number | null;
+    maxPrice: number | null;
+    hasChromas: boolean;
+    favorited: FavoritedFilter;
+    sort: SkinSort;
+}
+
+export interface SkinSearchResult {
+    skin: Skin;
+    champion: ChampionFull;
+    info?: SkinInfo;
+}
+
+export const DEFAULT_SKIN_FILTERS: SkinFilters = {
+    query: '',
+    rarities: [],
+    availability: 'any',
+    minPrice: null,
+    maxPrice: null,
+    hasChromas: false,
+    favorited: 'any',
+    sort: 'name',
+};
+
+const SORTS: SkinSort[] = ['name', 'champion', 'price-asc', 'price-desc'];
+const FAVORITED: FavoritedFilter[] = ['any', 'yes', 'no'];
+const AVAILABILITY: AvailabilityFilter[] = ['any', 'store', 'legacy', 'limited'];
+
+const matchesAvailability = (filter: AvailabilityFilter, info?: SkinInfo) => {
+    switch (filter) {
+        case 'store': return !!info && info.price > 0 && !info.isLegacy;
+        case 'legacy': return !!info?.isLegacy;
+        case 'limited': return !!info?.isLimited;
+        default: return true;
+    }
+};
+
+const hasChromas = (skin: Skin, info?: SkinInfo) => skin.chromas || (info?.chromas?.length ?? 0) > 0;
+
+/**
+ * Searches skin names across every loaded champion. Base skins are left out, since they
+ * can't be bought and are already reachable from the champion grid.
+ */
+export const searchSkins = (
+    championDetailsCache: Map<string, ChampionFull>,
+    skinInfo: Map<number, SkinInfo>,
+    favoriteIds: Set<string>,
+    filters: SkinFilters,
+): SkinSearchResult[] => {
+    const query = filters.query.trim().toLowerCase();
+    const rarities = new Set(filters.rarities);
+    const results: SkinSearchResult[] = [];
+
+    for (const champion of championDetailsCache.values()) {
+        for (const skin of champion.skins) {
+            if (skin.num === 0) continue;
+            if (query && !skin.name.toLowerCase().includes(query)) continue;
+
+            const info = skinInfo.get(parseInt(skin.id));
+            const price = info?.price ?? 0;
+            if (rarities.size > 0 && !rarities.has(info?.rarity ?? 'none')) continue;
+            if (!matchesAvailability(filters.availability, info)) continue;
+            if (filters.minPrice !== null && price < filters.minPrice) continue;
+            if (filters.maxPrice !== null && (price === 0 || price > filters.maxPrice)) continue;
+            if (filters.hasChromas && !hasChromas(skin, info)) continue;
+            if (filters.favorited === 'yes' && !favoriteIds.has(skin.id)) continue;
+            if (filters.favorited === 'no' && favoriteIds.has(skin.id)) continue;
+
+            results.push({ skin, champion, info });
+        }
+    }
+
+    const byName = (a: SkinSearchResult, b: SkinSearchResult) => a.skin.name.localeCompare(b.skin.name);
+    const priceOf = (r: SkinSearchResult) => r.info?.price ?? 0;
+    switch (filters.sort) {
+        case 'champion':
+            return results.sort((a, b) => a.champion.name.localeCompare(b.champion.name) || a.skin.num - b.skin.num);
+        case 'price-asc':
+            return results.sort((a, b) => priceOf(a) - priceOf(b) || byName(a, b));
+        case 'price-desc':
+            return results.sort((a, b) => priceOf(b) - priceOf(a) || byName(a, b));
+        default:
+            return results.sort(byName);
+    }
+};
+
+/** Lists the rarities present in the skin info, lowest first, for building filter options. */
+export const collectRarities = (skinInfo: Map<number, SkinInfo>): SkinRarity[] => {
+    const rarities = new Set<SkinRarity>();
+    for (const info of skinInfo.values()) rarities.add(info.rarity);
+    return SKIN_RARITIES.filter(rarity => rarity !== 'none' && rarities.has(rarity));
+};
+
+
+// --- Query String Encoding ---
+const parsePrice = (value: string | null): number | null => {
+    if (value === null || value === '') return null;
+    const price = parseInt(value);
+    return Number.isFinite(price) && price >= 0 ? price : null;
+};
+
+export const filtersFromParams = (params: URLSearchParams): SkinFilters => {
+    const sort = params.get('sort') as SkinSort;
+    const favorited = params.get('fav') as FavoritedFilter;
+    const availability = params.get('avail') as AvailabilityFilter;
+    return {
+        query: params.get('q') ?? '',
+        // Links from before rarities were normalized used display names such as "Epic"
+        rarities: (params.get('rarity') ?? '').split(',').map(rarity => rarity.toLowerCase()).filter(isSkinRarity),
+        availability: AVAILABILITY.includes(availability) ? availability : 'any',
+        minPrice: parsePrice(params.get('min')),
+        maxPrice: parsePrice(params.get('max')),
+        hasChromas: params.get('chromas') === '1',
+        favorited: FAVORITED.includes(favorited) ? favorited : 'any',
+        sort: SORTS.includes(sort) ? sort : 'name',
+    };
+};
+
+/** Writes the filters into `params`, leaving out anything still at its default. */
+export const writeFiltersToParams = (filters: SkinFilters, params: URLSearchParams) => {
+    const set = (key: string, value: string | null) => value ? params.set(key, value) : params.delete(key);
+    set('q', filters.query);
+    set('rarity', filters.rarities.join(','));
+    set('avail', filters.availability === 'any' ? null : filters.availability);
+    set('min', filters.minPrice === null ? null : String(filters.minPrice));
+    set('max', filters.maxPrice === null ? null : String(filters.maxPrice));
+    set('chromas', filters.hasChromas ? '1' : null);
+    set('fav', filters.favorited === 'any' ? null : filters.favorited);
+    set('sort', filters.sort === 'name' ? null : filters.sort);
+};
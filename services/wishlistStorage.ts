@@ -0,0 +1,94 @@
+import type { FavoriteSkin, Wishlist } from '../types';
+import { isFavoritePriority } from './favoriteOrganizer';
+
+// --- Wishlist Persistence ---
+const WISHLISTS_KEY = 'wishlists';
+const LEGACY_FAVORITES_KEY = 'favoriteSkins';
+
+export const DEFAULT_WISHLIST_NAME = 'Favorites';
+
+export interface WishlistState {
+    lists: Wishlist[];
+    activeId: string;
+}
+
+export const createWishlistId = () =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isFavoriteSkin = (value: unknown): value is FavoriteSkin => {
+    const skin = value as FavoriteSkin;
+    return typeof skin === 'object' && skin !== null
+        && typeof skin.id === 'string' && typeof skin.num === 'number'
+        && typeof skin.championId === 'string';
+};
+
+/** Drops annotation fields that don't have the expected shape, keeping the skin itself. */
+const sanitizeAnnotations = (skin: FavoriteSkin): FavoriteSkin => {
+    const { priority, note, tags, ...rest } = skin;
+    const validTags = Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string' && tag.trim() !== '') : [];
+    return {
+        ...rest,
+        ...(isFavoritePriority(priority) && { priority }),
+        ...(typeof note === 'string' && note && { note }),
+        ...(validTags.length > 0 && { tags: validTags }),
+    };
+};
+
+const isWishlist = (value: unknown): value is Wishlist => {
+    const list = value as Wishlist;
+    return typeof list === 'object' && list !== null
+        && typeof list.id === 'string' && typeof list.name === 'string' && Array.isArray(list.skins);
+};
+
+const defaultState = (skins: FavoriteSkin[] = []): WishlistState => {
+    const id = createWishlistId();
+    return { lists: [{ id, name: DEFAULT_WISHLIST_NAME, skins }], activeId: id };
+};
+
+/** Reads the legacy single `favoriteSkins` array so it can be migrated into a default list. */
+const loadLegacyFavorites = (): FavoriteSkin[] => {
+    try {
+        const saved = localStorage.getItem(LEGACY_FAVORITES_KEY);
+        const initial = saved ? JSON.parse(saved) : [];
+        return Array.isArray(initial) ? initial.filter(isFavoriteSkin) : [];
+    } catch (e) {
+        return [];
+    }
+};
+
+/** Keeps the well-formed lists and skins from stored or received data. */
+export const parseWishlists = (value: unknown): Wishlist[] => Array.isArray(value)
+    ? value.filter(isWishlist).map(list => ({ ...list, skins: list.skins.filter(isFavoriteSkin).map(sanitizeAnnotations) }))
+    : [];
+
+export const loadWishlists = (): WishlistState => {
+    try {
+        const saved = localStorage.getItem(WISHLISTS_KEY);
+        if (!saved) return defaultState(loadLegacyFavorites());
+
+        const parsed = JSON.parse(saved);
+        const lists = parseWishlists(parsed?.lists);
+        if (lists.length === 0) return defaultState();
+        const activeId = lists.some(list => list.id === parsed.activeId) ? parsed.activeId : lists[0].id;
+        return { lists, activeId };
+    } catch (e) {
+        return defaultState();
+    }
+};
+
+export const saveWishlists = (state: WishlistState) => {
+    localStorage.setItem(WISHLISTS_KEY, JSON.stringify(state));
+    // The legacy key is only read when no wishlists exist yet, so it can go once migrated.
+    localStorage.removeItem(LEGACY_FAVORITES_KEY);
+};
+
+/** Calls `onChange` with the saved wishlists whenever another tab saves them. Returns an unsubscribe function. */
+export const subscribeToWishlists = (onChange: (state: WishlistState) => void) => {
+    const handleStorage = (e: StorageEvent) => {
+        if (e.storageArea === localStorage && e.key === WISHLISTS_KEY && e.newValue !== null) onChange(loadWishlists());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+};
@@ -0,0 +1,696 @@
+import type React from 'react';
+
+// --- Styles ---
+export const styles: { [key: string]: React.CSSProperties } = {
+    appContainer: {
+        display: 'flex',
+        height: '100vh',
+        fontFamily: "'Roboto', sans-serif",
+        backgroundColor: '#0a101b',
+        color: '#c4b998',
+    },
+    favoritesPanel: {
+        width: '350px',
+        backgroundColor: '#010a13',
+        borderRight: '2px solid #242a30',
+        display: 'flex',
+        flexDirection: 'column',
+        position: 'relative',
+        overflow: 'hidden',
+        flexShrink: 0,
+    },
+    favoritesList: {
+        overflowY: 'auto',
+        flex: 1,
+    },
+    mainPanel: {
+        flex: 1,
+        display: 'flex',
+        flexDirection: 'column',
+        overflow: 'hidden',
+    },
+    mainHeader: {
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        padding: '10px 20px',
+        borderBottom: '2px solid #242a30',
+    },
+    headerControls: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: '10px',
+    },
+    iconButton: {
+        background: 'none',
+        border: '1px solid #c4b998',
+        borderRadius: '4px',
+        color: '#c4b998',
+        padding: '8px 10px',
+        cursor: 'pointer',
+        fontSize: '1em',
+    },
+    wishlistControls: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: '6px',
+        padding: '0 15px 10px',
+        position: 'relative',
+        zIndex: 1,
+    },
+    favoritesActions: {
+        display: 'flex',
+        gap: '6px',
+        padding: '0 15px 10px',
+        position: 'relative',
+        zIndex: 1,
+    },
+    listSelect: {
+        padding: '6px 8px',
+        borderRadius: '4px',
+        border: '1px solid #c4b998',
+        backgroundColor: '#0a101b',
+        color: '#c4b998',
+        fontSize: '0.9rem',
+        minWidth: 0,
+    },
+    championGrid: {
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fill, minmax(100px, 1fr))',
+        gap: '20px',
+        padding: '20px',
+        overflowY: 'auto',
+    },
+    scrollArea: {
+        flex: 1,
+        overflowY: 'auto',
+    },
+    viewToggle: {
+        display: 'flex',
+        border: '1px solid #c4b998',
+        borderRadius: '4px',
+        overflow: 'hidden',
+    },
+    viewToggleButton: {
+        background: 'none',
+        border: 'none',
+        color: '#c4b998',
+        padding: '8px 12px',
+        cursor: 'pointer',
+        fontSize: '0.9em',
+    },
+    viewToggleButtonActive: {
+        backgroundColor: '#c4b998',
+        color: '#010a13',
+    },
+    filterBar: {
+        display: 'flex',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: '10px',
+        padding: '10px 20px 0',
+    },
+    filterLabel: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: '6px',
+        fontSize: '0.9em',
+    },
+    priceInput: {
+        width: '70px',
+        padding: '6px 8px',
+        borderRadius: '4px',
+        border: '1px solid #c4b998',
+        backgroundColor: '#0a101b',
+        color: '#c4b998',
+    },
+    filterChip: {
+        background: 'none',
+        border: '1px solid #50617b',
+        borderRadius: '12px',
+        color: '#c4b998',
+        padding: '4px 10px',
+        fontSize: '0.8em',
+        cursor: 'pointer',
+    },
+    filterChipActive: {
+        backgroundColor: '#c4b998',
+        borderColor: '#c4b998',
+        color: '#010a13',
+    },
+    skinResultsGrid: {
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fill, minmax(150px, 1fr))',
+        gap: '20px',
+        padding: '20px',
+    },
+    skinResultCard: {
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        width: '100%',
+        textAlign: 'center',
+        cursor: 'pointer',
+        transition: 'transform 0.2s',
+        background: 'none',
+        border: 'none',
+        padding: 0,
+        color: 'inherit',
+        font: 'inherit',
+    },
+    skinResultItem: {
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+    },
+    skinResultImage: {
+        width: '100%',
+        aspectRatio: '308 / 560',
+        objectFit: 'cover',
+        borderRadius: '4px',
+        border: '2px solid #242a30',
+        backgroundColor: '#010a13',
+    },
+    compareGrid: {
+        display: 'grid',
+        gap: '20px',
+        padding: '20px',
+        overflowX: 'auto',
+    },
+    compareColumn: {
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        textAlign: 'center',
+    },
+    compareImage: {
+        width: '100%',
+        aspectRatio: '1215 / 717',
+        objectFit: 'cover',
+        borderRadius: '4px',
+        border: '2px solid #242a30',
+        backgroundColor: '#010a13',
+    },
+    compareChromaImage: {
+        width: '100%',
+        aspectRatio: '1215 / 717',
+        objectFit: 'contain',
+        borderRadius: '4px',
+        border: '2px solid #242a30',
+        backgroundColor: '#010a13',
+    },
+    compareTray: {
+        display: 'flex',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: '8px',
+        padding: '10px 20px',
+        borderTop: '2px solid #242a30',
+        backgroundColor: '#010a13',
+    },
+    compareChip: {
+        display: 'inline-flex',
+        alignItems: 'center',
+        gap: '6px',
+        padding: '4px 10px',
+        borderRadius: '16px',
+        border: '1px solid #c4b998',
+        fontSize: '0.85rem',
+    },
+    skinLineRow: {
+        borderBottom: '1px solid #1a2027',
+        padding: '10px 0',
+    },
+    skinLineHeader: {
+        display: 'flex',
+        alignItems: 'center',
+        flexWrap: 'wrap',
+        gap: '10px',
+    },
+    skinLineToggle: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: '6px',
+        flex: 1,
+        background: 'none',
+        border: 'none',
+        color: '#c4b998',
+        fontSize: '1em',
+        cursor: 'pointer',
+        textAlign: 'left',
+        padding: 0,
+    },
+    collectionSummary: {
+        padding: '8px 20px',
+        fontSize: '0.85em',
+        opacity: 0.8,
+        borderBottom: '1px solid #1a2027',
+    },
+    championOwnedCount: {
+        display: 'block',
+        fontSize: '0.75em',
+        opacity: 0.6,
+    },
+    highlightedSkinImage: {
+        borderColor: '#f0c040',
+    },
+    newContentBadge: {
+        padding: '6px 12px',
+        borderRadius: '16px',
+        border: 'none',
+        backgroundColor: '#f0c040',
+        color: '#010a13',
+        fontSize: '0.85rem',
+        fontWeight: 'bold',
+        cursor: 'pointer',
+        whiteSpace: 'nowrap',
+    },
+    offlineBadge: {
+        padding: '6px 12px',
+        borderRadius: '16px',
+        backgroundColor: '#242a30',
+        color: '#f0e6d2',
+        fontSize: '0.85rem',
+        whiteSpace: 'nowrap',
+    },
+    syncBadge: {
+        padding: '6px 12px',
+        borderRadius: '16px',
+        border: 'none',
+        backgroundColor: '#242a30',
+        color: '#f0e6d2',
+        fontSize: '0.85rem',
+        whiteSpace: 'nowrap',
+        cursor: 'pointer',
+    },
+    syncBadgeError: {
+        backgroundColor: '#5a1e1e',
+    },
+    dataVersion: {
+        opacity: 0.6,
+        fontSize: '0.8em',
+        whiteSpace: 'nowrap',
+    },
+    championCard: {
+        textAlign: 'center',
+        cursor: 'pointer',
+        transition: 'transform 0.2s',
+        background: 'none',
+        border: 'none',
+        padding: 0,
+        color: 'inherit',
+        font: 'inherit',
+    },
+    championImage: {
+        width: '80px',
+        height: '80px',
+        borderRadius: '50%',
+        border: '3px solid #c4b998',
+        transition: 'border-color 0.2s',
+    },
+    championName: {
+        display: 'block',
+        marginTop: '8px',
+        fontSize: '0.9em',
+        fontWeight: 500,
+    },
+    championTitle: {
+        display: 'block',
+        fontSize: '0.7em',
+        opacity: 0.7,
+        overflow: 'hidden',
+        textOverflow: 'ellipsis',
+        whiteSpace: 'nowrap',
+    },
+    championHeader: {
+        margin: '0 40px 12px 0',
+        textAlign: 'left',
+    },
+    championHeaderTitle: {
+        margin: 0,
+        fontSize: '1.3em',
+    },
+    championBlurb: {
+        margin: '6px 0 0',
+        fontSize: '0.85em',
+        lineHeight: 1.5,
+        opacity: 0.8,
+    },
+    championRatings: {
+        display: 'flex',
+        flexWrap: 'wrap',
+        gap: '6px 16px',
+        listStyle: 'none',
+        margin: '8px 0 0',
+        padding: 0,
+        fontSize: '0.8em',
+    },
+    championRating: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: '6px',
+        opacity: 0.8,
+    },
+    championRatingMeter: {
+        width: '60px',
+        height: '8px',
+    },
+    searchInput: {
+        padding: '8px 12px',
+        borderRadius: '4px',
+        border: '1px solid #c4b998',
+        backgroundColor: '#0a101b',
+        color: '#c4b998',
+        fontSize: '1em',
+    },
+    modalOverlay: {
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.8)',
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'center',
+        zIndex: 1000,
+    },
+    modalContent: {
+        position: 'relative',
+        backgroundColor: '#010a13',
+        border: '2px solid #c4b998',
+        borderRadius: '8px',
+        padding: '20px',
+        width: '90%',
+        maxWidth: '1200px',
+        textAlign: 'center'
+    },
+    closeButton: {
+        position: 'absolute',
+        top: '10px',
+        right: '20px',
+        background: 'none',
+        border: 'none',
+        color: '#c4b998',
+        fontSize: '2.5rem',
+        cursor: 'pointer',
+    },
+    carouselContainer: {
+        position: 'relative',
+        width: '100%',
+        height: '70vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    carouselImage: {
+        width: '100%',
+        height: '100%',
+        objectFit: 'contain',
+        userSelect: 'none',
+    },
+    carouselButton: {
+        position: 'absolute',
+        top: '50%',
+        transform: 'translateY(-50%)',
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        color: 'white',
+        border: 'none',
+        fontSize: '2rem',
+        padding: '10px',
+        cursor: 'pointer',
+        userSelect: 'none',
+        zIndex: 2,
+    },
+    carouselButtonPrev: { left: '10px' },
+    carouselButtonNext: { right: '10px' },
+    skinInfo: {
+        marginTop: '15px'
+    },
+    rpPrice: {
+        backgroundColor: '#1e282d',
+        color: '#cdbe93',
+        padding: '4px 10px',
+        borderRadius: '10px',
+        fontWeight: 'bold',
+        display: 'inline-block',
+        verticalAlign: 'middle',
+    },
+    costEditor: {
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        gap: '6px',
+        marginTop: '10px',
+    },
+    skinFlag: {
+        border: '1px solid #50617b',
+        color: '#a0aec0',
+        padding: '1px 6px',
+        borderRadius: '10px',
+        fontSize: '0.7em',
+        marginLeft: '6px',
+        display: 'inline-block',
+        verticalAlign: 'middle',
+        whiteSpace: 'nowrap',
+    },
+    saleBadge: {
+        backgroundColor: '#e05252',
+        color: 'white',
+        padding: '2px 6px',
+        borderRadius: '10px',
+        fontSize: '0.7em',
+        fontWeight: 'bold',
+        textTransform: 'uppercase',
+        marginRight: '4px',
+        verticalAlign: 'middle',
+    },
+    targetPrice: {
+        marginLeft: '6px',
+        opacity: 0.6,
+        whiteSpace: 'nowrap',
+    },
+    targetPriceReached: {
+        opacity: 1,
+        color: '#3fbf7f',
+        fontWeight: 'bold',
+    },
+    priceAlertBanner: {
+        margin: '10px 15px 0',
+        padding: '8px 12px',
+        borderRadius: '4px',
+        border: '1px solid #3fbf7f',
+        backgroundColor: 'rgba(63, 191, 127, 0.1)',
+        fontSize: '0.85em',
+    },
+    chromaRow: {
+        display: 'flex',
+        flexWrap: 'wrap',
+        justifyContent: 'center',
+        alignItems: 'center',
+        gap: '8px',
+        marginTop: '10px',
+    },
+    chromaSwatch: {
+        width: '24px',
+        height: '24px',
+        borderRadius: '50%',
+        border: '2px solid #242a30',
+        cursor: 'pointer',
+        padding: 0,
+    },
+    chromaBaseButton: {
+        height: '24px',
+        padding: '0 10px',
+        borderRadius: '12px',
+        border: '2px solid #242a30',
+        backgroundColor: '#1e282d',
+        color: '#c4b998',
+        fontSize: '0.75em',
+        cursor: 'pointer',
+    },
+    chromaSwatchActive: {
+        borderColor: '#f0e6d2',
+        boxShadow: '0 0 6px #f0e6d2',
+    },
+    ownedBadge: {
+        backgroundColor: '#3fbf7f',
+        color: '#010a13',
+        padding: '2px 8px',
+        borderRadius: '10px',
+        fontSize: '0.6em',
+        fontWeight: 'bold',
+        marginLeft: '10px',
+        textTransform: 'uppercase',
+        verticalAlign: 'middle',
+    },
+    favoriteButton: {
+        background: 'none',
+        border: 'none',
+        fontSize: '2rem',
+        cursor: 'pointer',
+        marginLeft: '15px',
+        verticalAlign: 'middle',
+    },
+    totalRpContainer: {
+        padding: '20px',
+        borderTop: '2px solid #242a30',
+        display: 'flex',
+        justifyContent: 'space-between',
+        fontSize: '1.2em',
+        backgroundColor: '#0a101b'
+    },
+    statusScreen: {
+        flexDirection: 'column',
+        justifyContent: 'center',
+        alignItems: 'center',
+        fontSize: '1.5em',
+        textAlign: 'center',
+    },
+    textButton: {
+        padding: '6px 16px',
+        borderRadius: '4px',
+        border: '1px solid #c4b998',
+        backgroundColor: 'transparent',
+        color: '#c4b998',
+        fontSize: '0.9rem',
+        cursor: 'pointer',
+    },
+    priceErrorBanner: {
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        gap: '10px',
+        padding: '10px 20px',
+        fontSize: '0.85em',
+        borderTop: '2px solid #242a30',
+        backgroundColor: '#1e1414',
+        position: 'relative',
+        zIndex: 1,
+    },
+    dialogContent: {
+        maxWidth: '500px',
+        textAlign: 'left',
+    },
+    dialogWarning: {
+        backgroundColor: '#1e1414',
+        borderRadius: '4px',
+        padding: '10px',
+    },
+    dialogList: {
+        maxHeight: '160px',
+        overflowY: 'auto',
+        margin: 0,
+        fontFamily: 'monospace',
+    },
+    dialogActions: {
+        display: 'flex',
+        justifyContent: 'flex-end',
+        gap: '10px',
+        marginTop: '20px',
+    },
+    dialogField: {
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '4px',
+        marginBottom: '12px',
+    },
+    dialogTextarea: {
+        padding: '8px 12px',
+        borderRadius: '4px',
+        border: '1px solid #c4b998',
+        backgroundColor: '#0a101b',
+        color: '#c4b998',
+        font: 'inherit',
+        resize: 'vertical',
+    },
+    favoritesToolbar: {
+        display: 'flex',
+        flexWrap: 'wrap',
+        gap: '6px',
+        padding: '0 15px 10px',
+        position: 'relative',
+        zIndex: 1,
+    },
+    priorityBadge: {
+        padding: '1px 6px',
+        borderRadius: '10px',
+        fontSize: '0.7em',
+        fontWeight: 'bold',
+        marginLeft: '6px',
+        color: '#010a13',
+        display: 'inline-block',
+        verticalAlign: 'middle',
+        textTransform: 'uppercase',
+    },
+    favoriteTag: {
+        backgroundColor: '#242a30',
+        color: '#c4b998',
+        padding: '1px 6px',
+        borderRadius: '4px',
+        fontSize: '0.7em',
+        marginLeft: '6px',
+        display: 'inline-block',
+        verticalAlign: 'middle',
+    },
+    budgetInputs: {
+        display: 'flex',
+        flexWrap: 'wrap',
+        gap: '0 16px',
+    },
+    budgetRow: {
+        display: 'flex',
+        justifyContent: 'space-between',
+        gap: '10px',
+        padding: '2px 0',
+    },
+    subtotalRow: {
+        display: 'flex',
+        justifyContent: 'space-between',
+        fontSize: '0.85em',
+        opacity: 0.8,
+        padding: '2px 20px',
+    },
+    favoriteArtPreview: {
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        width: '100%',
+        height: '100%',
+        pointerEvents: 'none',
+        zIndex: 0,
+    },
+    favoriteArtImage: {
+        width: '100%',
+        height: '100%',
+        objectFit: 'cover',
+        opacity: 0.1,
+        transition: 'opacity 0.3s ease-in-out',
+    },
+    favoriteItemInfo: {
+        display: 'flex',
+        flexDirection: 'column',
+    },
+    removeFavoriteButton: {
+        background: 'none',
+        border: '1px solid #555',
+        color: '#888',
+        width: '24px',
+        height: '24px',
+        borderRadius: '50%',
+        cursor: 'pointer',
+        fontSize: '1rem',
+        lineHeight: '22px',
+        textAlign: 'center',
+        opacity: 0.5,
+        transition: 'all 0.2s',
+    },
+    visuallyHidden: {
+        position: 'absolute',
+        width: '1px',
+        height: '1px',
+        overflow: 'hidden',
+        clip: 'rect(0 0 0 0)',
+        whiteSpace: 'nowrap',
+    },
+};
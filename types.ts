@@ -0,0 +1,103 @@
+// --- Type Definitions ---
+export interface Champion {
+    id: string;
+    key: string;
+    name: string;
+    title: string;
+    /** Plain text; Data Dragon's markup is stripped. */
+    blurb: string;
+    /** Roles such as "Mage" or "Assassin", in Data Dragon's order. */
+    tags: string[];
+    /** Data Dragon's 0-10 ratings; absent when the summary doesn't carry them. */
+    info?: ChampionRatings;
+}
+
+export interface ChampionRatings {
+    attack: number;
+    defense: number;
+    magic: number;
+    difficulty: number;
+}
+
+export interface Skin {
+    id: string;
+    num: number;
+    name: string;
+    chromas: boolean;
+}
+
+export interface ChampionFull {
+    id: string;
+    key: string;
+    name: string;
+    skins: Skin[];
+    /** Roles such as "Mage"; absent from details cached before roles were kept. */
+    tags?: string[];
+}
+
+export type FavoritePriority = 'high' | 'medium' | 'low';
+
+export interface FavoriteSkin extends Skin {
+    championId: string;
+    championName: string;
+    /** Set when this favorite is a chroma; `num` is then the parent skin's number. */
+    parentSkinId?: string;
+    priority?: FavoritePriority;
+    note?: string;
+    /** User-defined labels, kept trimmed and unique. */
+    tags?: string[];
+}
+
+export interface ChromaInfo {
+    id: number;
+    name: string;
+    colors: string[];
+    imageUrl: string;
+    /** RP; 0 for chromas skins.json doesn't price, such as loot, bundle and prestige chromas. */
+    price: number;
+}
+
+/** Rarity tiers from CommunityDragon, lowest first; regular skins have no rarity. */
+export type SkinRarity = 'none' | 'epic' | 'legendary' | 'ultimate' | 'mythic' | 'transcendent' | 'exalted';
+
+/** Every skin and chroma in skins.json gets one, whether or not it can be bought. */
+export type SkinCurrency = 'rp' | 'orangeEssence' | 'mythicEssence' | 'eventToken';
+
+export interface SkinCost {
+    currency: SkinCurrency;
+    amount: number;
+}
+
+export interface SkinInfo {
+    /** The current RP price, which is the sale price while the skin is on sale; 0 when not sold for RP. */
+    price: number;
+    /** The regular price; only set while the skin is on sale. */
+    fullPrice?: number;
+    /** Every currency the skin can be bought with, RP (at `price`) first. Empty when it can't be bought. */
+    costs: SkinCost[];
+    /** The costs were entered by the user rather than loaded. */
+    costOverridden?: boolean;
+    rarity: SkinRarity;
+    /** The champion's default look. */
+    isBase: boolean;
+    /** Vaulted: only returns to the store occasionally. */
+    isLegacy: boolean;
+    /** Not base, not legacy and not sold for RP: event, prestige and loot-only skins. */
+    isLimited: boolean;
+    chromas?: ChromaInfo[];
+    skinLineIds?: number[];
+    /** The Data Dragon version this app first saw the skin in; unset for skins already out at the first visit. */
+    firstSeenVersion?: string;
+}
+
+export interface SkinLine {
+    id: number;
+    name: string;
+    description: string;
+}
+
+export interface Wishlist {
+    id: string;
+    name: string;
+    skins: FavoriteSkin[];
+}
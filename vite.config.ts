@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -12,12 +13,22 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.DDRAGON_BASE_URL': JSON.stringify(env.DDRAGON_BASE_URL || ''),
+        'process.env.CDRAGON_BASE_URL': JSON.stringify(env.CDRAGON_BASE_URL || ''),
+        'process.env.SYNC_URL': JSON.stringify(env.SYNC_URL || ''),
+        'process.env.SYNC_STRATEGY': JSON.stringify(env.SYNC_STRATEGY || 'merge'),
+        // The service worker caches build output, so it's left out of the dev server
+        'process.env.SERVICE_WORKER': JSON.stringify(String(mode === 'production'))
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        environment: 'jsdom',
+        setupFiles: ['./vitest.setup.ts'],
       }
     };
 });
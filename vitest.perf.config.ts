@@ -0,0 +1,17 @@
+/// <reference types="vitest/config" />
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+// Startup measurements (`npm run perf`); kept apart from `npm test` because they need the fixture
+// mirror running and take several seconds each.
+export default defineConfig({
+    plugins: [react()],
+    server: {
+        // PERF_ROOT can point at another checkout, whose files Vite otherwise refuses to load
+        fs: { allow: ['.', ...(process.env.PERF_ROOT ? [process.env.PERF_ROOT] : [])] },
+    },
+    test: {
+        environment: 'jsdom',
+        include: ['perf/**/*.perf.ts'],
+    },
+});